@@ -0,0 +1,131 @@
+// app/api/admin/assistants/route.ts
+import {
+  collectOrphanedAssistants,
+  getServerAISettings,
+  saveAISettingsWithAssistants,
+} from "@/lib/assistantRegistry";
+import { isUserAdmin } from "@/lib/auth/adminService";
+import type { AISettings } from "@/lib/configManager";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+// Personality keys become part of Firestore document IDs
+const PERSONALITY_KEY_PATTERN = /^[a-z0-9-]{1,40}$/;
+
+/**
+ * Check settings sent by the admin panel, returning what's wrong with
+ * them or null
+ */
+function validateAISettings(settings: AISettings | undefined): string | null {
+  if (!settings?.personalities || typeof settings.personalities !== "object") {
+    return "Personalities are required";
+  }
+
+  const keys = Object.keys(settings.personalities);
+  if (keys.length === 0) {
+    return "At least one personality is required";
+  }
+  for (const key of keys) {
+    const personality = settings.personalities[key];
+    if (!PERSONALITY_KEY_PATTERN.test(key)) {
+      return `Invalid personality key: ${key}`;
+    }
+    if (
+      !personality?.name ||
+      !personality.instructions ||
+      typeof personality.temperature !== "number" ||
+      personality.temperature < 0 ||
+      personality.temperature > 2
+    ) {
+      return `Personality ${key} needs a name, instructions and a temperature between 0 and 2`;
+    }
+  }
+  if (!settings.personalities[settings.defaultPersonality]) {
+    return "The default personality must be one of the personalities";
+  }
+  if (typeof settings.generalInstructions !== "string") {
+    return "General instructions are required";
+  }
+  return null;
+}
+
+/**
+ * Get the personalities the server runs the assistant with
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+    if (!(await isUserAdmin(token.sub))) {
+      return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json({ settings: await getServerAISettings() });
+  } catch (error) {
+    console.error("Error getting AI settings:", error);
+    return NextResponse.json(
+      { message: "Failed to get AI settings" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save edited personalities, applying each edit to its registered
+ * assistant. This is the only place personalities can be changed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+    if (!(await isUserAdmin(token.sub))) {
+      return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+    }
+
+    const { settings }: { settings?: AISettings } = await request
+      .json()
+      .catch(() => ({}));
+
+    const invalid = validateAISettings(settings);
+    if (invalid || !settings) {
+      return NextResponse.json({ message: invalid }, { status: 400 });
+    }
+
+    await saveAISettingsWithAssistants(settings);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("Error saving AI settings:", error);
+    return NextResponse.json(
+      { message: "Failed to save AI settings" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Garbage-collect assistants nothing uses anymore
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+    if (!(await isUserAdmin(token.sub))) {
+      return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+    }
+
+    const removed = await collectOrphanedAssistants();
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("Error collecting orphaned assistants:", error);
+    return NextResponse.json(
+      { message: "Failed to clean up assistants" },
+      { status: 500 }
+    );
+  }
+}
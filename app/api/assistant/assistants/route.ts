@@ -0,0 +1,46 @@
+// app/api/assistant/assistants/route.ts
+import {
+  getOrCreateAssistant,
+  getPersonalityConfig,
+  isKnownPersonality,
+} from "@/lib/assistantRegistry";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Get the assistant for a personality, creating it the first time its
+ * configuration is used. Only the key is taken from the client; the
+ * personality's instructions and temperature are the server's.
+ */
+export async function POST(request: NextRequest) {
+  // Verify user is authenticated
+  const token = await getToken({ req: request });
+  if (!token?.sub) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { personality = "best-friend" }: { personality?: string } =
+      await request.json().catch(() => ({}));
+
+    if (!(await isKnownPersonality(personality))) {
+      return NextResponse.json(
+        { error: "Unknown personality" },
+        { status: 400 }
+      );
+    }
+
+    const assistantId = await getOrCreateAssistant(
+      personality,
+      await getPersonalityConfig(personality)
+    );
+
+    return NextResponse.json({ assistantId });
+  } catch (error) {
+    console.error("Error getting assistant:", error);
+    return NextResponse.json(
+      { error: "Failed to get assistant" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,16 @@
 // app/api/assistant/initialize/route.ts
 import {
-  createThread,
-  getOrCreateAssistant,
-  runAssistant,
-} from "@/lib/assistantService";
-import { createOrUpdateUserProfile } from "@/lib/firebase/models/user";
+  getPersonalityConfig,
+  isKnownPersonality,
+} from "@/lib/assistantRegistry";
+import { startConversation } from "@/lib/conversations";
 import { getToken } from "next-auth/jwt";
 import { NextRequest, NextResponse } from "next/server";
 
 /**
  * Initialize a new chat thread with an optional personality setting
- * Creates both the thread and assistant and returns a welcome message
+ * Starts a new conversation, opens it and returns a welcome message.
+ * The personality's instructions and temperature are the server's.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -21,57 +21,34 @@ export async function POST(request: NextRequest) {
     }
 
     // Get personality from request
-    const { personality = "best-friend" } = await request.json();
+    const {
+      personality = "best-friend",
+      title,
+    }: { personality?: string; title?: string } = await request
+      .json()
+      .catch(() => ({}));
 
-    // Create new thread
-    const threadId = await createThread();
-    if (!threadId) {
+    if (!(await isKnownPersonality(personality))) {
       return NextResponse.json(
-        { error: "Failed to create thread" },
-        { status: 500 }
+        { message: "Unknown personality" },
+        { status: 400 }
       );
     }
 
-    // Create or get assistant with specified personality
-    const assistantId = await getOrCreateAssistant(personality);
-    if (!assistantId) {
-      return NextResponse.json(
-        { error: "Failed to create assistant" },
-        { status: 500 }
-      );
-    }
-
-    // Save thread and assistant IDs to user profile
-    await createOrUpdateUserProfile(token.sub, {
-      threadId,
-      assistantId,
-      aiPersonality: personality,
-    });
-
-    // Get a welcome message by running the assistant
-    const assistantMessages = await runAssistant(
-      threadId,
-      assistantId,
-      personality,
-      async (toolName, toolArgs) => {
-        // Simple tool handling for initialization
-        return {
-          success: true,
-          message: "Operation completed during initialization",
-        };
+    const { conversation, welcomeMessage } = await startConversation(
+      token.sub,
+      {
+        title,
+        personality,
+        config: await getPersonalityConfig(personality),
       }
     );
 
-    // Prepare response with welcome message
-    let welcomeMessage = null;
-    if (assistantMessages && assistantMessages.length > 0) {
-      welcomeMessage = assistantMessages[assistantMessages.length - 1];
-    }
-
     return NextResponse.json({
-      threadId,
-      assistantId,
+      threadId: conversation.threadId,
+      assistantId: conversation.assistantId,
       personality,
+      conversation,
       welcomeMessage: welcomeMessage
         ? {
             id: welcomeMessage.id,
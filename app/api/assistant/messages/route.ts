@@ -1,15 +1,25 @@
 // app/api/assistant/messages/route.ts
+import {
+  addThreadMessage,
+  listThreadMessages,
+  ThreadBusyError,
+} from "@/lib/assistantGateway";
+import {
+  getChatMessagesPage,
+  parseChatMessageCursor,
+} from "@/lib/firebase/models/chatMessage";
+import { resolveThread, ThreadAccessError } from "@/lib/threadAccess";
 import { getToken } from "next-auth/jwt";
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
 
 /**
- * GET endpoint to retrieve messages from an OpenAI thread
+ * GET endpoint to retrieve messages. With a threadId it returns that
+ * assistant thread's messages; otherwise, or with history=true, a page of
+ * the user's history (only that thread's, when one is given):
+ *   ?history=true&threadId=<id>&before=<cursor>&limit=<n>
+ *     ->  { messages, hasMore, nextCursor }
+ * where `before` is the nextCursor of the previous page, or a timestamp to
+ * load the messages sent before it.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -20,56 +30,138 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
     }
 
-    // Get threadId from query parameters
     const url = new URL(request.url);
     const threadId = url.searchParams.get("threadId");
 
-    if (!threadId) {
+    // Get limit parameter (optional)
+    const limitParam = url.searchParams.get("limit");
+    const limit = limitParam ? parseInt(limitParam) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
       return NextResponse.json(
-        { message: "Thread ID is required" },
+        { message: "limit must be a positive number" },
         { status: 400 }
       );
     }
 
-    // Get limit parameter (optional)
-    const limitParam = url.searchParams.get("limit");
-    const limit = limitParam ? parseInt(limitParam) : undefined;
+    if (!threadId || url.searchParams.get("history") === "true") {
+      const beforeParam = url.searchParams.get("before");
+      const before = beforeParam
+        ? parseChatMessageCursor(beforeParam) || new Date(beforeParam)
+        : undefined;
+      if (before instanceof Date && isNaN(before.getTime())) {
+        return NextResponse.json(
+          { message: "before must be a cursor or an ISO timestamp" },
+          { status: 400 }
+        );
+      }
+
+      const { messages, hasMore, nextCursor } = await getChatMessagesPage(
+        token.sub,
+        {
+          threadId: threadId || undefined,
+          before,
+          limit,
+        }
+      );
+      return NextResponse.json({
+        messages: messages.map((msg) => ({
+          id: msg.id,
+          role: msg.role,
+          content: msg.content,
+          imageUrl: msg.imageUrl || undefined,
+          mealIds: msg.mealIds || [],
+          weightIds: msg.weightIds || [],
+          toolExecutionIds: msg.toolExecutionIds || [],
+          timestamp: msg.createdAt,
+        })),
+        hasMore,
+        nextCursor,
+      });
+    }
+
+    await resolveThread(token.sub, threadId);
 
-    // Fetch messages from OpenAI
-    const messages = await openai.beta.threads.messages.list(threadId, {
-      limit: limit,
-      order: "asc", // Oldest first for conversation flow
-    });
+    // Fetch messages, oldest first for conversation flow
+    const messages = await listThreadMessages(threadId, limit);
+    if (!messages) {
+      return NextResponse.json(
+        { message: "Thread not found" },
+        { status: 404 }
+      );
+    }
 
     // Format messages for the frontend
-    const formattedMessages = messages.data.map((msg) => ({
+    const formattedMessages = messages.map((msg) => ({
       id: msg.id,
       role: msg.role,
-      content: msg.content[0]?.type === "text" ? msg.content[0].text.value : "",
-      timestamp: new Date(msg.created_at * 1000),
+      content: msg.content,
+      imageUrl: msg.imageUrl,
+      timestamp: msg.createdAt,
     }));
 
     return NextResponse.json(formattedMessages);
   } catch (error) {
+    if (error instanceof ThreadAccessError) {
+      return NextResponse.json(
+        { message: "You don't have permission to use this thread" },
+        { status: 403 }
+      );
+    }
     console.error("Error fetching messages:", error);
+    return NextResponse.json(
+      { message: "Failed to fetch messages" },
+      { status: 500 }
+    );
+  }
+}
 
-    // Handle specific error types
-    if (error instanceof OpenAI.APIError) {
-      if (error.status === 404) {
-        return NextResponse.json(
-          { message: "Thread not found" },
-          { status: 404 }
-        );
-      }
+/**
+ * POST endpoint to add a user message, optionally with an image, to a thread
+ */
+export async function POST(request: NextRequest) {
+  // Verify user is authenticated
+  const token = await getToken({ req: request });
+  if (!token?.sub) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
 
+  try {
+    const {
+      threadId,
+      content = "",
+      imageUrl,
+    }: {
+      threadId?: string;
+      content?: string;
+      imageUrl?: string;
+    } = await request.json().catch(() => ({}));
+
+    if (!threadId || (!content && !imageUrl)) {
       return NextResponse.json(
-        { message: error.message || "OpenAI API error" },
-        { status: error.status || 500 }
+        { message: "Thread ID and message content are required" },
+        { status: 400 }
       );
     }
 
+    await resolveThread(token.sub, threadId);
+    await addThreadMessage(token.sub, threadId, content, imageUrl);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ThreadAccessError) {
+      return NextResponse.json(
+        { message: "You don't have permission to use this thread" },
+        { status: 403 }
+      );
+    }
+    if (error instanceof ThreadBusyError) {
+      return NextResponse.json(
+        { message: "A reply is still in progress on this thread" },
+        { status: 409 }
+      );
+    }
+    console.error("Error adding message:", error);
     return NextResponse.json(
-      { message: "Failed to fetch messages" },
+      { message: "Failed to add message" },
       { status: 500 }
     );
   }
@@ -0,0 +1,108 @@
+// app/api/assistant/run/route.ts
+import {
+  cancelThreadRun,
+  runThread,
+  ThreadBusyError,
+} from "@/lib/assistantGateway";
+import { getRunLock } from "@/lib/firebase/models/runLock";
+import { resolveThread, ThreadAccessError } from "@/lib/threadAccess";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Run the assistant on one of the user's threads to completion. Tool calls
+ * are executed on the server for the signed-in user and returned alongside
+ * the messages so the client can refresh what they changed.
+ */
+export async function POST(request: NextRequest) {
+  // Verify user is authenticated
+  const token = await getToken({ req: request });
+  if (!token?.sub) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { threadId }: { threadId?: string } = await request
+      .json()
+      .catch(() => ({}));
+
+    if (!threadId) {
+      return NextResponse.json(
+        { error: "Thread ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const { assistantId, temperature } = await resolveThread(
+      token.sub,
+      threadId
+    );
+    const result = await runThread(
+      token.sub,
+      threadId,
+      assistantId,
+      temperature
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ThreadAccessError) {
+      return NextResponse.json(
+        { error: "You don't have permission to use this thread" },
+        { status: 403 }
+      );
+    }
+    if (error instanceof ThreadBusyError) {
+      return NextResponse.json(
+        { error: "A reply is still in progress on this thread" },
+        { status: 409 }
+      );
+    }
+    console.error("Error running assistant:", error);
+    return NextResponse.json(
+      { error: "Failed to run assistant" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Stop the run working on a thread: ?threadId=<id>. It works from any tab
+ * or device, not only the one that started the run.
+ */
+export async function DELETE(request: NextRequest) {
+  // Verify user is authenticated
+  const token = await getToken({ req: request });
+  if (!token?.sub) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const threadId = new URL(request.url).searchParams.get("threadId");
+    if (!threadId) {
+      return NextResponse.json(
+        { message: "Thread ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const lock = await getRunLock(threadId);
+    if (!lock) {
+      return NextResponse.json({ cancelled: false });
+    }
+    if (lock.userId !== token.sub) {
+      return NextResponse.json(
+        { message: "You don't have permission to cancel this run" },
+        { status: 403 }
+      );
+    }
+
+    const cancelled = await cancelThreadRun(threadId);
+    return NextResponse.json({ cancelled });
+  } catch (error) {
+    console.error("Error cancelling run:", error);
+    return NextResponse.json(
+      { message: "Failed to cancel run" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+// app/api/assistant/status/route.ts
+import { checkAssistantAvailability } from "@/lib/assistantGateway";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Whether the assistant's API is configured and reachable
+ */
+export async function GET(request: NextRequest) {
+  // Verify user is authenticated
+  const token = await getToken({ req: request });
+  if (!token?.sub) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const available = await checkAssistantAvailability();
+  return NextResponse.json({ available });
+}
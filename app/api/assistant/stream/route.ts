@@ -0,0 +1,124 @@
+// app/api/assistant/stream/route.ts
+import { streamThread, ThreadBusyError } from "@/lib/assistantGateway";
+import { resolveThread, ThreadAccessError } from "@/lib/threadAccess";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+type StreamEvent =
+  "run" | "text" | "tool_call" | "tool_result" | "retry" | "done" | "error";
+
+/**
+ * Stream an assistant run on one of the user's threads as server-sent
+ * events:
+ *   run          { runId }
+ *   text         { delta } as the reply is generated
+ *   tool_call    { id, name, arguments } before a tool runs
+ *   tool_result  { id, name, output } after it ran on the server
+ *   retry        { attempt } when a failed run starts over; text sent so
+ *                far is discarded
+ *   done         { messageId, text, toolExecutionIds } with the full reply
+ *                and the logged tool calls that changed the user's records
+ *   error        { message }
+ * Closing the connection cancels the run, as does DELETE /api/assistant/run.
+ */
+export async function POST(request: NextRequest) {
+  // Verify user is authenticated
+  const token = await getToken({ req: request });
+  if (!token?.sub) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+  const userId = token.sub;
+
+  const { threadId }: { threadId?: string } = await request
+    .json()
+    .catch(() => ({}));
+
+  if (!threadId) {
+    return NextResponse.json(
+      { error: "Thread ID is required" },
+      { status: 400 }
+    );
+  }
+
+  let assistantId: string;
+  let temperature: number | undefined;
+  try {
+    ({ assistantId, temperature } = await resolveThread(userId, threadId));
+  } catch (error) {
+    if (error instanceof ThreadAccessError) {
+      return NextResponse.json(
+        { error: "You don't have permission to use this thread" },
+        { status: 403 }
+      );
+    }
+    console.error("Error resolving thread:", error);
+    return NextResponse.json(
+      { error: "Failed to process message" },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  // Cancel the run when the client goes away
+  const runAbort = new AbortController();
+  const cancelRun = () => runAbort.abort();
+  request.signal.addEventListener("abort", cancelRun);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent, data: unknown) => {
+        if (runAbort.signal.aborted) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      try {
+        const { messageId, text, toolExecutionIds } = await streamThread(
+          userId,
+          threadId,
+          assistantId,
+          {
+            temperature,
+            signal: runAbort.signal,
+            onRunStarted: (runId) => send("run", { runId }),
+            onText: (delta) => send("text", { delta }),
+            onToolCall: (toolCall) => send("tool_call", toolCall),
+            onToolResult: (result) => send("tool_result", result),
+            onRetry: (attempt) => send("retry", { attempt }),
+          }
+        );
+
+        send("done", { messageId, text, toolExecutionIds });
+      } catch (error) {
+        if (error instanceof ThreadBusyError) {
+          send("error", {
+            message: "A reply is still in progress on this thread",
+          });
+        } else if (!runAbort.signal.aborted) {
+          console.error("Error streaming assistant run:", error);
+          send("error", { message: "Failed to process message" });
+        }
+      } finally {
+        request.signal.removeEventListener("abort", cancelRun);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled client
+        }
+      }
+    },
+    cancel() {
+      cancelRun();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,37 @@
+// app/api/assistant/threads/route.ts
+import { isKnownPersonality } from "@/lib/assistantRegistry";
+import { startThread } from "@/lib/threadAccess";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Create an empty assistant thread for the user, to be run with the given
+ * personality's assistant
+ */
+export async function POST(request: NextRequest) {
+  // Verify user is authenticated
+  const token = await getToken({ req: request });
+  if (!token?.sub) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { personality = "best-friend" }: { personality?: string } =
+      await request.json().catch(() => ({}));
+    if (!(await isKnownPersonality(personality))) {
+      return NextResponse.json(
+        { error: "Unknown personality" },
+        { status: 400 }
+      );
+    }
+
+    const threadId = await startThread(token.sub, personality);
+    return NextResponse.json({ threadId });
+  } catch (error) {
+    console.error("Error creating thread:", error);
+    return NextResponse.json(
+      { error: "Failed to create thread" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 // app/api/chart-data/route.ts
 import { db } from "@/lib/firebase/clientApp";
+import { getMealsByUserAndRange } from "@/lib/firebase/models/meal";
+import { groupMeals } from "@/lib/mealAggregation";
+import { addDaysToKey, resolveTimeZone, toDateKey } from "@/lib/timezone";
 import {
   collection,
   getDocs,
@@ -85,9 +88,12 @@ export async function GET(request: NextRequest) {
     let targetProtein = 120;
     let targetCarbs = 200;
     let targetFat = 60;
+    let timeZone = resolveTimeZone();
 
     if (!profileSnapshot.empty) {
       const profileData = profileSnapshot.docs[0].data();
+      // Days are bucketed in the user's timezone, not the server's
+      timeZone = resolveTimeZone(profileData.timezone);
       if (profileData.targetWeight) targetWeight = profileData.targetWeight;
       if (profileData.targetCalories)
         targetCalories = profileData.targetCalories;
@@ -125,48 +131,10 @@ export async function GET(request: NextRequest) {
     // Sort by date
     weightLogs.sort((a, b) => a.date.getTime() - b.date.getTime());
 
-    // Get meals data (simple query)
-    const mealsRef = collection(db, "meals");
-    const mealsQuery = query(mealsRef, where("userId", "==", token.sub));
-    const mealsSnapshot = await getDocs(mealsQuery);
-
-    const mealsByDate: Record<
-      string,
-      {
-        calories: number;
-        protein: number;
-        carbs: number;
-        fat: number;
-      }
-    > = {};
-
-    mealsSnapshot.forEach((doc) => {
-      const data = doc.data();
-      const mealDate =
-        data.date instanceof Timestamp
-          ? data.date.toDate()
-          : new Date(data.date);
-
-      // Filter in memory
-      if (mealDate >= startDate && mealDate <= today) {
-        const dateKey = mealDate.toISOString().split("T")[0];
-
-        if (!mealsByDate[dateKey]) {
-          mealsByDate[dateKey] = {
-            calories: 0,
-            protein: 0,
-            carbs: 0,
-            fat: 0,
-          };
-        }
-
-        // Sum macros for the day
-        mealsByDate[dateKey].calories += data.calories || 0;
-        mealsByDate[dateKey].protein += data.protein || 0;
-        mealsByDate[dateKey].carbs += data.carbs || 0;
-        mealsByDate[dateKey].fat += data.fat || 0;
-      }
-    });
+    // Daily meal totals from the indexed range query, bucketed the same
+    // way as /api/meals?groupBy=day
+    const meals = await getMealsByUserAndRange(token.sub, startDate, today);
+    const mealsByDate = groupMeals(meals, "day", timeZone);
 
     // Calculate weight goal trajectory
     const startWeight = weightLogs.length > 0 ? weightLogs[0].weight : null;
@@ -179,12 +147,11 @@ export async function GET(request: NextRequest) {
 
     // Create a map of all dates in the range
     const dateMap = new Map<string, any>();
-    const currentDate = new Date(startDate);
+    const lastDateKey = toDateKey(today, timeZone);
+    let dateKey = toDateKey(startDate, timeZone);
     let day = 0;
 
-    while (currentDate <= today) {
-      const dateKey = currentDate.toISOString().split("T")[0];
-
+    while (dateKey <= lastDateKey) {
       // Calculate goal weight for this day
       const goalWeight =
         startWeight && targetWeight
@@ -201,13 +168,13 @@ export async function GET(request: NextRequest) {
       });
 
       // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
+      dateKey = addDaysToKey(dateKey, 1);
       day++;
     }
 
     // Merge weight data
     weightLogs.forEach((log) => {
-      const dateKey = log.date.toISOString().split("T")[0];
+      const dateKey = toDateKey(log.date, timeZone);
       const existingData = dateMap.get(dateKey) || { date: dateKey };
 
       dateMap.set(dateKey, {
@@ -217,15 +184,15 @@ export async function GET(request: NextRequest) {
     });
 
     // Merge meal data
-    Object.entries(mealsByDate).forEach(([dateKey, mealData]) => {
-      const existingData = dateMap.get(dateKey) || { date: dateKey };
+    mealsByDate.forEach((bucket) => {
+      const existingData = dateMap.get(bucket.key) || { date: bucket.key };
 
-      dateMap.set(dateKey, {
+      dateMap.set(bucket.key, {
         ...existingData,
-        calories: mealData.calories,
-        protein: mealData.protein,
-        carbs: mealData.carbs,
-        fat: mealData.fat,
+        calories: bucket.calories,
+        protein: bucket.protein,
+        carbs: bucket.carbs,
+        fat: bucket.fat,
       });
     });
 
@@ -0,0 +1,139 @@
+// app/api/conversations/[id]/route.ts
+import {
+  openConversation,
+  removeConversation,
+  setConversationArchived,
+} from "@/lib/conversations";
+import {
+  getConversationById,
+  updateConversation,
+} from "@/lib/firebase/models/conversation";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+const MAX_TITLE_LENGTH = 80;
+
+// PATCH endpoint to rename, archive or restore, or open a conversation
+export async function PATCH(request: NextRequest, context: any) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const conversationId = context.params.id;
+    const conversation = await getConversationById(conversationId);
+    if (!conversation) {
+      return NextResponse.json(
+        { message: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (conversation.userId !== token.sub) {
+      return NextResponse.json(
+        { message: "You don't have permission to update this conversation" },
+        { status: 403 }
+      );
+    }
+
+    const {
+      title,
+      archived,
+      open,
+    }: { title?: string; archived?: boolean; open?: boolean } = await request
+      .json()
+      .catch(() => ({}));
+
+    if (open && (archived ?? conversation.archived)) {
+      return NextResponse.json(
+        { message: "Restore the conversation before opening it" },
+        { status: 400 }
+      );
+    }
+
+    if (title !== undefined) {
+      const trimmed = String(title).trim();
+      if (!trimmed || trimmed.length > MAX_TITLE_LENGTH) {
+        return NextResponse.json(
+          {
+            message: `Title must be between 1 and ${MAX_TITLE_LENGTH} characters`,
+          },
+          { status: 400 }
+        );
+      }
+      await updateConversation(conversationId, { title: trimmed });
+    }
+
+    if (typeof archived === "boolean") {
+      await setConversationArchived(token.sub, conversation, archived);
+    }
+
+    if (open) {
+      await openConversation(token.sub, conversation);
+    }
+
+    return NextResponse.json({
+      message: "Conversation updated successfully",
+      success: true,
+      conversationId,
+      assistantId: conversation.assistantId,
+    });
+  } catch (error) {
+    console.error("Error updating conversation:", error);
+    return NextResponse.json(
+      {
+        message: "Failed to update conversation",
+        error: error instanceof Error ? error.message : String(error),
+        success: false,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE endpoint to delete a conversation along with its thread
+export async function DELETE(request: NextRequest, context: any) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const conversationId = context.params.id;
+    const conversation = await getConversationById(conversationId);
+    if (!conversation) {
+      return NextResponse.json(
+        { message: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (conversation.userId !== token.sub) {
+      return NextResponse.json(
+        { message: "You don't have permission to delete this conversation" },
+        { status: 403 }
+      );
+    }
+
+    await removeConversation(token.sub, conversation);
+
+    return NextResponse.json({
+      message: "Conversation deleted successfully",
+      success: true,
+      conversationId,
+    });
+  } catch (error) {
+    console.error("Error deleting conversation:", error);
+    return NextResponse.json(
+      {
+        message: "Failed to delete conversation",
+        error: error instanceof Error ? error.message : String(error),
+        success: false,
+      },
+      { status: 500 }
+    );
+  }
+}
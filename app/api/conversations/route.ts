@@ -0,0 +1,61 @@
+// app/api/conversations/route.ts
+import { getUserProfileById } from "@/lib/auth/authService";
+import { ensureOpenConversationRecorded } from "@/lib/conversations";
+import {
+  Conversation,
+  getConversationsByUser,
+} from "@/lib/firebase/models/conversation";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+const toDate = (value: any): Date | null =>
+  value?.toDate ? value.toDate() : null;
+
+const formatConversation = (
+  conversation: Conversation,
+  openThreadId?: string | null
+) => ({
+  id: conversation.threadId,
+  title: conversation.title,
+  personality: conversation.personality,
+  archived: conversation.archived,
+  isOpen: conversation.threadId === openThreadId,
+  createdAt: toDate(conversation.createdAt),
+  updatedAt: toDate(conversation.updatedAt),
+  lastMessageAt: toDate(conversation.lastMessageAt),
+});
+
+/**
+ * GET endpoint to list the user's conversations, most recently active
+ * first. Archived ones are included with ?archived=true.
+ * New conversations are started with POST /api/assistant/initialize.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const includeArchived = url.searchParams.get("archived") === "true";
+
+    await ensureOpenConversationRecorded(token.sub);
+    const [conversations, profile] = await Promise.all([
+      getConversationsByUser(token.sub, { includeArchived }),
+      getUserProfileById(token.sub),
+    ]);
+
+    return NextResponse.json({
+      conversations: conversations.map((conversation) =>
+        formatConversation(conversation, profile?.threadId)
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching conversations:", error);
+    return NextResponse.json(
+      { message: "Failed to fetch conversations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+// app/api/meal-proposals/[id]/confirm/route.ts
+import { getMealProposalById } from "@/lib/firebase/models/mealProposal";
+import {
+  confirmMealProposal,
+  MealProposalEdits,
+  MealProposalResolvedError,
+} from "@/lib/mealProposals";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+const NUMBER_FIELDS = ["calories", "protein", "carbs", "fat"] as const;
+
+/**
+ * POST endpoint to log a meal the assistant proposed, with any changes
+ * the user made to it
+ */
+export async function POST(request: NextRequest, context: any) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const proposal = await getMealProposalById(context.params.id);
+    if (!proposal) {
+      return NextResponse.json(
+        { message: "Meal proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (proposal.userId !== token.sub) {
+      return NextResponse.json(
+        { message: "You don't have permission to confirm this meal" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const edits: MealProposalEdits = {};
+    if (typeof body.name === "string") edits.name = body.name;
+    if (typeof body.mealType === "string") edits.mealType = body.mealType;
+    if (Array.isArray(body.items)) edits.items = body.items;
+    for (const field of NUMBER_FIELDS) {
+      if (body[field] === undefined || body[field] === null) continue;
+      const value = Number(body[field]);
+      if (isNaN(value) || value < 0) {
+        return NextResponse.json(
+          { message: `${field} must be a non-negative number` },
+          { status: 400 }
+        );
+      }
+      edits[field] = value;
+    }
+
+    const meal = await confirmMealProposal(proposal.id!, edits);
+
+    return NextResponse.json({ success: true, meal });
+  } catch (error) {
+    // Already confirmed or rejected, e.g. by a retried request
+    if (error instanceof MealProposalResolvedError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+    console.error("Error confirming meal proposal:", error);
+    return NextResponse.json(
+      { message: "Failed to confirm meal" },
+      { status: 500 }
+    );
+  }
+}
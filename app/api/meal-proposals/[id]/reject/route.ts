@@ -0,0 +1,53 @@
+// app/api/meal-proposals/[id]/reject/route.ts
+import { getMealProposalById } from "@/lib/firebase/models/mealProposal";
+import {
+  MealProposalResolvedError,
+  rejectMealProposal,
+} from "@/lib/mealProposals";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST endpoint to turn down a meal the assistant proposed, so it's never
+ * logged
+ */
+export async function POST(request: NextRequest, context: any) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const proposal = await getMealProposalById(context.params.id);
+    if (!proposal) {
+      return NextResponse.json(
+        { message: "Meal proposal not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (proposal.userId !== token.sub) {
+      return NextResponse.json(
+        { message: "You don't have permission to reject this meal" },
+        { status: 403 }
+      );
+    }
+
+    // Only pending proposals; confirmed meals are taken back by undoing
+    // the tool call instead
+    await rejectMealProposal(proposal.id!);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    // Already confirmed or rejected, e.g. by a retried request
+    if (error instanceof MealProposalResolvedError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+    console.error("Error rejecting meal proposal:", error);
+    return NextResponse.json(
+      { message: "Failed to reject meal" },
+      { status: 500 }
+    );
+  }
+}
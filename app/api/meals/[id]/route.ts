@@ -4,6 +4,8 @@ import {
   getMealById,
   updateMeal,
 } from "@/lib/firebase/models/meal";
+import { getUserTimeZone } from "@/lib/firebase/models/user";
+import { parseUserDate } from "@/lib/timezone";
 import { getToken } from "next-auth/jwt";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -42,11 +44,14 @@ export async function PATCH(request: NextRequest, context: any) {
       );
     }
 
-    // Process date: ensure it's a Date object
+    // Process date: ensure it's a Date object. Plain yyyy-MM-dd dates are
+    // days in the user's timezone.
     if (updateData.date) {
-      // If it's an ISO string, convert to Date
       if (typeof updateData.date === "string") {
-        updateData.date = new Date(updateData.date);
+        updateData.date = parseUserDate(
+          updateData.date,
+          await getUserTimeZone(token.sub)
+        );
       }
     }
 
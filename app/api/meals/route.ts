@@ -1,7 +1,29 @@
 // app/api/meals/route.ts - Improved fix with better error handling and logging
 
-import { db } from "@/lib/firebase/clientApp";
-import { collection, getDocs, query, where } from "firebase/firestore";
+import {
+  createMeal,
+  getMealsByUserAndDate,
+  getMealsByUserAndRange,
+  getMealsPageByUserAndRange,
+  Meal,
+  MealCursor,
+} from "@/lib/firebase/models/meal";
+import { getUserTimeZone } from "@/lib/firebase/models/user";
+import {
+  groupMeals,
+  MEAL_GROUP_BY_OPTIONS,
+  MealGroupBy,
+  MealSummaryResponse,
+  sumMeals,
+} from "@/lib/mealAggregation";
+import { normalizeMealItems } from "@/lib/mealItems";
+import {
+  endOfDayInZone,
+  isDateKey,
+  parseUserDate,
+  startOfDayInZone,
+} from "@/lib/timezone";
+import { parseISO } from "date-fns";
 import { getToken } from "next-auth/jwt";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -16,88 +38,181 @@ const addCacheControlHeaders = (response: NextResponse) => {
   return response;
 };
 
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Parse a date query parameter. Plain yyyy-MM-dd values are read in the
+ * user's timezone and expanded to the start or end of that day.
+ */
+const parseDateParam = (
+  value: string | null,
+  edge: "start" | "end",
+  timeZone: string
+): Date | null => {
+  if (!value) return null;
+
+  const date = parseISO(value);
+  if (isNaN(date.getTime())) return null;
+
+  if (isDateKey(value)) {
+    return edge === "start"
+      ? startOfDayInZone(value, timeZone)
+      : endOfDayInZone(value, timeZone);
+  }
+  return date;
+};
+
+// Query params that ask for the paginated summary instead of the plain
+// list of all meals
+const SUMMARY_PARAMS = ["from", "to", "date", "groupBy", "limit", "cursor"];
+
+/**
+ * Cursors are "<ISO date>|<meal id>", the position of the last meal on the
+ * previous page
+ */
+const encodeCursor = (meal: Meal): string =>
+  `${(meal.date as Date).toISOString()}|${meal.id}`;
+
+const decodeCursor = (cursor: string): MealCursor | null => {
+  const separator = cursor.indexOf("|");
+  if (separator === -1) return null;
+
+  const date = parseISO(cursor.slice(0, separator));
+  const id = cursor.slice(separator + 1);
+  if (isNaN(date.getTime()) || !id) return null;
+  return { date, id };
+};
+
+/**
+ * GET endpoint for meals in a date range with grouped totals
+ * Query params:
+ *   from, to - ISO dates (inclusive), default to today
+ *   date     - shorthand for a single day
+ *   groupBy  - day | week | month | mealType (default day)
+ *   limit    - meals per page (default 50, max 200)
+ *   cursor   - nextCursor from the previous page
+ * Totals and buckets cover the whole range and are only returned on the
+ * first page; later pages only read their own meals.
+ * Without any of these params it keeps returning all of the user's meals
+ * as a plain array, oldest first.
+ */
 export async function GET(request: NextRequest) {
   try {
-    console.log("GET /api/meals request received");
-
     // Authenticate user
     const token = await getToken({ req: request });
     if (!token?.sub) {
-      console.log("Unauthorized request to /api/meals");
       return addCacheControlHeaders(
         NextResponse.json({ message: "Unauthorized" }, { status: 401 })
       );
     }
 
-    // Parse date parameter
     const url = new URL(request.url);
-    const dateStr = url.searchParams.get("date");
-    let startDate: Date | undefined;
-    let endDate: Date | undefined;
-
-    if (dateStr) {
-      try {
-        // If a specific date is provided, set start/end to that day
-        const date = new Date(dateStr);
-        if (!isNaN(date.getTime())) {
-          startDate = new Date(date);
-          startDate.setHours(0, 0, 0, 0);
-          endDate = new Date(date);
-          endDate.setHours(23, 59, 59, 999);
-        } else {
-          console.log("Invalid date format:", dateStr);
-        }
-      } catch (error) {
-        console.log("Error parsing date:", error);
-      }
+    const params = url.searchParams;
+
+    if (!SUMMARY_PARAMS.some((param) => params.has(param))) {
+      const meals = await getMealsByUserAndDate(token.sub);
+      return addCacheControlHeaders(NextResponse.json(meals.reverse()));
     }
 
-    console.log("Fetching meals with userId filter only");
-
-    // Create a simple query that doesn't require complex indexing
-    // Just filter by userId, we'll filter by date in memory
-    const mealsRef = collection(db, "meals");
-    const simpleQuery = query(mealsRef, where("userId", "==", token.sub));
-
-    const querySnapshot = await getDocs(simpleQuery);
-
-    // Transform the data
-    const meals: { id: string; date: Date; [key: string]: any }[] = [];
-    querySnapshot.forEach((doc) => {
-      const data = doc.data();
-
-      // Convert the date
-      const mealDate = data.date?.toDate
-        ? data.date.toDate()
-        : new Date(data.date);
-
-      // Filter by date in memory if needed
-      if (startDate && endDate) {
-        if (mealDate >= startDate && mealDate <= endDate) {
-          meals.push({
-            id: doc.id,
-            ...data,
-            date: mealDate,
-          });
-        }
-      } else {
-        meals.push({
-          id: doc.id,
-          ...data,
-          date: mealDate,
-        });
-      }
-    });
+    // Days are counted in the user's timezone, not the server's
+    const timeZone = await getUserTimeZone(token.sub);
 
-    // Sort by date
-    const sortedMeals = meals.sort((a, b) => {
-      return new Date(a.date).getTime() - new Date(b.date).getTime();
-    });
+    // Resolve the date range; a single `date` covers that day
+    const fromParam = params.get("from") || params.get("date");
+    const toParam = params.get("to") || params.get("date");
+    const from = parseDateParam(fromParam, "start", timeZone);
+    const to = parseDateParam(toParam, "end", timeZone);
 
-    console.log(`Returning ${sortedMeals.length} meals`);
+    if ((fromParam && !from) || (toParam && !to)) {
+      return addCacheControlHeaders(
+        NextResponse.json({ message: "Invalid date format" }, { status: 400 })
+      );
+    }
+
+    // Default to today, or to the day of whichever bound was given
+    const rangeEnd = to || endOfDayInZone(from || new Date(), timeZone);
+    const rangeStart = from || startOfDayInZone(rangeEnd, timeZone);
+
+    if (rangeStart > rangeEnd) {
+      return addCacheControlHeaders(
+        NextResponse.json(
+          { message: "'from' must be before 'to'" },
+          { status: 400 }
+        )
+      );
+    }
+
+    const groupBy = (params.get("groupBy") || "day") as MealGroupBy;
+    if (!MEAL_GROUP_BY_OPTIONS.includes(groupBy)) {
+      return addCacheControlHeaders(
+        NextResponse.json(
+          {
+            message: `groupBy must be one of: ${MEAL_GROUP_BY_OPTIONS.join(
+              ", "
+            )}`,
+          },
+          { status: 400 }
+        )
+      );
+    }
+
+    const limitParam = parseInt(params.get("limit") || "");
+    const limit = isNaN(limitParam)
+      ? DEFAULT_PAGE_SIZE
+      : Math.min(Math.max(limitParam, 1), MAX_PAGE_SIZE);
+
+    const cursorParam = params.get("cursor");
+    let response: MealSummaryResponse;
+
+    if (cursorParam) {
+      const cursor = decodeCursor(cursorParam);
+      if (!cursor) {
+        return addCacheControlHeaders(
+          NextResponse.json({ message: "Invalid cursor" }, { status: 400 })
+        );
+      }
+
+      // Later pages - only this page of meals is read
+      const { meals, hasMore } = await getMealsPageByUserAndRange(
+        token.sub,
+        rangeStart,
+        rangeEnd,
+        limit,
+        cursor
+      );
+      response = {
+        from: rangeStart.toISOString(),
+        to: rangeEnd.toISOString(),
+        timeZone,
+        groupBy,
+        totals: null,
+        buckets: null,
+        meals,
+        nextCursor: hasMore ? encodeCursor(meals[meals.length - 1]) : null,
+      };
+    } else {
+      // First page - the totals need every meal in [from, to]
+      const meals = await getMealsByUserAndRange(
+        token.sub,
+        rangeStart,
+        rangeEnd
+      );
+      const page = meals.slice(0, limit);
+      response = {
+        from: rangeStart.toISOString(),
+        to: rangeEnd.toISOString(),
+        timeZone,
+        groupBy,
+        totals: sumMeals(meals),
+        buckets: groupMeals(meals, groupBy, timeZone),
+        meals: page,
+        nextCursor:
+          meals.length > limit ? encodeCursor(page[page.length - 1]) : null,
+      };
+    }
 
-    // Return the meals
-    return addCacheControlHeaders(NextResponse.json(sortedMeals));
+    return addCacheControlHeaders(NextResponse.json(response));
   } catch (error) {
     console.error("Error processing meals request:", error);
 
@@ -113,3 +228,61 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return addCacheControlHeaders(
+        NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+      );
+    }
+
+    const body = await request.json();
+
+    if (!body.name || body.calories === undefined || body.calories === null) {
+      return addCacheControlHeaders(
+        NextResponse.json(
+          { message: "Meal name and calories are required" },
+          { status: 400 }
+        )
+      );
+    }
+
+    const date = body.date
+      ? parseUserDate(body.date, await getUserTimeZone(token.sub))
+      : new Date();
+    if (!date || isNaN(date.getTime())) {
+      return addCacheControlHeaders(
+        NextResponse.json({ message: "Invalid date format" }, { status: 400 })
+      );
+    }
+
+    const meal = await createMeal({
+      userId: token.sub,
+      name: body.name,
+      mealType: body.mealType || "Other",
+      calories: Number(body.calories) || 0,
+      protein: body.protein ?? null,
+      carbs: body.carbs ?? null,
+      fat: body.fat ?? null,
+      items: normalizeMealItems(body.items),
+      date,
+    });
+
+    return addCacheControlHeaders(NextResponse.json(meal, { status: 201 }));
+  } catch (error) {
+    console.error("Error creating meal:", error);
+
+    return addCacheControlHeaders(
+      NextResponse.json(
+        {
+          message: "Error creating meal",
+          error: error instanceof Error ? error.message : String(error),
+        },
+        { status: 500 }
+      )
+    );
+  }
+}
@@ -0,0 +1,49 @@
+// app/api/memories/[id]/route.ts
+import { deleteMemory, getMemoryById } from "@/lib/firebase/models/memory";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+// DELETE endpoint to make the assistant forget a memory
+export async function DELETE(request: NextRequest, context: any) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const memoryId = context.params.id;
+    const memory = await getMemoryById(memoryId);
+    if (!memory) {
+      return NextResponse.json(
+        { message: "Memory not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (memory.userId !== token.sub) {
+      return NextResponse.json(
+        { message: "You don't have permission to delete this memory" },
+        { status: 403 }
+      );
+    }
+
+    await deleteMemory(memoryId);
+
+    return NextResponse.json({
+      message: "Memory deleted successfully",
+      success: true,
+      memoryId,
+    });
+  } catch (error) {
+    console.error("Error deleting memory:", error);
+    return NextResponse.json(
+      {
+        message: "Failed to delete memory",
+        error: error instanceof Error ? error.message : String(error),
+        success: false,
+      },
+      { status: 500 }
+    );
+  }
+}
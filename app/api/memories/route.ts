@@ -0,0 +1,32 @@
+// app/api/memories/route.ts
+import { getMemoriesByUser } from "@/lib/firebase/models/memory";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * GET endpoint to list what the assistant remembers about the user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const memories = await getMemoriesByUser(token.sub);
+    return NextResponse.json({
+      memories: memories.map(({ id, category, content, updatedAt }) => ({
+        id,
+        category,
+        content,
+        updatedAt: updatedAt?.toDate ? updatedAt.toDate() : null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching memories:", error);
+    return NextResponse.json(
+      { message: "Failed to fetch memories" },
+      { status: 500 }
+    );
+  }
+}
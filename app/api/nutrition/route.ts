@@ -1,7 +1,12 @@
 // app/api/nutrition/route.ts
+import { lookupNutrition } from "@/lib/nutrition/foodDatabase";
 import { getToken } from "next-auth/jwt";
 import { NextRequest, NextResponse } from "next/server";
 
+/**
+ * GET endpoint to look up nutrition facts in the local food database
+ * Query params: q (food name), serving (e.g. "1 cup", "100g"), limit
+ */
 export async function GET(request: NextRequest) {
   try {
     // Get session token for authentication
@@ -10,13 +15,27 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
     }
 
-    // This is a simple implementation that returns the nutrition data
-    // In a real app, you might fetch this from a database
+    const url = new URL(request.url);
+    const query = url.searchParams.get("q")?.trim();
+    const serving = url.searchParams.get("serving");
+    const limitParam = url.searchParams.get("limit");
+    const limit = limitParam
+      ? Math.min(Math.max(parseInt(limitParam), 1), 20)
+      : 5;
+
+    if (!query) {
+      return NextResponse.json(
+        { message: "Query parameter 'q' is required" },
+        { status: 400 }
+      );
+    }
+
+    const results = lookupNutrition(query, serving, isNaN(limit) ? 5 : limit);
+
     return NextResponse.json({
-      calories: 0,
-      protein: 0,
-      carbs: 0,
-      fat: 0,
+      query,
+      serving: serving || null,
+      results,
     });
   } catch (error) {
     console.error("Error fetching nutrition data:", error);
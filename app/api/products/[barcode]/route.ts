@@ -0,0 +1,49 @@
+// app/api/products/[barcode]/route.ts
+import {
+  getProductByBarcode,
+  getProductServing,
+} from "@/lib/firebase/models/product";
+import { hasValidCheckDigit, normalizeBarcode } from "@/lib/nutrition/barcode";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * GET endpoint to resolve a scanned or typed UPC/EAN against the local
+ * packaged-product catalog
+ */
+export async function GET(request: NextRequest, context: any) {
+  try {
+    // Get session token for authentication
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const barcode = normalizeBarcode(context.params.barcode);
+    if (!barcode || !hasValidCheckDigit(barcode)) {
+      return NextResponse.json(
+        { message: "Invalid barcode. Check the digits and try again." },
+        { status: 400 }
+      );
+    }
+
+    const product = await getProductByBarcode(barcode);
+    if (!product) {
+      return NextResponse.json(
+        { message: "Product not found", barcode },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      product,
+      serving: getProductServing(product),
+    });
+  } catch (error) {
+    console.error("Error looking up product:", error);
+    return NextResponse.json(
+      { message: "Failed to look up product" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+// app/api/products/import/route.ts
+import { isUserAdmin } from "@/lib/auth/adminService";
+import { upsertProducts } from "@/lib/firebase/models/product";
+import { parseOpenFoodFactsDump } from "@/lib/nutrition/openFoodFacts";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Admin-only endpoint to import packaged products from an Open Food Facts
+ * dump. Accepts the JSONL product dump or the tab-separated CSV export,
+ * either as a multipart "file" field or as the raw request body.
+ * The full dump is several GB, so filter it (e.g. by country) and post
+ * it in parts.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get session token for authentication
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isUserAdmin(token.sub))) {
+      return NextResponse.json(
+        { message: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    let dump: string;
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+      if (!file || !(file instanceof Blob)) {
+        return NextResponse.json(
+          { message: "No dump file provided" },
+          { status: 400 }
+        );
+      }
+      dump = await file.text();
+    } else {
+      dump = await request.text();
+    }
+
+    const { products, skipped } = parseOpenFoodFactsDump(dump);
+    if (products.length === 0) {
+      return NextResponse.json(
+        { message: "No importable products found in dump", skipped },
+        { status: 400 }
+      );
+    }
+
+    const imported = await upsertProducts(products);
+
+    return NextResponse.json({
+      message: "Products imported successfully",
+      imported,
+      skipped,
+    });
+  } catch (error) {
+    console.error("Error importing products:", error);
+    return NextResponse.json(
+      {
+        message: "Failed to import products",
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+// app/api/saved-meals/[id]/log/route.ts
+import {
+  getSavedMealById,
+  logSavedMeal,
+} from "@/lib/firebase/models/savedMeal";
+import { getUserTimeZone } from "@/lib/firebase/models/user";
+import { parseUserDate } from "@/lib/timezone";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST endpoint to log a saved meal again
+ * Body (optional): { servings, mealType, date }
+ */
+export async function POST(request: NextRequest, context: any) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const savedMeal = await getSavedMealById(context.params.id);
+    if (!savedMeal) {
+      return NextResponse.json(
+        { message: "Saved meal not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (savedMeal.userId !== token.sub) {
+      return NextResponse.json(
+        { message: "You don't have permission to log this saved meal" },
+        { status: 403 }
+      );
+    }
+
+    // The body is optional - default to one serving now
+    let body: { servings?: number; mealType?: string; date?: string } = {};
+    try {
+      body = await request.json();
+    } catch (e) {
+      // No body
+    }
+
+    // A plain yyyy-MM-dd date is that day in the user's timezone, as for
+    // POST /api/meals
+    const date = body.date
+      ? parseUserDate(body.date, await getUserTimeZone(token.sub))
+      : undefined;
+    if (body.date && (!date || isNaN(date.getTime()))) {
+      return NextResponse.json(
+        { message: "Invalid date format" },
+        { status: 400 }
+      );
+    }
+
+    const meal = await logSavedMeal(savedMeal, {
+      servings: Number(body.servings) || 1,
+      mealType: body.mealType,
+      date,
+    });
+
+    return NextResponse.json({ meal }, { status: 201 });
+  } catch (error) {
+    console.error("Error logging saved meal:", error);
+    return NextResponse.json(
+      { message: "Failed to log saved meal" },
+      { status: 500 }
+    );
+  }
+}
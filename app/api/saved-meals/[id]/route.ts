@@ -0,0 +1,107 @@
+// app/api/saved-meals/[id]/route.ts
+import {
+  deleteSavedMeal,
+  getSavedMealById,
+  updateSavedMeal,
+} from "@/lib/firebase/models/savedMeal";
+import { normalizeMealItems } from "@/lib/mealItems";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+// PATCH endpoint to update a saved meal or recipe
+export async function PATCH(request: NextRequest, context: any) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const savedMealId = context.params.id;
+    const savedMeal = await getSavedMealById(savedMealId);
+    if (!savedMeal) {
+      return NextResponse.json(
+        { message: "Saved meal not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (savedMeal.userId !== token.sub) {
+      return NextResponse.json(
+        { message: "You don't have permission to update this saved meal" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    await updateSavedMeal(savedMealId, {
+      name: body.name,
+      aliases: body.aliases,
+      mealType: body.mealType,
+      items:
+        body.items !== undefined ? normalizeMealItems(body.items) : undefined,
+      servings: body.servings !== undefined ? Number(body.servings) : undefined,
+    });
+
+    return NextResponse.json({
+      message: "Saved meal updated successfully",
+      success: true,
+      savedMealId,
+    });
+  } catch (error) {
+    console.error("Error updating saved meal:", error);
+    return NextResponse.json(
+      {
+        message: "Failed to update saved meal",
+        error: error instanceof Error ? error.message : String(error),
+        success: false,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE endpoint to delete a saved meal or recipe
+export async function DELETE(request: NextRequest, context: any) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const savedMealId = context.params.id;
+    const savedMeal = await getSavedMealById(savedMealId);
+    if (!savedMeal) {
+      return NextResponse.json(
+        { message: "Saved meal not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (savedMeal.userId !== token.sub) {
+      return NextResponse.json(
+        { message: "You don't have permission to delete this saved meal" },
+        { status: 403 }
+      );
+    }
+
+    await deleteSavedMeal(savedMealId);
+
+    return NextResponse.json({
+      message: "Saved meal deleted successfully",
+      success: true,
+      savedMealId,
+    });
+  } catch (error) {
+    console.error("Error deleting saved meal:", error);
+    return NextResponse.json(
+      {
+        message: "Failed to delete saved meal",
+        error: error instanceof Error ? error.message : String(error),
+        success: false,
+      },
+      { status: 500 }
+    );
+  }
+}
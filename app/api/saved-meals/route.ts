@@ -0,0 +1,91 @@
+// app/api/saved-meals/route.ts
+import { getMealById } from "@/lib/firebase/models/meal";
+import {
+  createSavedMeal,
+  getSavedMealsByUser,
+  saveMealAsTemplate,
+} from "@/lib/firebase/models/savedMeal";
+import { normalizeMealItems } from "@/lib/mealItems";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * GET endpoint to list the user's saved meals and recipes
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const savedMeals = await getSavedMealsByUser(token.sub);
+    return NextResponse.json({ savedMeals });
+  } catch (error) {
+    console.error("Error fetching saved meals:", error);
+    return NextResponse.json(
+      { message: "Failed to fetch saved meals" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST endpoint to save a meal template or recipe
+ * Body: { mealId, name? } to save a logged meal as a template, or
+ *       { name, items, servings, mealType?, aliases? } for a recipe
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    if (body.mealId) {
+      const meal = await getMealById(body.mealId);
+      if (!meal) {
+        return NextResponse.json(
+          { message: "Meal not found" },
+          { status: 404 }
+        );
+      }
+      if (meal.userId !== token.sub) {
+        return NextResponse.json(
+          { message: "You don't have permission to save this meal" },
+          { status: 403 }
+        );
+      }
+
+      const savedMeal = await saveMealAsTemplate(meal, body.name);
+      return NextResponse.json({ savedMeal }, { status: 201 });
+    }
+
+    const items = normalizeMealItems(body.items);
+    if (!body.name?.trim() || !items.length) {
+      return NextResponse.json(
+        { message: "A name and at least one item are required" },
+        { status: 400 }
+      );
+    }
+
+    const savedMeal = await createSavedMeal({
+      userId: token.sub,
+      name: body.name,
+      aliases: Array.isArray(body.aliases) ? body.aliases : [],
+      mealType: body.mealType || null,
+      items,
+      servings: Number(body.servings) || 1,
+    });
+
+    return NextResponse.json({ savedMeal }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving meal:", error);
+    return NextResponse.json(
+      { message: "Failed to save meal" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+// app/api/search/route.ts
+import type { ChatMessage } from "@/lib/firebase/models/chatMessage";
+import type { Meal } from "@/lib/firebase/models/meal";
+import type { WeightLog } from "@/lib/firebase/models/weightLog";
+import { searchUserData } from "@/lib/search";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_RESULTS_PER_TYPE = 50;
+
+/**
+ * GET endpoint to search the user's chat history, meals and weight notes:
+ *   ?q=<text>&limit=<per type>
+ * Results are grouped by type, best matches first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const query = (url.searchParams.get("q") || "").trim();
+    if (!query) {
+      return NextResponse.json(
+        { message: "Search query is required" },
+        { status: 400 }
+      );
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        {
+          message: `Search query must be at most ${MAX_QUERY_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = parseInt(url.searchParams.get("limit") || "");
+    const limit = isNaN(limitParam)
+      ? 20
+      : Math.min(Math.max(limitParam, 1), MAX_RESULTS_PER_TYPE);
+
+    const hits = await searchUserData(token.sub, query, limit);
+
+    const messages = hits
+      .filter((hit) => hit.type === "message")
+      .map((hit) => {
+        const message = hit.source as ChatMessage;
+        return {
+          id: hit.id,
+          threadId: message.threadId,
+          role: message.role,
+          snippet: hit.snippet,
+          date: hit.date,
+        };
+      });
+
+    const meals = hits
+      .filter((hit) => hit.type === "meal")
+      .map((hit) => {
+        const meal = hit.source as Meal;
+        return {
+          id: hit.id,
+          name: meal.name,
+          mealType: meal.mealType || null,
+          calories: meal.calories,
+          protein: meal.protein ?? null,
+          carbs: meal.carbs ?? null,
+          fat: meal.fat ?? null,
+          items: meal.items || [],
+          snippet: hit.snippet,
+          date: hit.date,
+        };
+      });
+
+    const weights = hits
+      .filter((hit) => hit.type === "weight")
+      .map((hit) => {
+        const weightLog = hit.source as WeightLog;
+        return {
+          id: hit.id,
+          // Pounds; shown in the user's units
+          weight: weightLog.weight,
+          note: weightLog.note || "",
+          snippet: hit.snippet,
+          date: hit.date,
+        };
+      });
+
+    return NextResponse.json({
+      query,
+      total: hits.length,
+      results: { messages, meals, weights },
+    });
+  } catch (error) {
+    console.error("Error searching:", error);
+    return NextResponse.json({ message: "Failed to search" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+// app/api/tool-executions/[id]/undo/route.ts
+import { getToolExecution } from "@/lib/firebase/models/toolExecution";
+import { canUndoToolExecution, undoToolExecution } from "@/lib/tools";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST endpoint to undo what an assistant tool call did, e.g. delete the
+ * meal it logged
+ */
+export async function POST(request: NextRequest, context: any) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const execution = await getToolExecution(context.params.id);
+    if (!execution) {
+      return NextResponse.json(
+        { message: "Tool execution not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (execution.userId !== token.sub) {
+      return NextResponse.json(
+        { message: "You don't have permission to undo this action" },
+        { status: 403 }
+      );
+    }
+
+    if (execution.undoneAt) {
+      return NextResponse.json(
+        { message: "This action was already undone" },
+        { status: 409 }
+      );
+    }
+    if (!canUndoToolExecution(execution)) {
+      return NextResponse.json(
+        { message: "This action can't be undone" },
+        { status: 400 }
+      );
+    }
+
+    await undoToolExecution(execution);
+
+    return NextResponse.json({
+      success: true,
+      recordType: execution.recordType,
+      recordId: execution.recordId,
+    });
+  } catch (error) {
+    console.error("Error undoing tool execution:", error);
+    return NextResponse.json(
+      { message: "Failed to undo action" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+// app/api/tool-executions/route.ts
+import { getMealById } from "@/lib/firebase/models/meal";
+import { getMealProposalById } from "@/lib/firebase/models/mealProposal";
+import {
+  getToolExecution,
+  ToolExecution,
+} from "@/lib/firebase/models/toolExecution";
+import { canUndoToolExecution } from "@/lib/tools";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+const MAX_IDS = 20;
+
+/**
+ * GET endpoint for logged assistant tool calls: ?ids=<id>,<id>
+ * Each comes with whether it can be undone and, for meals and meal
+ * proposals, the record as it is now. Calls that don't exist or aren't the
+ * user's are left out.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const ids = (new URL(request.url).searchParams.get("ids") || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+    if (ids.length === 0 || ids.length > MAX_IDS) {
+      return NextResponse.json(
+        { message: `Between 1 and ${MAX_IDS} IDs are required` },
+        { status: 400 }
+      );
+    }
+
+    const userId = token.sub;
+    const executions = (await Promise.all(ids.map(getToolExecution))).filter(
+      (execution): execution is ToolExecution => execution?.userId === userId
+    );
+
+    return NextResponse.json({
+      executions: await Promise.all(
+        executions.map(async (execution) => {
+          const mealProposal =
+            execution.recordType === "meal_proposal"
+              ? await getMealProposalById(execution.recordId!)
+              : null;
+          // A confirmed proposal's meal can be edited like a logged one
+          const mealId =
+            execution.recordType === "meal"
+              ? execution.recordId
+              : mealProposal?.mealId;
+          const meal =
+            mealId && !execution.undoneAt ? await getMealById(mealId) : null;
+
+          return {
+            id: execution.id,
+            toolName: execution.toolName,
+            success: execution.success,
+            message: execution.result.message || "",
+            recordType: execution.recordType,
+            recordId: execution.recordId,
+            undone: !!execution.undoneAt,
+            // A rejected proposal has nothing left to undo
+            canUndo:
+              canUndoToolExecution(execution) &&
+              mealProposal?.status !== "rejected",
+            createdAt: execution.createdAt,
+            meal: meal && {
+              id: meal.id,
+              name: meal.name,
+              mealType: meal.mealType || null,
+              calories: meal.calories,
+              protein: meal.protein ?? null,
+              carbs: meal.carbs ?? null,
+              fat: meal.fat ?? null,
+              items: meal.items || [],
+              estimatedMacros: meal.estimatedMacros || [],
+              date: meal.date,
+            },
+            mealProposal: mealProposal && {
+              id: mealProposal.id,
+              name: mealProposal.name,
+              mealType: mealProposal.mealType,
+              calories: mealProposal.calories,
+              protein: mealProposal.protein,
+              carbs: mealProposal.carbs,
+              fat: mealProposal.fat,
+              items: mealProposal.items,
+              estimatedMacros: mealProposal.estimatedMacros,
+              status: mealProposal.status,
+              mealId: mealProposal.mealId,
+            },
+          };
+        })
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching tool executions:", error);
+    return NextResponse.json(
+      { message: "Failed to fetch tool executions" },
+      { status: 500 }
+    );
+  }
+}
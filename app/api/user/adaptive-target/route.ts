@@ -0,0 +1,148 @@
+// app/api/user/adaptive-target/route.ts
+import { getUserProfileById, updateUserProfile } from "@/lib/auth/authService";
+import { getMealsByUserAndRange } from "@/lib/firebase/models/meal";
+import {
+  recordTargetCalorieChange,
+  UserProfile,
+} from "@/lib/firebase/models/user";
+import { getWeightLogsByUserAndRange } from "@/lib/firebase/models/weightLog";
+import {
+  estimateMaintenance,
+  isAdaptiveReviewDue,
+  MAINTENANCE_WINDOW_DAYS,
+  proposeAdaptiveTarget,
+  TREND_SEED_DAYS,
+} from "@/lib/nutrition/adaptiveTarget";
+import { calculateMacroTargets } from "@/lib/nutrition/energy";
+import { subDays } from "date-fns";
+import { getToken } from "next-auth/jwt";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Estimate maintenance and build a proposal from the user's recent logs
+ */
+async function buildProposal(userId: string, userProfile: UserProfile) {
+  const now = new Date();
+  const [meals, weightLogs] = await Promise.all([
+    getMealsByUserAndRange(userId, subDays(now, MAINTENANCE_WINDOW_DAYS), now),
+    getWeightLogsByUserAndRange(
+      userId,
+      subDays(now, MAINTENANCE_WINDOW_DAYS + TREND_SEED_DAYS),
+      now
+    ),
+  ]);
+
+  const estimate = estimateMaintenance(
+    meals,
+    weightLogs,
+    now,
+    userProfile.timezone
+  );
+  const proposal = estimate
+    ? proposeAdaptiveTarget(estimate, userProfile)
+    : null;
+
+  return { estimate, proposal };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const userProfile = await getUserProfileById(token.sub);
+    if (!userProfile) {
+      return NextResponse.json(
+        { message: "User profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const { estimate, proposal } = await buildProposal(token.sub, userProfile);
+
+    return NextResponse.json({
+      estimate,
+      proposal,
+      due: isAdaptiveReviewDue(userProfile.adaptiveTargetReviewedAt),
+    });
+  } catch (error) {
+    console.error("Error building adaptive target:", error);
+    return NextResponse.json(
+      { message: "Failed to build adaptive target" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    const { action } = await request.json();
+    if (action !== "accept" && action !== "dismiss") {
+      return NextResponse.json(
+        { message: "Action must be accept or dismiss" },
+        { status: 400 }
+      );
+    }
+
+    const userProfile = await getUserProfileById(token.sub);
+    if (!userProfile) {
+      return NextResponse.json(
+        { message: "User profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (action === "dismiss") {
+      const updatedProfile = await updateUserProfile(token.sub, {
+        adaptiveTargetReviewedAt: new Date(),
+      });
+      return NextResponse.json(updatedProfile);
+    }
+
+    // A retried or replayed accept can't move the target again before the
+    // next review
+    if (!isAdaptiveReviewDue(userProfile.adaptiveTargetReviewedAt)) {
+      return NextResponse.json(
+        { message: "No target review is due yet" },
+        { status: 409 }
+      );
+    }
+
+    // Rebuild the proposal rather than trusting a client-sent target
+    const { proposal } = await buildProposal(token.sub, userProfile);
+    if (!proposal) {
+      return NextResponse.json(
+        { message: "No target adjustment to accept" },
+        { status: 409 }
+      );
+    }
+
+    const updatedProfile = await updateUserProfile(token.sub, {
+      targetCalories: proposal.proposedTarget,
+      ...calculateMacroTargets(proposal.proposedTarget, userProfile.macroSplit),
+      adaptiveTargetReviewedAt: new Date(),
+    });
+
+    await recordTargetCalorieChange(token.sub, {
+      previousCalories: userProfile.targetCalories ?? null,
+      targetCalories: proposal.proposedTarget,
+      source: "adaptive",
+      maintenanceEstimate: proposal.estimate.maintenanceCalories,
+    });
+
+    return NextResponse.json(updatedProfile);
+  } catch (error) {
+    console.error("Error updating adaptive target:", error);
+    return NextResponse.json(
+      { message: "Failed to update adaptive target" },
+      { status: 500 }
+    );
+  }
+}
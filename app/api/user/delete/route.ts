@@ -26,6 +26,11 @@ export async function DELETE(request: NextRequest) {
     const deletedItems = {
       meals: 0,
       weightLogs: 0,
+      memories: 0,
+      chatMessages: 0,
+      conversations: 0,
+      toolExecutions: 0,
+      mealProposals: 0,
       userProfile: false,
       userDocument: false,
       assistantThreads: 0,
@@ -78,7 +83,97 @@ export async function DELETE(request: NextRequest) {
       console.log(`Found ${weightSnapshot.size} weight logs to delete`);
     }
 
-    // 3. Check if there are threads/assistant data to delete
+    // 3. Delete what the assistant remembers about the user
+    console.log(`Deleting memories for user ${userId}`);
+    const memoriesRef = collection(db, "memories");
+    const memoriesQuery = query(memoriesRef, where("userId", "==", userId));
+    const memoriesSnapshot = await getDocs(memoriesQuery);
+
+    if (!memoriesSnapshot.empty) {
+      for (const document of memoriesSnapshot.docs) {
+        batch.delete(document.ref);
+        deletedItems.memories++;
+        await commitBatchIfNeeded();
+      }
+      console.log(`Found ${memoriesSnapshot.size} memories to delete`);
+    }
+
+    // 4. Delete the user's conversation history
+    console.log(`Deleting chat messages for user ${userId}`);
+    const messagesRef = collection(db, "messages");
+    const messagesQuery = query(messagesRef, where("userId", "==", userId));
+    const messagesSnapshot = await getDocs(messagesQuery);
+
+    if (!messagesSnapshot.empty) {
+      for (const document of messagesSnapshot.docs) {
+        batch.delete(document.ref);
+        deletedItems.chatMessages++;
+        await commitBatchIfNeeded();
+      }
+      console.log(`Found ${messagesSnapshot.size} chat messages to delete`);
+    }
+
+    // 5. Delete the user's conversations
+    console.log(`Deleting conversations for user ${userId}`);
+    const conversationsRef = collection(db, "conversations");
+    const conversationsQuery = query(
+      conversationsRef,
+      where("userId", "==", userId)
+    );
+    const conversationsSnapshot = await getDocs(conversationsQuery);
+
+    if (!conversationsSnapshot.empty) {
+      for (const document of conversationsSnapshot.docs) {
+        batch.delete(document.ref);
+        deletedItems.conversations++;
+        await commitBatchIfNeeded();
+      }
+      console.log(
+        `Found ${conversationsSnapshot.size} conversations to delete`
+      );
+    }
+
+    // 6. Delete the log of the assistant's tool calls
+    console.log(`Deleting tool executions for user ${userId}`);
+    const toolExecutionsRef = collection(db, "toolExecutions");
+    const toolExecutionsQuery = query(
+      toolExecutionsRef,
+      where("userId", "==", userId)
+    );
+    const toolExecutionsSnapshot = await getDocs(toolExecutionsQuery);
+
+    if (!toolExecutionsSnapshot.empty) {
+      for (const document of toolExecutionsSnapshot.docs) {
+        batch.delete(document.ref);
+        deletedItems.toolExecutions++;
+        await commitBatchIfNeeded();
+      }
+      console.log(
+        `Found ${toolExecutionsSnapshot.size} tool executions to delete`
+      );
+    }
+
+    // 7. Delete meals the assistant proposed
+    console.log(`Deleting meal proposals for user ${userId}`);
+    const mealProposalsRef = collection(db, "mealProposals");
+    const mealProposalsQuery = query(
+      mealProposalsRef,
+      where("userId", "==", userId)
+    );
+    const mealProposalsSnapshot = await getDocs(mealProposalsQuery);
+
+    if (!mealProposalsSnapshot.empty) {
+      for (const document of mealProposalsSnapshot.docs) {
+        batch.delete(document.ref);
+        deletedItems.mealProposals++;
+        await commitBatchIfNeeded();
+      }
+      console.log(
+        `Found ${mealProposalsSnapshot.size} meal proposals to delete`
+      );
+    }
+
+    // 8. Check if there are threads/assistant data to delete
     // This could be in a collection like "threads" or similar
     try {
       const threadsRef = collection(db, "threads");
@@ -100,14 +195,14 @@ export async function DELETE(request: NextRequest) {
       console.log("No threads collection found or error accessing it:", error);
     }
 
-    // 4. Delete user profile
+    // 9. Delete user profile
     console.log(`Deleting user profile for user ${userId}`);
     const userProfileRef = doc(db, "userProfiles", userId);
     batch.delete(userProfileRef);
     deletedItems.userProfile = true;
     await commitBatchIfNeeded();
 
-    // 5. Delete user document
+    // 10. Delete user document
     console.log(`Deleting user document for user ${userId}`);
     const userRef = doc(db, "users", userId);
     batch.delete(userRef);
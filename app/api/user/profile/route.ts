@@ -1,8 +1,36 @@
 // app/api/user/profile/route.ts
 import { getUserProfileById, updateUserProfile } from "@/lib/auth/authService";
+import { recordTargetCalorieChange } from "@/lib/firebase/models/user";
+import {
+  BMR_FORMULAS,
+  MACRO_SPLITS,
+  planFromProfile,
+} from "@/lib/nutrition/energy";
+import { isValidTimeZone } from "@/lib/timezone";
+import { getUnitPreferences } from "@/lib/units";
 import { getToken } from "next-auth/jwt";
 import { NextRequest, NextResponse } from "next/server";
 
+// Fields that feed the calorie plan - changing the value of any of them
+// recalculates the targets unless the request sets targetCalories itself
+const PLAN_INPUT_FIELDS = [
+  "age",
+  "gender",
+  "currentWeight",
+  "targetWeight",
+  "height",
+  "activityLevel",
+  "bodyFatPercentage",
+  "bmrFormula",
+  "weeklyWeightChangeRate",
+  "macroSplit",
+] as const;
+
+// Forms can send a number as a string, so compare them as text
+const isSamePlanInput = (value: unknown, stored: unknown) =>
+  value === stored ||
+  (value != null && stored != null && String(value) === String(stored));
+
 export async function GET(request: NextRequest) {
   try {
     // Get session
@@ -64,10 +92,17 @@ export async function PATCH(request: NextRequest) {
       targetProtein: data.targetProtein,
       targetCarbs: data.targetCarbs,
       targetFat: data.targetFat,
+      bodyFatPercentage: data.bodyFatPercentage,
+      bmrFormula: data.bmrFormula,
+      weeklyWeightChangeRate: data.weeklyWeightChangeRate,
+      macroSplit: data.macroSplit,
+      units: data.units ? getUnitPreferences(data.units) : undefined,
+      timezone: data.timezone,
       aiPersonality: data.aiPersonality,
       targetDate: data.targetDate,
       receiveNotifications: data.receiveNotifications,
       preferredMealFrequency: data.preferredMealFrequency,
+      confirmMealsBeforeLogging: data.confirmMealsBeforeLogging,
     };
 
     // Process allergies if it's a string (comma-separated)
@@ -91,6 +126,54 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    if (
+      data.bodyFatPercentage !== undefined &&
+      data.bodyFatPercentage !== null &&
+      (isNaN(data.bodyFatPercentage) ||
+        data.bodyFatPercentage <= 0 ||
+        data.bodyFatPercentage >= 70)
+    ) {
+      return NextResponse.json(
+        { message: "Body fat percentage must be between 0 and 70" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      data.bmrFormula !== undefined &&
+      !BMR_FORMULAS.some((formula) => formula.value === data.bmrFormula)
+    ) {
+      return NextResponse.json(
+        { message: "Invalid BMR formula" },
+        { status: 400 }
+      );
+    }
+
+    if (data.macroSplit !== undefined && !(data.macroSplit in MACRO_SPLITS)) {
+      return NextResponse.json(
+        { message: "Invalid macro split" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      data.weeklyWeightChangeRate !== undefined &&
+      data.weeklyWeightChangeRate !== null &&
+      isNaN(data.weeklyWeightChangeRate)
+    ) {
+      return NextResponse.json(
+        { message: "Weekly weight change rate must be a number" },
+        { status: 400 }
+      );
+    }
+
+    if (data.timezone !== undefined && !isValidTimeZone(data.timezone)) {
+      return NextResponse.json(
+        { message: "Timezone must be a valid IANA timezone" },
+        { status: 400 }
+      );
+    }
+
     // Remove undefined fields to prevent overwriting with null values
     (Object.keys(profileUpdate) as (keyof typeof profileUpdate)[]).forEach(
       (key) => {
@@ -100,9 +183,41 @@ export async function PATCH(request: NextRequest) {
       }
     );
 
+    const existingProfile = await getUserProfileById(token.sub);
+
+    // Recalculate targets from the merged profile when plan inputs change.
+    // Forms send every field on each save, so only a different value counts.
+    const planInputsChanged = PLAN_INPUT_FIELDS.some(
+      (field) =>
+        field in profileUpdate &&
+        !isSamePlanInput(profileUpdate[field], existingProfile?.[field])
+    );
+    if (planInputsChanged && profileUpdate.targetCalories === undefined) {
+      const plan = planFromProfile({ ...existingProfile, ...profileUpdate });
+
+      if (plan) {
+        profileUpdate.targetCalories = plan.targetCalories;
+        profileUpdate.targetProtein = plan.targetProtein;
+        profileUpdate.targetCarbs = plan.targetCarbs;
+        profileUpdate.targetFat = plan.targetFat;
+      }
+    }
+
     // Update user profile
     const userProfile = await updateUserProfile(token.sub, profileUpdate);
 
+    if (
+      userProfile &&
+      profileUpdate.targetCalories !== undefined &&
+      profileUpdate.targetCalories !== existingProfile?.targetCalories
+    ) {
+      await recordTargetCalorieChange(token.sub, {
+        previousCalories: existingProfile?.targetCalories ?? null,
+        targetCalories: profileUpdate.targetCalories,
+        source: "profile",
+      });
+    }
+
     return NextResponse.json(userProfile);
   } catch (error) {
     if (error instanceof Error) {
@@ -4,6 +4,9 @@ import {
   getWeightLogById,
   updateWeightLog,
 } from "@/lib/firebase/models/weightLog";
+import { getUserTimeZone } from "@/lib/firebase/models/user";
+import { parseUserDate } from "@/lib/timezone";
+import { fromDisplayWeight, isWeightUnit } from "@/lib/units";
 import { getToken } from "next-auth/jwt";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -44,7 +47,14 @@ export async function PATCH(request: NextRequest, context: any) {
     }
 
     // Get update data from request body
-    const { weight, date, note } = await request.json();
+    const { weight, date, note, unit } = await request.json();
+
+    if (unit !== undefined && !isWeightUnit(unit)) {
+      return NextResponse.json(
+        { message: "Unit must be lb or kg" },
+        { status: 400 }
+      );
+    }
 
     // Validate weight if provided
     if (weight !== undefined) {
@@ -61,13 +71,17 @@ export async function PATCH(request: NextRequest, context: any) {
     // Prepare update data
     const updateData: any = {};
 
+    // Weights are stored in pounds
     if (weight !== undefined) {
-      updateData.weight =
-        typeof weight === "string" ? parseFloat(weight) : weight;
+      updateData.weight = fromDisplayWeight(
+        typeof weight === "string" ? parseFloat(weight) : weight,
+        unit || "lb"
+      );
     }
 
+    // Plain yyyy-MM-dd dates are days in the user's timezone
     if (date !== undefined) {
-      updateData.date = date instanceof Date ? date : new Date(date);
+      updateData.date = parseUserDate(date, await getUserTimeZone(token.sub));
     }
 
     if (note !== undefined) {
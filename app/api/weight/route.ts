@@ -1,6 +1,9 @@
 // app/api/weight/route.ts
 
-import { createOrUpdateUserProfile } from "@/lib/firebase/models/user";
+import {
+  createOrUpdateUserProfile,
+  getUserTimeZone,
+} from "@/lib/firebase/models/user";
 import {
   deleteWeightLog,
   getWeightLogById,
@@ -8,6 +11,8 @@ import {
   logWeight,
   updateWeightLog,
 } from "@/lib/firebase/models/weightLog";
+import { parseUserDate } from "@/lib/timezone";
+import { fromDisplayWeight, isWeightUnit, toDisplayWeight } from "@/lib/units";
 import { getToken } from "next-auth/jwt";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -38,11 +43,27 @@ export async function GET(request: NextRequest) {
       ? parseInt(url.searchParams.get("limit") || "0")
       : undefined;
 
+    // Weights are returned in pounds unless another unit is requested
+    const unit = url.searchParams.get("unit") || "lb";
+    if (!isWeightUnit(unit)) {
+      return NextResponse.json(
+        { message: "Unit must be lb or kg" },
+        { status: 400 }
+      );
+    }
+
     // Get weight logs
     const weightLogs = await getWeightLogsByUser(token.sub, limit);
 
     // Set cache control headers to prevent caching
-    const response = NextResponse.json(weightLogs);
+    const response = NextResponse.json(
+      unit === "lb"
+        ? weightLogs
+        : weightLogs.map((log) => ({
+            ...log,
+            weight: toDisplayWeight(log.weight, unit),
+          }))
+    );
     return addCacheControlHeaders(response);
   } catch (error) {
     console.error("Error fetching weight logs:", error);
@@ -64,7 +85,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Get weight data from request body
-    const { weight, date, note } = await request.json();
+    const { weight, date, note, unit } = await request.json();
+
+    if (unit !== undefined && !isWeightUnit(unit)) {
+      return NextResponse.json(
+        { message: "Unit must be lb or kg" },
+        { status: 400 }
+      );
+    }
 
     // Validate weight
     const weightValue =
@@ -77,17 +105,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Weights are stored in pounds
+    const weightLbs = fromDisplayWeight(weightValue, unit || "lb");
+
     // Create weight log
     const weightLog = await logWeight(
       token.sub,
-      weightValue,
-      date ? new Date(date) : undefined,
+      weightLbs,
+      // Plain yyyy-MM-dd dates are days in the user's timezone
+      date ? parseUserDate(date, await getUserTimeZone(token.sub)) : undefined,
       note
     );
 
     // Update current weight in user profile
     await createOrUpdateUserProfile(token.sub, {
-      currentWeight: weightValue,
+      currentWeight: weightLbs,
     });
 
     // Return the created weight log with cache control headers
@@ -141,7 +173,14 @@ export async function PATCH(request: NextRequest, context: any) {
     }
 
     // Get update data from request body
-    const { weight, date, note } = await request.json();
+    const { weight, date, note, unit } = await request.json();
+
+    if (unit !== undefined && !isWeightUnit(unit)) {
+      return NextResponse.json(
+        { message: "Unit must be lb or kg" },
+        { status: 400 }
+      );
+    }
 
     // Validate weight if provided
     if (weight !== undefined) {
@@ -158,13 +197,16 @@ export async function PATCH(request: NextRequest, context: any) {
     // Prepare update data
     const updateData: any = {};
 
+    // Weights are stored in pounds
     if (weight !== undefined) {
-      updateData.weight =
-        typeof weight === "string" ? parseFloat(weight) : weight;
+      updateData.weight = fromDisplayWeight(
+        typeof weight === "string" ? parseFloat(weight) : weight,
+        unit || "lb"
+      );
     }
 
     if (date !== undefined) {
-      updateData.date = date instanceof Date ? date : new Date(date);
+      updateData.date = parseUserDate(date, await getUserTimeZone(token.sub));
     }
 
     if (note !== undefined) {
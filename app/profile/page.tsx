@@ -1,6 +1,7 @@
 // app/profile/page.tsx
 "use client";
 
+import AssistantMemoriesList from "@/components/AssistantMemoriesList";
 import DeleteAccountSection from "@/components/DeleteAccountSection";
 import HamburgerMenu from "@/components/HamburgerMenu";
 import HeightSelector from "@/components/HeightSelector";
@@ -17,6 +18,19 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import UserAvatar from "@/components/UserAvatar";
+import eventEmitter from "@/lib/events";
+import { getDefaultTimeZone, getTimeZoneOptions } from "@/lib/timezone";
+import {
+  DEFAULT_UNITS,
+  EnergyUnit,
+  getUnitPreferences,
+  HeightUnit,
+  toDisplayWeight,
+  toStoredWeight,
+  UnitPreferences,
+  WeightUnit,
+  weightUnitLabel,
+} from "@/lib/units";
 import { ArrowLeft, Save } from "lucide-react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
@@ -45,8 +59,17 @@ export default function ProfilePage() {
     aiPersonality: "best-friend",
     receiveNotifications: true,
     preferredMealFrequency: "3",
+    confirmMealsBeforeLogging: false,
+    timezone: "",
   });
 
+  // Weight fields above are in the display unit; keep the stored pounds so
+  // unedited values are saved back without rounding drift
+  const [units, setUnits] = useState<UnitPreferences>(DEFAULT_UNITS);
+  const [storedWeights, setStoredWeights] = useState<
+    Record<string, number | undefined>
+  >({});
+
   useEffect(() => {
     console.log("Profile data:", profileData);
   }, [profileData]);
@@ -81,6 +104,16 @@ export default function ProfilePage() {
       const response = await fetch("/api/user/profile");
       if (response.ok) {
         const userProfile = await response.json();
+        const profileUnits = getUnitPreferences(userProfile.units);
+        const displayWeight = (lbs?: number) =>
+          lbs ? toDisplayWeight(lbs, profileUnits.weight).toString() : "";
+
+        setUnits(profileUnits);
+        setStoredWeights({
+          startingWeight: userProfile.startingWeight,
+          currentWeight: userProfile.currentWeight,
+          targetWeight: userProfile.targetWeight,
+        });
 
         // Combine session data with user profile
         setProfileData((prev) => ({
@@ -90,9 +123,9 @@ export default function ProfilePage() {
           age: userProfile.age?.toString() || "",
           gender: userProfile.gender || "",
           height: userProfile.height?.toString() || "",
-          startingWeight: userProfile.startingWeight?.toString() || "",
-          currentWeight: userProfile.currentWeight?.toString() || "",
-          targetWeight: userProfile.targetWeight?.toString() || "",
+          startingWeight: displayWeight(userProfile.startingWeight),
+          currentWeight: displayWeight(userProfile.currentWeight),
+          targetWeight: displayWeight(userProfile.targetWeight),
           targetDate: userProfile.targetDate || "",
           dietaryPreferences: userProfile.dietaryPreferences || [],
           allergies: userProfile.allergies || [],
@@ -102,6 +135,8 @@ export default function ProfilePage() {
               ? userProfile.receiveNotifications
               : true,
           preferredMealFrequency: userProfile.preferredMealFrequency || "3",
+          confirmMealsBeforeLogging: !!userProfile.confirmMealsBeforeLogging,
+          timezone: userProfile.timezone || getDefaultTimeZone(),
         }));
       }
     } catch (error) {
@@ -119,6 +154,36 @@ export default function ProfilePage() {
     setProfileData((prev) => ({ ...prev, [name]: value }));
   };
 
+  // Convert a weight field from the display unit back to stored pounds
+  const getStoredWeight = (
+    field: "startingWeight" | "currentWeight" | "targetWeight"
+  ): number | undefined => {
+    const value = parseFloat(profileData[field]);
+    if (!value) return undefined;
+    return toStoredWeight(value, units.weight, storedWeights[field]);
+  };
+
+  // Switching the weight unit converts the values already in the form
+  const handleWeightUnitChange = (unit: WeightUnit) => {
+    const fields = ["startingWeight", "currentWeight", "targetWeight"] as const;
+    const converted: Record<string, number | undefined> = {};
+    fields.forEach((field) => {
+      converted[field] = getStoredWeight(field);
+    });
+
+    setStoredWeights(converted);
+    setProfileData((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        fields.map((field) => {
+          const lbs = converted[field];
+          return [field, lbs ? toDisplayWeight(lbs, unit).toString() : ""];
+        })
+      ),
+    }));
+    setUnits((prev) => ({ ...prev, weight: unit }));
+  };
+
   const handleHeightChange = (heightInInches: number) => {
     setProfileData((prev) => ({ ...prev, height: heightInInches.toString() }));
   };
@@ -138,23 +203,23 @@ export default function ProfilePage() {
           height: profileData.height
             ? parseFloat(profileData.height)
             : undefined,
-          currentWeight: profileData.currentWeight
-            ? parseFloat(profileData.currentWeight)
-            : undefined,
-          targetWeight: profileData.targetWeight
-            ? parseFloat(profileData.targetWeight)
-            : undefined,
+          currentWeight: getStoredWeight("currentWeight"),
+          targetWeight: getStoredWeight("targetWeight"),
           targetDate: profileData.targetDate,
           dietaryPreferences: profileData.dietaryPreferences,
           allergies: profileData.allergies,
           aiPersonality: profileData.aiPersonality,
           receiveNotifications: profileData.receiveNotifications,
           preferredMealFrequency: profileData.preferredMealFrequency,
+          confirmMealsBeforeLogging: profileData.confirmMealsBeforeLogging,
+          timezone: profileData.timezone || undefined,
+          units,
         }),
       });
 
       if (response.ok) {
         toast.success("Profile updated successfully");
+        eventEmitter.emit("preferences-updated");
       } else {
         const error = await response.json();
         toast.error(error.message || "Failed to update profile");
@@ -206,11 +271,12 @@ export default function ProfilePage() {
 
         {/* Profile Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="mb-6">
-          <TabsList className="w-full grid grid-cols-4">
+          <TabsList className="w-full grid grid-cols-5">
             <TabsTrigger value="goals">Goals</TabsTrigger>
             <TabsTrigger value="dietary">Dietary</TabsTrigger>
             <TabsTrigger value="preferences">Preferences</TabsTrigger>
             <TabsTrigger value="personal">Personal</TabsTrigger>
+            <TabsTrigger value="memory">Memory</TabsTrigger>
           </TabsList>
 
           {/* Goals Tab */}
@@ -222,7 +288,9 @@ export default function ProfilePage() {
               <CardContent className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="currentWeight">Current Weight (lbs)</Label>
+                    <Label htmlFor="currentWeight">
+                      Current Weight ({weightUnitLabel(units.weight)})
+                    </Label>
                     <Input
                       id="startingWeight"
                       name="startingWeight"
@@ -234,7 +302,9 @@ export default function ProfilePage() {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="targetWeight">Target Weight (lbs)</Label>
+                    <Label htmlFor="targetWeight">
+                      Target Weight ({weightUnitLabel(units.weight)})
+                    </Label>
                     <Input
                       id="targetWeight"
                       name="targetWeight"
@@ -325,6 +395,84 @@ export default function ProfilePage() {
                 <CardTitle>App Preferences</CardTitle>
               </CardHeader>
               <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label>Units</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Select
+                      value={units.weight}
+                      onValueChange={(value) =>
+                        handleWeightUnitChange(value as WeightUnit)
+                      }
+                    >
+                      <SelectTrigger aria-label="Weight unit">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="lb">Pounds (lbs)</SelectItem>
+                        <SelectItem value="kg">Kilograms (kg)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={units.height}
+                      onValueChange={(value) =>
+                        setUnits((prev) => ({
+                          ...prev,
+                          height: value as HeightUnit,
+                        }))
+                      }
+                    >
+                      <SelectTrigger aria-label="Height unit">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ft-in">Feet/inches</SelectItem>
+                        <SelectItem value="cm">Centimeters</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={units.energy}
+                      onValueChange={(value) =>
+                        setUnits((prev) => ({
+                          ...prev,
+                          energy: value as EnergyUnit,
+                        }))
+                      }
+                    >
+                      <SelectTrigger aria-label="Energy unit">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="kcal">Calories (kcal)</SelectItem>
+                        <SelectItem value="kJ">Kilojoules (kJ)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="timezone">Timezone</Label>
+                  <Select
+                    value={profileData.timezone}
+                    onValueChange={(value) =>
+                      handleSelectChange("timezone", value)
+                    }
+                  >
+                    <SelectTrigger id="timezone">
+                      <SelectValue placeholder="Select timezone" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getTimeZoneOptions(profileData.timezone).map((zone) => (
+                        <SelectItem key={zone} value={zone}>
+                          {zone.replace(/_/g, " ")}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500">
+                    Meals and weigh-ins are grouped into days in this timezone
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="aiPersonality">Niblet's Personality</Label>
                   <Select
@@ -398,6 +546,28 @@ export default function ProfilePage() {
                     Receive meal reminders and notifications
                   </Label>
                 </div>
+
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="confirmMealsBeforeLogging"
+                    checked={profileData.confirmMealsBeforeLogging}
+                    onChange={(e) => {
+                      setProfileData((prev) => ({
+                        ...prev,
+                        confirmMealsBeforeLogging: e.target.checked,
+                      }));
+                    }}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <Label
+                    htmlFor="confirmMealsBeforeLogging"
+                    className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                  >
+                    Let me review meals Niblet estimates before they&apos;re
+                    logged
+                  </Label>
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
@@ -462,14 +632,27 @@ export default function ProfilePage() {
                 <HeightSelector
                   initialHeight={
                     profileData.height
-                      ? parseInt(profileData.height)
+                      ? parseFloat(profileData.height)
                       : undefined
                   }
                   onChange={handleHeightChange}
+                  unit={units.height}
                 />
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Assistant Memory Tab */}
+          <TabsContent value="memory">
+            <Card>
+              <CardHeader>
+                <CardTitle>What Niblet Remembers</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AssistantMemoriesList />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
 
         {/* Save Button */}
@@ -0,0 +1,6 @@
+// app/search/page.tsx
+import SearchPage from "@/components/SearchPage";
+
+export default function SearchPageRoute() {
+  return <SearchPage />;
+}
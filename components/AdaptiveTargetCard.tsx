@@ -0,0 +1,122 @@
+// components/AdaptiveTargetCard.tsx
+"use client";
+
+import { useUnitPreferences } from "@/hooks/useUserPreferences";
+import eventEmitter from "@/lib/events";
+import type { AdaptiveTargetProposal } from "@/lib/nutrition/adaptiveTarget";
+import { formatEnergy, formatWeight } from "@/lib/units";
+import { TrendingUpIcon } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+
+interface AdaptiveTargetCardProps {
+  onTargetUpdated?: (targetCalories: number) => void;
+}
+
+const AdaptiveTargetCard = ({ onTargetUpdated }: AdaptiveTargetCardProps) => {
+  const units = useUnitPreferences();
+  const [proposal, setProposal] = useState<AdaptiveTargetProposal | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchProposal = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/adaptive-target");
+      if (!response.ok) {
+        throw new Error("Failed to fetch adaptive target");
+      }
+      const data = await response.json();
+      setProposal(data.due ? data.proposal : null);
+    } catch (error) {
+      console.error("Error fetching adaptive target:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProposal();
+    return eventEmitter.on("weight-updated", fetchProposal);
+  }, [fetchProposal]);
+
+  const handleAction = async (action: "accept" | "dismiss") => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/user/adaptive-target", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action }),
+      });
+
+      const responseData = await response.json();
+      if (!response.ok) {
+        throw new Error(responseData.message || "Failed to update target");
+      }
+
+      if (action === "accept" && responseData?.targetCalories) {
+        toast.success(
+          `Daily target updated to ${formatEnergy(
+            responseData.targetCalories,
+            units.energy
+          )}`
+        );
+        onTargetUpdated?.(responseData.targetCalories);
+      }
+      setProposal(null);
+    } catch (error) {
+      console.error("Error updating adaptive target:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update target"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!proposal) return null;
+
+  const { estimate } = proposal;
+  const direction =
+    proposal.proposedTarget > proposal.currentTarget ? "raise" : "lower";
+
+  return (
+    <div className="mb-4 border rounded-lg shadow-sm p-4 bg-blue-50 dark:bg-blue-900/20">
+      <h3 className="font-bold mb-2 flex items-center">
+        <TrendingUpIcon className="w-4 h-4 mr-2" />
+        Suggested Calorie Target
+      </h3>
+      <p className="text-sm mb-2">
+        Over the last {estimate.loggedDays} logged days you averaged{" "}
+        {formatEnergy(estimate.averageIntake, units.energy)} while your weight
+        trend moved {estimate.trendChangePerWeek > 0 ? "+" : ""}
+        {formatWeight(estimate.trendChangePerWeek, units.weight)}/week, which
+        puts your maintenance at about{" "}
+        {formatEnergy(estimate.maintenanceCalories, units.energy)}.
+      </p>
+      <p className="text-sm font-medium mb-3">
+        We suggest you {direction} your daily target from{" "}
+        {formatEnergy(proposal.currentTarget, units.energy)} to{" "}
+        {formatEnergy(proposal.proposedTarget, units.energy)}.
+      </p>
+      <div className="flex space-x-2">
+        <Button
+          size="sm"
+          onClick={() => handleAction("accept")}
+          disabled={isSubmitting}
+        >
+          Accept
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleAction("dismiss")}
+          disabled={isSubmitting}
+        >
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AdaptiveTargetCard;
@@ -17,7 +17,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useState } from "react";
+import {
+  detectBarcodeFromImage,
+  fetchProductByBarcode,
+  getProductDisplayName,
+} from "@/lib/nutrition/productLookup";
+import { ScanBarcode } from "lucide-react";
+import { useRef, useState } from "react";
+import SavedMealsList from "./SavedMealsList";
 
 interface AddMealModalProps {
   open: boolean;
@@ -33,6 +40,12 @@ const AddMealModal: React.FC<AddMealModalProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Barcode lookup state
+  const [barcode, setBarcode] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [productNote, setProductNote] = useState<string | null>(null);
+  const scanInputRef = useRef<HTMLInputElement | null>(null);
+
   const [mealData, setMealData] = useState({
     name: "",
     mealType: "Other",
@@ -62,7 +75,72 @@ const AddMealModal: React.FC<AddMealModalProps> = ({
       fat: "",
       items: "",
     });
+    setBarcode("");
+    setProductNote(null);
+    setError(null);
+  };
+
+  // Prefill the form from the packaged-product catalog
+  const lookupBarcode = async (code: string) => {
+    if (!code.trim()) return;
+
     setError(null);
+    setProductNote(null);
+    setIsLookingUp(true);
+
+    try {
+      const result = await fetchProductByBarcode(code);
+      if (!result) {
+        setError(
+          "That barcode isn't in our product catalog yet. Please enter the details manually."
+        );
+        return;
+      }
+
+      const { product, serving } = result;
+      const name = getProductDisplayName(product);
+
+      setMealData((prev) => ({
+        ...prev,
+        name,
+        calories: serving.nutrition.calories.toString(),
+        protein: serving.nutrition.protein.toString(),
+        carbs: serving.nutrition.carbs.toString(),
+        fat: serving.nutrition.fat.toString(),
+        items: name,
+      }));
+      setProductNote(`Values are per serving: ${serving.description}`);
+    } catch (error) {
+      console.error("Error looking up barcode:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to look up barcode"
+      );
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  // Read a barcode from a photo taken with the camera
+  const handleBarcodePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const code = await detectBarcodeFromImage(file);
+      if (!code) {
+        setError(
+          "Couldn't read a barcode from that photo. Try again or type the number."
+        );
+        return;
+      }
+
+      setBarcode(code);
+      await lookupBarcode(code);
+    } finally {
+      if (scanInputRef.current) {
+        scanInputRef.current.value = "";
+      }
+    }
   };
 
   const validateForm = () => {
@@ -168,7 +246,7 @@ const AddMealModal: React.FC<AddMealModalProps> = ({
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add New Meal</DialogTitle>
           <DialogDescription>
@@ -182,7 +260,76 @@ const AddMealModal: React.FC<AddMealModalProps> = ({
           </div>
         )}
 
+        {/* Saved meals - one tap to log again */}
+        <div className="border-b pb-4 dark:border-gray-700">
+          <Label className="block mb-2">Saved Meals</Label>
+          <SavedMealsList
+            mealType={
+              mealData.mealType !== "Other" ? mealData.mealType : undefined
+            }
+            onMealLogged={() => {
+              handleOpenChange(false);
+              onMealAdded();
+            }}
+            limit={4}
+          />
+        </div>
+
         <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="barcode" className="text-right">
+              Barcode
+            </Label>
+            <div className="col-span-3 flex space-x-2">
+              <Input
+                id="barcode"
+                name="barcode"
+                inputMode="numeric"
+                value={barcode}
+                onChange={(e) => setBarcode(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    lookupBarcode(barcode);
+                  }
+                }}
+                placeholder="Scan or type UPC/EAN"
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="outline"
+                onClick={() => scanInputRef.current?.click()}
+                disabled={isLookingUp}
+                title="Scan barcode"
+              >
+                <ScanBarcode className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => lookupBarcode(barcode)}
+                disabled={!barcode.trim() || isLookingUp}
+              >
+                {isLookingUp ? "Looking up..." : "Look up"}
+              </Button>
+            </div>
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              ref={scanInputRef}
+              onChange={handleBarcodePhoto}
+            />
+            {productNote && (
+              <div className="col-span-4 text-xs text-gray-500 ml-auto w-3/4">
+                {productNote}
+              </div>
+            )}
+          </div>
+
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="name" className="text-right">
               Meal Name<span className="text-red-500">*</span>
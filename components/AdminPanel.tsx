@@ -42,9 +42,10 @@ import {
   Plus,
   Save,
   Trash,
+  Trash2,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import HamburgerMenu from "./HamburgerMenu";
 
@@ -81,9 +82,24 @@ const AdminPanel: React.FC = () => {
   const [savedMessage, setSavedMessage] = useState<string>("");
   const [errorMessage, setErrorMessage] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isCleaningUp, setIsCleaningUp] = useState<boolean>(false);
   const [newPersonalityName, setNewPersonalityName] = useState<string>("");
   const [newPersonalityKey, setNewPersonalityKey] = useState<string>("");
 
+  // Edit the personalities the server has, not this browser's copy
+  useEffect(() => {
+    fetch("/api/admin/assistants")
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error("Failed to load AI settings");
+        }
+        return response.json();
+      })
+      .then((data) => updateAISettings(data.settings))
+      .catch((error) => console.error("Error loading AI settings:", error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const daysOfWeek: Day[] = [
     "monday",
     "tuesday",
@@ -161,24 +177,67 @@ const AdminPanel: React.FC = () => {
   };
 
   // Save AI settings
-  const saveAISettings = (): void => {
+  const saveAISettings = async (): Promise<void> => {
     setIsLoading(true);
     setSavedMessage("");
     setErrorMessage("");
 
     try {
-      // Save will happen through the context provider
+      // The server keeps the personalities the assistant runs with and
+      // applies edits to the assistants registered for them
+      const response = await fetch("/api/admin/assistants", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ settings: aiSettings }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || "Failed to save AI settings");
+      }
+
       setSavedMessage("AI settings saved successfully!");
       toast.success("AI settings saved successfully!");
     } catch (error) {
       console.error("Error saving AI settings:", error);
-      setErrorMessage("Failed to save AI settings");
+      setErrorMessage(
+        error instanceof Error ? error.message : "Failed to save AI settings"
+      );
       toast.error("Failed to save AI settings");
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Delete assistants no conversation uses anymore
+  const cleanUpAssistants = async (): Promise<void> => {
+    setIsCleaningUp(true);
+    try {
+      const response = await fetch("/api/admin/assistants", {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to clean up assistants");
+      }
+
+      toast.success(
+        data.removed === 1
+          ? "Removed 1 unused assistant"
+          : `Removed ${data.removed} unused assistants`
+      );
+    } catch (error) {
+      console.error("Error cleaning up assistants:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to clean up assistants"
+      );
+    } finally {
+      setIsCleaningUp(false);
+    }
+  };
+
   // Delete a personality
   const deletePersonality = (key: string): void => {
     if (Object.keys(aiSettings.personalities).length <= 1) {
@@ -669,6 +728,16 @@ const AdminPanel: React.FC = () => {
                   </>
                 )}
               </Button>
+
+              <Button
+                variant="outline"
+                onClick={cleanUpAssistants}
+                disabled={isCleaningUp}
+                className="mt-4 w-full md:w-auto md:ml-2"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                {isCleaningUp ? "Cleaning up..." : "Clean Up Unused Assistants"}
+              </Button>
             </CardContent>
           </Card>
         </TabsContent>
@@ -0,0 +1,109 @@
+// components/AssistantMemoriesList.tsx
+"use client";
+
+import type { MemoryCategory } from "@/lib/firebase/models/memory";
+import { Trash } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Skeleton } from "./ui/skeleton";
+
+interface MemoryEntry {
+  id: string;
+  category: MemoryCategory;
+  content: string;
+}
+
+const CATEGORY_LABELS: Record<MemoryCategory, string> = {
+  food_like: "Likes",
+  food_dislike: "Dislikes",
+  allergy: "Allergy",
+  schedule: "Routine",
+  goal: "Goal",
+  other: "Other",
+};
+
+/**
+ * What the assistant remembers about the user, with a way to forget each
+ */
+const AssistantMemoriesList = () => {
+  const [memories, setMemories] = useState<MemoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchMemories = useCallback(async () => {
+    try {
+      const response = await fetch("/api/memories");
+      if (!response.ok) {
+        throw new Error("Failed to fetch memories");
+      }
+      const data = await response.json();
+      setMemories(data.memories || []);
+    } catch (error) {
+      console.error("Error fetching memories:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMemories();
+  }, [fetchMemories]);
+
+  const handleDelete = async (memory: MemoryEntry) => {
+    try {
+      const response = await fetch(`/api/memories/${memory.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to delete memory");
+      }
+      setMemories((prev) => prev.filter((other) => other.id !== memory.id));
+    } catch (error) {
+      console.error("Error deleting memory:", error);
+      toast.error("Failed to delete memory");
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (memories.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Nothing yet. As you chat, Niblet remembers lasting things like foods you
+        love or avoid and your routine, and they&apos;ll show up here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {memories.map((memory) => (
+        <div
+          key={memory.id}
+          className="flex items-center justify-between text-sm"
+        >
+          <div>
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400 mr-2">
+              {CATEGORY_LABELS[memory.category] || "Other"}
+            </span>
+            {memory.content}
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0 shrink-0"
+            onClick={() => handleDelete(memory)}
+            title="Forget this"
+          >
+            <Trash className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AssistantMemoriesList;
@@ -2,6 +2,8 @@
 "use client";
 
 import { Card } from "@/components/ui/card";
+import { useUnitPreferences } from "@/hooks/useUserPreferences";
+import { energyUnitName, toDisplayEnergy } from "@/lib/units";
 import { AnimatePresence, motion } from "framer-motion";
 import { useEffect, useState } from "react";
 
@@ -16,6 +18,7 @@ const CaloriesStatusBar: React.FC<CaloriesStatusBarProps> = ({
   targetCalories,
   className = "",
 }) => {
+  const units = useUnitPreferences();
   const [prevCalories, setPrevCalories] = useState(caloriesConsumed);
   const [isIncreasing, setIsIncreasing] = useState(false);
   const caloriesRemaining = Math.max(0, targetCalories - caloriesConsumed);
@@ -74,9 +77,11 @@ const CaloriesStatusBar: React.FC<CaloriesStatusBarProps> = ({
                 className="flex items-center"
               >
                 <div className="text-base font-bold mr-1">
-                  {caloriesConsumed}
+                  {toDisplayEnergy(caloriesConsumed, units.energy)}
+                </div>
+                <div className="text-xs">
+                  {energyUnitName(units.energy)} today
                 </div>
-                <div className="text-xs">calories today</div>
               </motion.div>
             </AnimatePresence>
           </div>
@@ -91,9 +96,11 @@ const CaloriesStatusBar: React.FC<CaloriesStatusBarProps> = ({
                 className="flex items-center"
               >
                 <div className="text-base font-bold mr-1">
-                  {caloriesRemaining}
+                  {toDisplayEnergy(caloriesRemaining, units.energy)}
+                </div>
+                <div className="text-xs">
+                  {energyUnitName(units.energy)} remaining
                 </div>
-                <div className="text-xs">calories remaining</div>
               </motion.div>
             </AnimatePresence>
           </div>
@@ -5,31 +5,40 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
   addMessageToThread,
+  cancelAssistantRun,
   createThread,
+  fetchOlderMessages,
   getOrCreateAssistant,
+  MEAL_TOOLS,
   PersonalityKey,
   runAssistant,
   runAssistantStreaming,
   transcribeAudio,
+  WEIGHT_TOOLS,
 } from "@/lib/assistantService";
 import {
-  extractAndStoreAILearning,
   getMessagesFromCache,
   saveMessagesToCache,
   updateSessionData,
 } from "@/lib/ChatHistoryManager";
-import { createMeal } from "@/lib/firebase/models/meal";
+import type { ToolRecordType } from "@/lib/firebase/models/toolExecution";
 import { createOrUpdateUserProfile } from "@/lib/firebase/models/user";
-import { logWeight } from "@/lib/firebase/models/weightLog";
-import runStateManager from "@/lib/runStateManager";
+import { isBarcode } from "@/lib/nutrition/barcode";
+import {
+  describeProductForAssistant,
+  detectBarcodeFromImage,
+  fetchProductByBarcode,
+  getProductDisplayName,
+} from "@/lib/nutrition/productLookup";
 import { cn } from "@/lib/utils";
 import { Message } from "@/types/chat";
-import { Camera, Mic, MicOff, Phone, Send } from "lucide-react";
+import { Camera, Mic, MicOff, Phone, Send, Square } from "lucide-react";
 import { useSession } from "next-auth/react";
 import Image from "next/image";
 import { useCallback, useEffect, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import { toast } from "sonner";
+import ToolExecutionLinks from "./ToolExecutionLinks";
 
 interface ChatContainerProps {
   aiPersonality?: PersonalityKey;
@@ -41,6 +50,27 @@ interface ChatContainerProps {
   onCall?: () => void;
   onThreadInitialized?: (threadId: string, assistantId: string) => void;
   preservingSession?: boolean; // New prop to indicate if we're preserving a session
+  // A message from the user's history to scroll to, e.g. picked in search
+  focusMessage?: { id: string; at: Date };
+  onMessageFocused?: () => void;
+}
+
+// Pages of history to go back through looking for a focused message
+const MAX_FOCUS_PAGES = 10;
+// How long a focused message stays highlighted
+const FOCUS_HIGHLIGHT_MS = 4000;
+
+function getOldestMessage(messages: Message[]): Message | null {
+  return messages.length > 0
+    ? messages.reduce(
+        (oldest, msg) =>
+          new Date(msg.timestamp).getTime() <
+          new Date(oldest.timestamp).getTime()
+            ? msg
+            : oldest,
+        messages[0]
+      )
+    : null;
 }
 
 // Helper to fix up text
@@ -67,6 +97,8 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
   onCall,
   onThreadInitialized,
   preservingSession = false,
+  focusMessage,
+  onMessageFocused,
 }) => {
   const { data: session } = useSession();
 
@@ -94,138 +126,83 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
   const messageEndRef = useRef<HTMLDivElement | null>(null);
   const messagesContainerRef = useRef<HTMLDivElement | null>(null);
   const processInProgress = useRef<boolean>(false);
+  // Aborting cancels the reply that's currently streaming
+  const streamAbortRef = useRef<AbortController | null>(null);
   const initializationAttempted = useRef<boolean>(false);
   const sessionRestored = useRef<boolean>(preservingSession);
   const oldestMessageIdRef = useRef<string | null>(null);
+  // Where the next page of history starts, once one has been loaded
+  const historyCursorRef = useRef<string | null>(null);
+  const focusAttemptedRef = useRef(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
 
   const [streamingMessage, setStreamingMessage] = useState<string | null>(null);
+  const [isStreamingReply, setIsStreamingReply] = useState(false);
 
   // Added states for loading older messages
   const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
   const [hasMoreMessages, setHasMoreMessages] = useState(true);
 
-  // If the assistant calls any "tools" like logging a meal, do that here:
-  // Enhanced tool handler function for ChatContainer.tsx
-  // Replace your existing handleToolCalls function with this one
-  const handleToolCalls = useCallback(
-    async (toolName: string, toolArgs: any) => {
-      if (!session?.user?.id) {
-        return { success: false, message: "User not authenticated" };
+  // Tools run on the server; refresh whatever they changed
+  const handleToolResult = useCallback(
+    (toolName: string, output: any) => {
+      if (!output?.success) return;
+      if (MEAL_TOOLS.includes(toolName)) {
+        onMealLogged?.();
+      } else if (WEIGHT_TOOLS.includes(toolName)) {
+        onWeightLogged?.();
       }
-      try {
-        if (toolName === "log_meal") {
-          // Enhanced meal data handling - ensure all nutrition values are present
-          const protein =
-            toolArgs.protein || Math.round((toolArgs.calories * 0.2) / 4); // 20% of calories
-          const carbs =
-            toolArgs.carbs || Math.round((toolArgs.calories * 0.5) / 4); // 50% of calories
-          const fat = toolArgs.fat || Math.round((toolArgs.calories * 0.3) / 9); // 30% of calories
-
-          const mealData = {
-            userId: session.user.id,
-            name: toolArgs.meal_name,
-            calories: toolArgs.calories || 0,
-            protein: protein,
-            carbs: carbs,
-            fat: fat,
-            mealType: toolArgs.meal_type || "Other", // Default to "Other" if not provided
-            items: toolArgs.items || [],
-            date: new Date(),
-            canEdit: true,
-          };
-
-          // Log full meal information for debugging
-          console.log("Logging meal with enhanced nutrition data:", mealData);
-
-          const meal = await createMeal(mealData);
-
-          // Call onMealLogged callback
-          onMealLogged?.();
+    },
+    [onMealLogged, onWeightLogged]
+  );
 
-          return {
-            success: true,
-            mealId: meal.id,
-            message: `Logged ${toolArgs.meal_name} (${toolArgs.calories} calories, protein: ${protein}g, carbs: ${carbs}g, fat: ${fat}g)`,
-          };
-        } else if (toolName === "log_weight") {
-          const weight = await logWeight(
-            session.user.id,
-            toolArgs.weight,
-            toolArgs.date ? new Date(toolArgs.date) : undefined
-          );
-          // Also update user profile with current weight
-          await createOrUpdateUserProfile(session.user.id!, {
-            currentWeight: toolArgs.weight,
-          });
-          onWeightLogged?.();
-          return {
-            success: true,
-            weightId: weight.id,
-            message: `Logged weight: ${toolArgs.weight} lbs`,
-          };
-        } else if (toolName === "get_nutrition_info") {
-          // Return more complete nutrition info
-          return {
-            success: true,
-            message: "Nutrition info retrieved.",
-            data: {
-              calories: 300,
-              protein: 20,
-              carbs: 30,
-              fat: 10,
-            },
-          };
-        }
-        return {
-          success: false,
-          message: `Unknown tool: ${toolName}`,
-        };
-      } catch (err) {
-        console.error(`Error executing ${toolName}:`, err);
-        return {
-          success: false,
-          message: `Error executing ${toolName}`,
-        };
+  // A record the assistant logged was edited or undone from the chat
+  const handleRecordChanged = useCallback(
+    (recordType: ToolRecordType) => {
+      // Undoing a confirmed proposal deletes its meal
+      if (recordType === "meal" || recordType === "meal_proposal") {
+        onMealLogged?.();
+      } else if (recordType === "weight") {
+        onWeightLogged?.();
       }
     },
-    [session?.user?.id, onMealLogged, onWeightLogged]
+    [onMealLogged, onWeightLogged]
   );
 
-  // Function to load older messages
-  const loadOlderMessages = async () => {
-    if (!threadId || !assistantId || loadingOlderMessages || !hasMoreMessages)
-      return;
+  // Load the page of history before the oldest message shown
+  const loadOlderMessages = useCallback(async () => {
+    if (loadingOlderMessages || !hasMoreMessages || !threadId) return;
 
     // Set loading state
     setLoadingOlderMessages(true);
 
     try {
-      // Get oldest message ID we've loaded so far
-      const oldestMessageId =
-        messages.length > 0
-          ? messages.reduce((oldest, msg) => {
-              // Compare timestamps or IDs to find oldest
-              if (
-                new Date(msg.timestamp).getTime() <
-                new Date(oldest.timestamp).getTime()
-              )
-                return msg;
-              return oldest;
-            }, messages[0]).id
-          : null;
+      // Get oldest message we've loaded so far
+      const oldestMessage = getOldestMessage(messages);
 
       // Store it for reference
-      oldestMessageIdRef.current = oldestMessageId;
-
-      // Call API to get messages before this ID
-      // In a real implementation, you'd make a call like:
-      // const olderMessages = await fetchOlderMessages(threadId, oldestMessageId, 20);
+      oldestMessageIdRef.current = oldestMessage?.id || null;
 
-      // For demo purposes, we'll create a placeholder delay
-      await new Promise((resolve) => setTimeout(resolve, 500));
+      // History is saved from every device, so it reaches past what this
+      // one has cached
+      const page = await fetchOlderMessages(
+        threadId,
+        historyCursorRef.current ||
+          (oldestMessage
+            ? new Date(oldestMessage.timestamp).toISOString()
+            : undefined)
+      );
+      if (!page) {
+        throw new Error("Failed to fetch older messages");
+      }
 
-      // Simulated older messages for demo
-      const olderMessages: Message[] = [];
+      const loadedIds = new Set(messages.map((msg) => msg.id));
+      const olderMessages = page.messages.filter(
+        (msg) => !loadedIds.has(msg.id)
+      );
+      historyCursorRef.current = page.nextCursor;
 
       // If we got any messages back
       if (olderMessages.length > 0) {
@@ -244,7 +221,9 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
             }
           }
         }, 50);
-      } else {
+      }
+
+      if (!page.hasMore || !page.nextCursor) {
         // No more messages to load
         setHasMoreMessages(false);
       }
@@ -254,7 +233,95 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
     } finally {
       setLoadingOlderMessages(false);
     }
-  };
+  }, [messages, loadingOlderMessages, hasMoreMessages, threadId]);
+
+  // Jump to a message in this conversation: page back until it's loaded,
+  // then scroll to it and highlight it for a moment
+  useEffect(() => {
+    if (
+      !isInitialized ||
+      !threadId ||
+      !focusMessage ||
+      focusAttemptedRef.current
+    )
+      return;
+    focusAttemptedRef.current = true;
+
+    const jumpToMessage = async () => {
+      try {
+        // The message itself, to recognize it if it's already on screen
+        const targetPage = await fetchOlderMessages(
+          threadId,
+          new Date(focusMessage.at.getTime() + 1).toISOString(),
+          1
+        );
+        const target = targetPage?.messages.find(
+          (msg) => msg.id === focusMessage.id
+        );
+        if (!target) throw new Error("Message not found");
+
+        // Messages in this thread are shown under their provider IDs
+        const findTarget = (list: Message[]) =>
+          list.find(
+            (msg) =>
+              msg.id === target.id ||
+              (msg.role === target.role && msg.content === target.content)
+          );
+
+        let found = findTarget(messages);
+        let olderMessages: Message[] = [];
+        const oldestMessage = getOldestMessage(messages);
+        let cursor =
+          historyCursorRef.current ||
+          (oldestMessage
+            ? new Date(oldestMessage.timestamp).toISOString()
+            : undefined);
+
+        for (let page = 0; !found && page < MAX_FOCUS_PAGES; page++) {
+          const result = await fetchOlderMessages(threadId, cursor, 50);
+          if (!result) throw new Error("Failed to fetch older messages");
+
+          const loadedIds = new Set(
+            [...olderMessages, ...messages].map((msg) => msg.id)
+          );
+          const pageMessages = result.messages.filter(
+            (msg) => !loadedIds.has(msg.id)
+          );
+          olderMessages = [...pageMessages, ...olderMessages];
+          found = findTarget(pageMessages);
+
+          cursor = result.nextCursor || undefined;
+          historyCursorRef.current = result.nextCursor;
+          if (!result.hasMore || !result.nextCursor) {
+            setHasMoreMessages(false);
+            break;
+          }
+        }
+
+        if (olderMessages.length > 0) {
+          setMessages((prev) => [...olderMessages, ...prev]);
+        }
+        if (!found) throw new Error("Message not found");
+
+        const foundId = found.id;
+        setHighlightedMessageId(foundId);
+        // After the scroll-to-bottom for new messages has run
+        setTimeout(() => {
+          document
+            .getElementById(foundId)
+            ?.scrollIntoView({ block: "center", behavior: "smooth" });
+        }, 400);
+        setTimeout(() => setHighlightedMessageId(null), FOCUS_HIGHLIGHT_MS);
+      } catch (error) {
+        console.error("Error jumping to message:", error);
+        toast.error("Couldn't find that message");
+      } finally {
+        onMessageFocused?.();
+      }
+    };
+
+    jumpToMessage();
+  }, [isInitialized, threadId, focusMessage, messages, onMessageFocused]);
 
   /**
    * Initialization effect:
@@ -308,7 +375,7 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
         // If no valid thread exists, create a new thread and assistant
         if (!currentThreadId || !currentAssistantId) {
           console.log("Creating new thread and assistant...");
-          const newThreadId = await createThread();
+          const newThreadId = await createThread(aiPersonality);
           if (!newThreadId) throw new Error("Failed to create new thread");
           const newAssistantId = await getOrCreateAssistant(aiPersonality);
           if (!newAssistantId) throw new Error("Failed to create assistant");
@@ -335,7 +402,7 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
             newThreadId,
             newAssistantId,
             aiPersonality,
-            handleToolCalls
+            handleToolResult
           );
           if (assistantMessages && assistantMessages.length > 0) {
             const latestMsg = assistantMessages[assistantMessages.length - 1];
@@ -391,7 +458,7 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
     onThreadInitialized,
     session?.user?.id,
     isInitialized,
-    handleToolCalls,
+    handleToolResult,
     preservingSession,
   ]);
 
@@ -456,17 +523,12 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
       container.addEventListener("scroll", handleScroll);
       return () => container.removeEventListener("scroll", handleScroll);
     }
-  }, [loadingOlderMessages, hasMoreMessages]);
+  }, [loadingOlderMessages, hasMoreMessages, loadOlderMessages]);
 
-  // When component unmounts or threadId changes, save learning data
+  // Cancel a streaming reply if the chat goes away mid-response
   useEffect(() => {
-    // This ensures we save learning data when navigating away
-    return () => {
-      if (threadId && messages.length > 0) {
-        extractAndStoreAILearning(threadId, messages);
-      }
-    };
-  }, [threadId, messages]);
+    return () => streamAbortRef.current?.abort();
+  }, []);
 
   // Add cleanup effect for typing indicator
   useEffect(() => {
@@ -546,54 +608,22 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
         messageToSend = `${userMsg.content} (Note: If this describes a meal, please log it automatically without asking for confirmation)`;
       }
 
-      // Check if there's an active run before sending
-      if (threadId && runStateManager.hasActiveRun(threadId)) {
-        console.log(
-          `Thread ${threadId} has an active run. Waiting for completion...`
-        );
-        const completed = await runStateManager.waitForRunCompletion(
-          threadId,
-          10000 // Reduced timeout to 10 seconds for better UX
-        );
-
-        if (!completed) {
-          // If wait timed out, force reset the run state
-          console.log("Run wait timed out, forcing reset");
-          runStateManager.setRunInactive(threadId);
-        }
-      }
-
-      // Now try to send the message
-      let messageAdded = false;
-      let retries = 0;
-      while (!messageAdded && retries < 3) {
+      // A typed UPC/EAN is resolved against the product catalog first
+      if (isBarcode(userMsg.content)) {
         try {
-          messageAdded = await addMessageToThread(threadId, messageToSend);
-          if (!messageAdded) {
-            retries++;
-            await new Promise((r) => setTimeout(r, 1000));
+          const product = await fetchProductByBarcode(userMsg.content);
+          if (product) {
+            messageToSend = describeProductForAssistant(product);
+          } else {
+            toast.info("That barcode isn't in our product catalog yet.");
           }
         } catch (err) {
-          // Check if this is the specific "run is active" error
-          if (
-            err instanceof Error &&
-            err.message.includes("while a run") &&
-            err.message.includes("is active")
-          ) {
-            // Extract the run ID from the error message
-            const runIdMatch = err.message.match(/run\s+(\w+)\s+is active/);
-            if (runIdMatch && runIdMatch[1]) {
-              // Update the run state manager with the active run
-              runStateManager.setRunActive(threadId, runIdMatch[1]);
-              // Wait for the run to complete
-              await runStateManager.waitForRunCompletion(threadId, 5000);
-            }
-          }
-          retries++;
-          await new Promise((r) => setTimeout(r, 1000));
+          console.error("Error looking up barcode:", err);
         }
       }
 
+      // Waits for a reply still running on the thread, e.g. in another tab
+      const messageAdded = await addMessageToThread(threadId, messageToSend);
       if (!messageAdded) {
         throw new Error("Failed to send message after multiple attempts");
       }
@@ -617,11 +647,15 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
       setMessages(messagesWithInitialResponse);
 
       // Start streaming the assistant's response
+      const streamAbort = new AbortController();
+      streamAbortRef.current = streamAbort;
+      setIsStreamingReply(true);
+
       await runAssistantStreaming(
         threadId,
         assistantId,
         aiPersonality,
-        ({ text, isComplete }) => {
+        ({ text, isComplete, toolExecutionIds }) => {
           // Update the streaming message in state
           setStreamingMessage(text);
 
@@ -633,6 +667,7 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
               content: text,
               timestamp: new Date(),
               isStreaming: false, // No longer streaming
+              toolExecutionIds,
             };
 
             const finalMessages = updatedMessages.concat(finalMsg);
@@ -643,14 +678,12 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
             // Clear the streaming message and explicitly reset typing state
             setStreamingMessage(null);
             setIsTyping(false);
-
-            // Periodically extract and store learning data
-            if (finalMessages.length % 5 === 0) {
-              extractAndStoreAILearning(threadId, finalMessages);
-            }
           }
         },
-        handleToolCalls
+        {
+          signal: streamAbort.signal,
+          onToolResult: handleToolResult,
+        }
       );
 
       clearTimeout(typingTimeout); // Clear the safety timeout if all went well
@@ -661,11 +694,23 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
       setStreamingMessage(null);
       setIsTyping(false); // Make sure typing is reset on error
     } finally {
+      streamAbortRef.current = null;
+      setIsStreamingReply(false);
       setIsTyping(false);
       processInProgress.current = false;
     }
   };
 
+  // Stop the reply that's streaming, keeping what has arrived so far
+  const handleStopStreaming = () => {
+    streamAbortRef.current?.abort();
+    // Also stop the run on the server, which may not notice the
+    // connection closing
+    if (threadId) {
+      cancelAssistantRun(threadId);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -706,6 +751,64 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
         return;
       }
 
+      // Packaged food: read the barcode and log from the label data
+      const barcode = await detectBarcodeFromImage(file);
+      if (barcode) {
+        const product = await fetchProductByBarcode(barcode).catch((err) => {
+          console.error("Error looking up barcode:", err);
+          return null;
+        });
+
+        if (product) {
+          const userScanMsg: Message = {
+            id: `user-${Date.now()}`,
+            role: "user",
+            content: `Scanned barcode ${barcode}: ${getProductDisplayName(
+              product.product
+            )}`,
+            timestamp: new Date(),
+          };
+          const updatedMessages = [...messages, userScanMsg];
+          setMessages(updatedMessages);
+          saveMessagesToCache(threadId || "", updatedMessages);
+          updateSessionData(threadId || "");
+
+          if (threadId && assistantId) {
+            setIsTyping(true);
+            await addMessageToThread(
+              threadId,
+              describeProductForAssistant(product)
+            );
+
+            const assistantMsgs = await runAssistant(
+              threadId,
+              assistantId,
+              aiPersonality,
+              handleToolResult
+            );
+            if (assistantMsgs && assistantMsgs.length > 0) {
+              const latest = assistantMsgs[assistantMsgs.length - 1];
+              const assistantResponse: Message = {
+                id: latest.id,
+                role: "assistant",
+                content: latest.content,
+                timestamp: latest.createdAt,
+              };
+              const finalList = [...updatedMessages, assistantResponse];
+              setMessages(finalList);
+              saveMessagesToCache(threadId, finalList);
+              updateSessionData(threadId);
+            }
+          }
+          return;
+        }
+
+        // Unknown product - fall back to analyzing the photo itself
+        toast.info(
+          "That barcode isn't in our product catalog yet. Estimating from the photo instead."
+        );
+      }
+
       // Upload to your /api/upload-image
       const formData = new FormData();
       formData.append("image", file);
@@ -745,7 +848,7 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
           threadId,
           assistantId,
           aiPersonality,
-          handleToolCalls
+          handleToolResult
         );
         if (assistantMsgs && assistantMsgs.length > 0) {
           const latest = assistantMsgs[assistantMsgs.length - 1];
@@ -760,9 +863,6 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
           saveMessagesToCache(threadId, finalList);
           updateSessionData(threadId);
 
-          // Extract learning from messages with images
-          extractAndStoreAILearning(threadId, finalList);
-
           // Make sure typing indicator is cleared
           setIsTyping(false);
         }
@@ -841,7 +941,7 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
             threadId,
             assistantId,
             aiPersonality,
-            handleToolCalls
+            handleToolResult
           );
 
           if (assistantMessages && assistantMessages.length > 0) {
@@ -856,9 +956,6 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
             setMessages(finalList);
             saveMessagesToCache(threadId, finalList);
             updateSessionData(threadId);
-
-            // Voice messages should definitely extract learning data
-            extractAndStoreAILearning(threadId, finalList);
           }
         } catch (error) {
           console.error("Error processing voice recording:", error);
@@ -1040,13 +1137,24 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
                       ? "ml-auto bg-blue-500 text-white"
                       : msg.role === "assistant"
                       ? "mr-auto bg-gray-200 dark:bg-gray-700 dark:text-white"
-                      : "mx-auto bg-yellow-100 dark:bg-yellow-900 text-center"
+                      : "mx-auto bg-yellow-100 dark:bg-yellow-900 text-center",
+                    highlightedMessageId === msg.id &&
+                      "ring-2 ring-offset-2 ring-blue-400 transition-shadow"
                   )}
                 >
                   {msg.role === "assistant" ? (
-                    <div className="prose dark:prose-invert prose-sm max-w-none">
-                      <ReactMarkdown>{msg.content}</ReactMarkdown>
-                    </div>
+                    <>
+                      <div className="prose dark:prose-invert prose-sm max-w-none">
+                        <ReactMarkdown>{msg.content}</ReactMarkdown>
+                      </div>
+                      {msg.toolExecutionIds &&
+                        msg.toolExecutionIds.length > 0 && (
+                          <ToolExecutionLinks
+                            executionIds={msg.toolExecutionIds}
+                            onRecordChanged={handleRecordChanged}
+                          />
+                        )}
+                    </>
                   ) : (
                     <div>{msg.content}</div>
                   )}
@@ -1125,21 +1233,33 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
             )}
           </Button>
 
-          <Button
-            size="icon"
-            onClick={handleSendMessage}
-            disabled={
-              !inputValue.trim() ||
-              isTyping ||
-              !threadId ||
-              !assistantId ||
-              isUploading ||
-              processInProgress.current
-            }
-            className="rounded-full h-10 w-10 flex items-center justify-center"
-          >
-            <Send className="h-5 w-5" />
-          </Button>
+          {isStreamingReply ? (
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={handleStopStreaming}
+              aria-label="Stop response"
+              className="rounded-full h-10 w-10 flex items-center justify-center"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              size="icon"
+              onClick={handleSendMessage}
+              disabled={
+                !inputValue.trim() ||
+                isTyping ||
+                !threadId ||
+                !assistantId ||
+                isUploading ||
+                processInProgress.current
+              }
+              className="rounded-full h-10 w-10 flex items-center justify-center"
+            >
+              <Send className="h-5 w-5" />
+            </Button>
+          )}
         </div>
 
         {/* Mobile optimized layout */}
@@ -1155,21 +1275,33 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
               disabled={isTyping || isUploading || processInProgress.current}
             />
 
-            <Button
-              size="icon"
-              onClick={handleSendMessage}
-              disabled={
-                !inputValue.trim() ||
-                isTyping ||
-                !threadId ||
-                !assistantId ||
-                isUploading ||
-                processInProgress.current
-              }
-              className="rounded-full h-10 w-10 flex items-center justify-center shrink-0"
-            >
-              <Send className="h-5 w-5" />
-            </Button>
+            {isStreamingReply ? (
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={handleStopStreaming}
+                aria-label="Stop response"
+                className="rounded-full h-10 w-10 flex items-center justify-center shrink-0"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button
+                size="icon"
+                onClick={handleSendMessage}
+                disabled={
+                  !inputValue.trim() ||
+                  isTyping ||
+                  !threadId ||
+                  !assistantId ||
+                  isUploading ||
+                  processInProgress.current
+                }
+                className="rounded-full h-10 w-10 flex items-center justify-center shrink-0"
+              >
+                <Send className="h-5 w-5" />
+              </Button>
+            )}
           </div>
 
           {/* Action buttons */}
@@ -1,6 +1,19 @@
+import { useUnitPreferences } from "@/hooks/useUserPreferences";
+import {
+  energyUnitLabel,
+  toDisplayEnergy,
+  toDisplayWeight,
+  weightUnitLabel,
+} from "@/lib/units";
 import { Expand, Minimize2, RefreshCw } from "lucide-react";
 import { useSession } from "next-auth/react";
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   Bar,
   CartesianGrid,
@@ -65,6 +78,32 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
   const [isFullScreen, setIsFullScreen] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { data: session } = useSession();
+  const units = useUnitPreferences();
+
+  // Chart data arrives in lbs and kcal; convert to the user's units
+  const displayData = useMemo(
+    () =>
+      chartData.map((point) => ({
+        ...point,
+        weight:
+          point.weight !== undefined
+            ? toDisplayWeight(point.weight, units.weight)
+            : undefined,
+        weightGoal:
+          point.weightGoal !== undefined
+            ? toDisplayWeight(point.weightGoal, units.weight)
+            : undefined,
+        calories:
+          point.calories !== undefined
+            ? toDisplayEnergy(point.calories, units.energy)
+            : undefined,
+        caloriesTarget:
+          point.caloriesTarget !== undefined
+            ? toDisplayEnergy(point.caloriesTarget, units.energy)
+            : undefined,
+      })),
+    [chartData, units]
+  );
 
   // Refs for auto-refresh mechanism
   const autoRefreshTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -354,7 +393,7 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
                         className="text-sm"
                         style={{ color: entry.color }}
                       >
-                        Current: {entry.value} lbs
+                        Current: {entry.value} {weightUnitLabel(units.weight)}
                       </p>
                     );
                   } else if (entry.dataKey === "weightGoal") {
@@ -364,7 +403,7 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
                         className="text-sm"
                         style={{ color: entry.color }}
                       >
-                        Goal: {entry.value} lbs
+                        Goal: {entry.value} {weightUnitLabel(units.weight)}
                       </p>
                     );
                   }
@@ -388,7 +427,7 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
                         className="text-sm"
                         style={{ color: entry.color }}
                       >
-                        Consumed: {entry.value}
+                        Consumed: {entry.value} {energyUnitLabel(units.energy)}
                       </p>
                     );
                   } else if (entry.dataKey === "caloriesTarget") {
@@ -398,7 +437,7 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
                         className="text-sm"
                         style={{ color: entry.color }}
                       >
-                        Target: {entry.value}
+                        Target: {entry.value} {energyUnitLabel(units.energy)}
                       </p>
                     );
                   }
@@ -479,7 +518,8 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
 
   // Get target values from data
   const weightTarget = targets.weight || undefined;
-  const calorieTarget = chartData[0]?.caloriesTarget || 2000;
+  const calorieTarget =
+    displayData[0]?.caloriesTarget || toDisplayEnergy(2000, units.energy);
 
   // Wrapper for the chart content
   const ChartWrapper = isFullScreen
@@ -559,7 +599,7 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
     <ChartWrapper>
       <ResponsiveContainer width="100%" height="100%">
         <ComposedChart
-          data={chartData}
+          data={displayData}
           margin={{ top: 10, right: 30, left: 5, bottom: 20 }}
         >
           <CartesianGrid strokeDasharray="3 3" opacity={0.4} />
@@ -572,7 +612,7 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
               orientation="left"
               domain={["auto", "auto"]}
               label={{
-                value: "Weight (lbs)",
+                value: `Weight (${weightUnitLabel(units.weight)})`,
                 angle: -90,
                 position: "insideLeft",
                 style: { textAnchor: "middle" },
@@ -590,7 +630,7 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
               orientation="right"
               domain={[0, "dataMax + 500"]}
               label={{
-                value: "Calories",
+                value: units.energy === "kJ" ? "Energy (kJ)" : "Calories",
                 angle: 90,
                 position: "insideRight",
                 style: { textAnchor: "middle" },
@@ -607,7 +647,7 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
 
           {/* Weight Data - only if not in calories-only mode */}
           {!showCaloriesOnly &&
-            chartData.some((d) => d.weight !== undefined) && (
+            displayData.some((d) => d.weight !== undefined) && (
               <Line
                 type="monotone"
                 dataKey="weight"
@@ -623,7 +663,7 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
 
           {/* Weight Goal - only if not in calories-only mode */}
           {!showCaloriesOnly &&
-            chartData.some((d) => d.weightGoal !== undefined) && (
+            displayData.some((d) => d.weightGoal !== undefined) && (
               <Line
                 type="monotone"
                 dataKey="weightGoal"
@@ -646,7 +686,7 @@ const CombinedWeightCalorieChart: React.FC<EnhancedCombinedChartProps> = ({
               barSize={8}
               radius={[2, 2, 0, 0]}
             >
-              {chartData.map((entry, index) => (
+              {displayData.map((entry, index) => (
                 <Cell key={`cell-${index}`} fill={getCalorieBarColor(entry)} />
               ))}
             </Bar>
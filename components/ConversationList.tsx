@@ -0,0 +1,378 @@
+// components/ConversationList.tsx
+"use client";
+
+import { clearSessionData } from "@/lib/ChatHistoryManager";
+import eventEmitter from "@/lib/events";
+import { cn } from "@/lib/utils";
+import { Archive, Check, Pencil, Plus, Trash2, X } from "lucide-react";
+import { usePathname, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Skeleton } from "./ui/skeleton";
+
+interface ConversationEntry {
+  id: string;
+  title: string;
+  personality: string;
+  isOpen: boolean;
+}
+
+interface ConversationListProps {
+  // Called after switching conversations, e.g. to close the menu
+  onNavigate?: () => void;
+}
+
+/**
+ * The user's conversations, to switch between, start, rename, archive or
+ * delete them
+ */
+const ConversationList: React.FC<ConversationListProps> = ({ onNavigate }) => {
+  const [conversations, setConversations] = useState<ConversationEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  // Title being typed for a new conversation, or null when not adding one
+  const [newTitle, setNewTitle] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const [deleting, setDeleting] = useState<ConversationEntry | null>(null);
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const fetchConversations = useCallback(async () => {
+    try {
+      const response = await fetch("/api/conversations");
+      if (!response.ok) {
+        throw new Error("Failed to fetch conversations");
+      }
+      const data = await response.json();
+      setConversations(data.conversations || []);
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  // The open conversation changed on the server; have the chat load it
+  const showOpenConversation = () => {
+    clearSessionData();
+    eventEmitter.emit("conversation-changed");
+    if (pathname !== "/dashboard") {
+      router.push("/dashboard");
+    }
+    onNavigate?.();
+  };
+
+  const patchConversation = async (
+    conversation: ConversationEntry,
+    body: { title?: string; archived?: boolean; open?: boolean }
+  ) => {
+    const response = await fetch(`/api/conversations/${conversation.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || "Failed to update conversation");
+    }
+  };
+
+  const handleOpen = async (conversation: ConversationEntry) => {
+    if (conversation.isOpen) {
+      onNavigate?.();
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await patchConversation(conversation, { open: true });
+      showOpenConversation();
+    } catch (error) {
+      console.error("Error opening conversation:", error);
+      toast.error("Failed to open conversation");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const personality =
+      conversations.find((conversation) => conversation.isOpen)?.personality ||
+      "best-friend";
+
+    setIsBusy(true);
+    try {
+      const response = await fetch("/api/assistant/initialize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: newTitle || undefined,
+          personality,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to start conversation");
+      }
+      setNewTitle(null);
+      showOpenConversation();
+    } catch (error) {
+      console.error("Error starting conversation:", error);
+      toast.error("Failed to start a new conversation");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRename = async (conversation: ConversationEntry) => {
+    const title = editingTitle.trim();
+    if (!title || title === conversation.title) {
+      setEditingId(null);
+      return;
+    }
+
+    try {
+      await patchConversation(conversation, { title });
+      setConversations((prev) =>
+        prev.map((other) =>
+          other.id === conversation.id ? { ...other, title } : other
+        )
+      );
+      setEditingId(null);
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to rename conversation"
+      );
+    }
+  };
+
+  const handleArchive = async (conversation: ConversationEntry) => {
+    setIsBusy(true);
+    try {
+      await patchConversation(conversation, { archived: true });
+      toast.success(`Archived "${conversation.title}"`);
+      await fetchConversations();
+      if (conversation.isOpen) {
+        showOpenConversation();
+      }
+    } catch (error) {
+      console.error("Error archiving conversation:", error);
+      toast.error("Failed to archive conversation");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const conversation = deleting;
+
+    setIsBusy(true);
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to delete conversation");
+      }
+      toast.success(`Deleted "${conversation.title}"`);
+      await fetchConversations();
+      if (conversation.isOpen) {
+        showOpenConversation();
+      }
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      toast.error("Failed to delete conversation");
+    } finally {
+      setIsBusy(false);
+      setDeleting(null);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  return (
+    <div className="space-y-0.5">
+      {conversations.map((conversation) =>
+        editingId === conversation.id ? (
+          <div key={conversation.id} className="flex items-center gap-1">
+            <Input
+              value={editingTitle}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleRename(conversation);
+                if (e.key === "Escape") setEditingId(null);
+              }}
+              maxLength={80}
+              className="h-8 text-sm"
+              autoFocus
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 shrink-0"
+              onClick={() => handleRename(conversation)}
+              title="Save"
+            >
+              <Check className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 shrink-0"
+              onClick={() => setEditingId(null)}
+              title="Cancel"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ) : (
+          <div
+            key={conversation.id}
+            className={cn(
+              "group flex items-center rounded-md",
+              conversation.isOpen && "bg-blue-50 dark:bg-blue-900/30"
+            )}
+          >
+            <Button
+              variant="ghost"
+              size="sm"
+              className="flex-1 justify-start text-left py-1.5 h-auto min-w-0"
+              onClick={() => handleOpen(conversation)}
+              disabled={isBusy}
+            >
+              <span className="text-sm truncate">{conversation.title}</span>
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 shrink-0"
+              onClick={() => {
+                setEditingId(conversation.id);
+                setEditingTitle(conversation.title);
+              }}
+              title="Rename"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 shrink-0"
+              onClick={() => handleArchive(conversation)}
+              disabled={isBusy}
+              title="Archive"
+            >
+              <Archive className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 shrink-0 text-red-500"
+              onClick={() => setDeleting(conversation)}
+              disabled={isBusy}
+              title="Delete"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        )
+      )}
+
+      {newTitle !== null ? (
+        <div className="flex items-center gap-1">
+          <Input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreate();
+              if (e.key === "Escape") setNewTitle(null);
+            }}
+            placeholder="e.g. Meal planning"
+            maxLength={80}
+            className="h-8 text-sm"
+            autoFocus
+          />
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0 shrink-0"
+            onClick={handleCreate}
+            disabled={isBusy}
+            title="Start"
+          >
+            <Check className="h-3 w-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0 shrink-0"
+            onClick={() => setNewTitle(null)}
+            title="Cancel"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ) : (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full justify-start text-left py-1.5 h-auto"
+          onClick={() => setNewTitle("")}
+          disabled={isBusy}
+        >
+          <span className="flex items-center">
+            <Plus className="h-4 w-4 mr-2 text-gray-500 dark:text-gray-400" />
+            <span className="text-sm">New conversation</span>
+          </span>
+        </Button>
+      )}
+
+      <AlertDialog
+        open={!!deleting}
+        onOpenChange={(open: boolean) => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{deleting?.title}&quot; and its messages will be deleted for
+              good. Meals and weights you logged in it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isBusy}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ConversationList;
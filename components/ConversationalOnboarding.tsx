@@ -10,6 +10,12 @@ import {
   transcribeAudio,
 } from "@/lib/assistantService";
 import { createOrUpdateUserProfile } from "@/lib/firebase/models/user";
+import {
+  calculateMacroTargets,
+  planCalorieTarget,
+} from "@/lib/nutrition/energy";
+import { getDefaultTimeZone } from "@/lib/timezone";
+import { cmToInches, fromDisplayWeight } from "@/lib/units";
 import { formatChatText } from "@/lib/utils";
 import { Mic, MicOff, Send } from "lucide-react";
 import { useSession } from "next-auth/react";
@@ -39,6 +45,20 @@ interface ExtractedUserData {
   targetDate?: string | null;
 }
 
+// Profiles store pounds and inches, so convert metric answers on extraction
+const toPounds = (value: number, unit?: string) =>
+  unit && /^(kg|kilograms)$/i.test(unit)
+    ? fromDisplayWeight(value, "kg")
+    : value;
+
+const toInches = (value: number, unit?: string) => {
+  if (!unit) return value;
+  if (/^(cm|centimeters)$/i.test(unit)) return cmToInches(value);
+  if (/^(m|meters)$/i.test(unit)) return cmToInches(value * 100);
+  if (/^(feet|ft|foot|')$/i.test(unit)) return value * 12;
+  return value;
+};
+
 const ConversationalOnboarding = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState("");
@@ -66,7 +86,7 @@ const ConversationalOnboarding = () => {
       setIsInitializing(true);
       try {
         // Create thread and assistant for onboarding
-        const newThreadId = await createThread();
+        const newThreadId = await createThread("professional-coach");
         if (!newThreadId) throw new Error("Failed to create thread");
 
         const newAssistantId = await getOrCreateAssistant("professional-coach");
@@ -93,8 +113,7 @@ const ConversationalOnboarding = () => {
         const assistantMessages = await runAssistant(
           newThreadId,
           newAssistantId,
-          "professional-coach",
-          handleToolCall
+          "professional-coach"
         );
 
         if (assistantMessages && assistantMessages.length > 0) {
@@ -136,7 +155,6 @@ const ConversationalOnboarding = () => {
     } else if (status === "unauthenticated") {
       router.push("/auth/signin");
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [status, router]);
 
   // When onboarding is complete, save data and redirect to dashboard
@@ -150,59 +168,30 @@ const ConversationalOnboarding = () => {
             extractedData
           );
 
-          // Calculate target calories based on profile data
-          let targetCalories = 0;
-
-          if (
+          // Calculate calorie and macro targets from profile data
+          const plan =
             extractedData.startingWeight &&
             extractedData.height &&
             extractedData.age
-          ) {
-            // Simple BMR calculation based on weight (in lbs), height (in inches), and age
-            // Using a modified Harris-Benedict equation
-            const weight = extractedData.startingWeight;
-            const height = extractedData.height;
-            const age = extractedData.age;
-
-            // Base BMR calculation (very simplified)
-            const bmr =
-              10 * (weight * 0.453592) + 6.25 * (height * 2.54) - 5 * age;
-
-            // Activity multiplier
-            let activityMultiplier = 1.2; // Default sedentary
-            if (extractedData.activityLevel) {
-              const level = extractedData.activityLevel.toLowerCase();
-              if (level.includes("lightly active")) activityMultiplier = 1.375;
-              else if (level.includes("moderately active"))
-                activityMultiplier = 1.55;
-              else if (level.includes("very active"))
-                activityMultiplier = 1.725;
-              else if (level.includes("extremely active"))
-                activityMultiplier = 1.9;
-            }
-
-            // Adjust for weight goal
-            targetCalories = Math.round(bmr * activityMultiplier);
-
-            // If weight loss goal, create a moderate deficit
-            if (
-              extractedData.targetWeight &&
-              extractedData.targetWeight < extractedData.startingWeight
-            ) {
-              targetCalories -= 500; // Standard deficit for ~1lb/week loss
-            }
-          } else {
-            // Default if we can't calculate
-            targetCalories = 2000;
-          }
-
-          // Calculate macros based on target calories
-          const targetProtein = Math.round((targetCalories * 0.3) / 4); // 30% protein
-          const targetFat = Math.round((targetCalories * 0.3) / 9); // 30% fat
-          const targetCarbs = Math.round((targetCalories * 0.4) / 4); // 40% carbs
+              ? planCalorieTarget(
+                  {
+                    weight: extractedData.startingWeight,
+                    height: extractedData.height,
+                    age: extractedData.age,
+                    gender: extractedData.gender,
+                    activityLevel: extractedData.activityLevel,
+                  },
+                  { targetWeight: extractedData.targetWeight }
+                )
+              : null;
+
+          // Default if we can't calculate
+          const targetCalories = plan?.targetCalories ?? 2000;
+          const { targetProtein, targetCarbs, targetFat } =
+            plan ?? calculateMacroTargets(targetCalories);
 
           // Create a new thread for the main chat (separate from onboarding)
-          const mainThreadId = await createThread();
+          const mainThreadId = await createThread("best-friend");
           if (!mainThreadId) throw new Error("Failed to create main thread");
 
           const mainAssistantId = await getOrCreateAssistant("best-friend");
@@ -261,6 +250,7 @@ const ConversationalOnboarding = () => {
             targetProtein: targetProtein,
             targetCarbs: targetCarbs,
             targetFat: targetFat,
+            timezone: getDefaultTimeZone(), // Days follow the user's own zone
           };
 
           // Only add fields that have actual values
@@ -326,14 +316,7 @@ const ConversationalOnboarding = () => {
           );
 
           // Run the assistant once to generate the welcome message
-          await runAssistant(
-            mainThreadId,
-            mainAssistantId,
-            "best-friend",
-            async () => {
-              return { success: true, message: "Initial setup complete" };
-            }
-          );
+          await runAssistant(mainThreadId, mainAssistantId, "best-friend");
 
           // Wait a moment to show the final message
           setTimeout(() => {
@@ -360,31 +343,6 @@ const ConversationalOnboarding = () => {
     isProfileSaving,
   ]);
 
-  // Process information extraction through the AI assistant
-  const handleToolCall = async (toolName: string, toolArgs: any) => {
-    if (toolName === "extract_user_data") {
-      // Process extracted data
-      const newData = {
-        ...extractedData,
-        ...toolArgs,
-      };
-
-      setExtractedData(newData);
-      setOnboardingStep(calculateCompletionStep(newData));
-
-      return {
-        success: true,
-        message: "Data extracted successfully",
-        data: newData,
-      };
-    }
-
-    return {
-      success: false,
-      message: `Unknown tool: ${toolName}`,
-    };
-  };
-
   // Calculate the completion step based on extracted data
   const calculateCompletionStep = (data: ExtractedUserData): number => {
     let step = 0;
@@ -465,8 +423,7 @@ const ConversationalOnboarding = () => {
       const assistantMessages = await runAssistant(
         threadId,
         assistantId,
-        "professional-coach",
-        handleToolCall
+        "professional-coach"
       );
 
       if (assistantMessages && assistantMessages.length > 0) {
@@ -521,7 +478,10 @@ const ConversationalOnboarding = () => {
       // Find first non-undefined number in capture groups
       for (let i = 1; i < weightMatch.length; i++) {
         if (weightMatch[i] && !isNaN(parseFloat(weightMatch[i]))) {
-          data.startingWeight = parseFloat(weightMatch[i]);
+          data.startingWeight = toPounds(
+            parseFloat(weightMatch[i]),
+            weightMatch[2]
+          );
           break;
         }
       }
@@ -535,10 +495,19 @@ const ConversationalOnboarding = () => {
       // Find first non-undefined number in capture groups
       for (let i = 1; i < heightMatch.length; i++) {
         if (heightMatch[i] && !isNaN(parseFloat(heightMatch[i]))) {
-          data.height = parseFloat(heightMatch[i]);
+          data.height = toInches(parseFloat(heightMatch[i]), heightMatch[2]);
           break;
         }
       }
+
+      // Pick up the inches in heights like 5'10" or 5 ft 10
+      const feetAndInches = allText.match(
+        /(\d+)\s*(?:feet|ft|foot|')\s*(\d+)\s*(?:inches|in|")?/i
+      );
+      if (feetAndInches) {
+        data.height =
+          parseInt(feetAndInches[1]) * 12 + parseInt(feetAndInches[2]);
+      }
     }
 
     // Extract age with improved pattern
@@ -600,7 +569,10 @@ const ConversationalOnboarding = () => {
       // Find first non-undefined number in capture groups
       for (let i = 1; i < targetWeightMatch.length; i++) {
         if (targetWeightMatch[i] && !isNaN(parseFloat(targetWeightMatch[i]))) {
-          data.targetWeight = parseFloat(targetWeightMatch[i]);
+          data.targetWeight = toPounds(
+            parseFloat(targetWeightMatch[i]),
+            targetWeightMatch[3]
+          );
           break;
         }
       }
@@ -715,8 +687,7 @@ const ConversationalOnboarding = () => {
             const assistantMessages = await runAssistant(
               threadId,
               assistantId,
-              "professional-coach",
-              handleToolCall
+              "professional-coach"
             );
 
             if (assistantMessages && assistantMessages.length > 0) {
@@ -1,6 +1,9 @@
 // DailyTotalsUI.jsx
+import type { MealTotals } from "@/lib/mealAggregation";
 
 interface DailyTotalsUIProps {
+  // Totals as returned by /api/meals, used for any value not passed below
+  totals?: MealTotals;
   totalCalories?: number;
   totalProtein?: number;
   totalCarbs?: number;
@@ -12,10 +15,11 @@ interface DailyTotalsUIProps {
 }
 
 const DailyTotalsUI = ({
-  totalCalories = 0,
-  totalProtein = 0,
-  totalCarbs = 0,
-  totalFat = 0,
+  totals,
+  totalCalories = totals?.calories ?? 0,
+  totalProtein = totals?.protein ?? 0,
+  totalCarbs = totals?.carbs ?? 0,
+  totalFat = totals?.fat ?? 0,
   targetCalories = 2000,
   targetProtein = 110,
   targetCarbs = 275,
@@ -6,7 +6,11 @@ import { PersonalityKey } from "@/lib/assistantService";
 import { getUserProfileById } from "@/lib/auth/authService";
 import { db } from "@/lib/firebase/clientApp";
 import type { Meal } from "@/lib/firebase/models/meal";
-import type { UserProfile } from "@/lib/firebase/models/user";
+import {
+  createOrUpdateUserProfile,
+  type UserProfile,
+} from "@/lib/firebase/models/user";
+import { getDayRange, getDefaultTimeZone } from "@/lib/timezone";
 import { Message } from "@/types/chat";
 import {
   collection,
@@ -19,13 +23,15 @@ import {
 } from "firebase/firestore";
 import { ChevronDown, ChevronUp } from "lucide-react";
 import { useSession } from "next-auth/react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
+import AdaptiveTargetCard from "./AdaptiveTargetCard";
 import CaloriesStatusBar from "./CaloriesStatusBar";
 import ChatContainer from "./ChatContainer";
 import CombinedWeightCalorieChart from "./CombinedWeightCalorieChart";
 import HamburgerMenu from "./HamburgerMenu";
+import QuickLogPanel from "./QuickLogPanel";
 import TodaysMeals from "./TodaysMeals";
 import { Button } from "./ui/button";
 import { Skeleton } from "./ui/skeleton";
@@ -96,6 +102,22 @@ const Dashboard = ({
     preservingSession,
   } = useChatManager(session?.user?.id);
 
+  // A message to jump to, linked from search
+  const searchParams = useSearchParams();
+  const focusMessageId = searchParams?.get("message");
+  const focusMessageAt = searchParams?.get("at");
+  const focusMessage = useMemo(
+    () =>
+      focusMessageId && focusMessageAt && !isNaN(Date.parse(focusMessageAt))
+        ? { id: focusMessageId, at: new Date(focusMessageAt) }
+        : undefined,
+    [focusMessageId, focusMessageAt]
+  );
+  const clearFocusMessage = useCallback(
+    () => router.replace("/dashboard"),
+    [router]
+  );
+
   // Calories / meals data
   const [todaysMeals, setTodaysMeals] = useState<Meal[]>([]);
   const [caloriesConsumed, setCaloriesConsumed] = useState(0);
@@ -119,11 +141,11 @@ const Dashboard = ({
     setMounted(true);
   }, []);
 
+  // Today in the user's timezone, falling back to the browser's
   const getTodayDateBounds = useMemo(() => {
-    const startOfDay = new Date(new Date().setHours(0, 0, 0, 0));
-    const endOfDay = new Date(new Date().setHours(23, 59, 59, 999));
-    return { startOfDay, endOfDay };
-  }, []);
+    const { start, end } = getDayRange(new Date(), userProfile?.timezone);
+    return { startOfDay: start, endOfDay: end };
+  }, [userProfile?.timezone]);
 
   const setupFirestoreListener = useCallback(() => {
     if (!session?.user?.id) return null;
@@ -236,6 +258,13 @@ const Dashboard = ({
         if (profile.targetCalories) {
           setTargetCalories(profile.targetCalories);
         }
+        // Older profiles predate timezones; adopt the browser's so the
+        // server buckets days the same way
+        if (!profile.timezone) {
+          createOrUpdateUserProfile(session.user.id, {
+            timezone: getDefaultTimeZone(),
+          }).catch((err) => console.error("Error saving timezone:", err));
+        }
       }
     } catch (err) {
       console.error("Error loading user profile:", err);
@@ -409,6 +438,7 @@ const Dashboard = ({
             </div>
           ) : (
             <ChatContainer
+              key={chatThreadId || "new"}
               aiPersonality={aiPersonality}
               threadId={chatThreadId || undefined}
               assistantId={assistantId || undefined}
@@ -417,10 +447,22 @@ const Dashboard = ({
               isCalling={isCalling}
               onCall={handlePhoneCall}
               preservingSession={preservingSession}
+              focusMessage={focusMessage}
+              onMessageFocused={clearFocusMessage}
             />
           )}
         </div>
 
+        {/* Weekly calorie target suggestion from the weight trend */}
+        <AdaptiveTargetCard onTargetUpdated={() => loadUserProfile()} />
+
+        {/* Recent and frequent meals for one-tap logging */}
+        {session?.user?.id && (
+          <CollapsibleSection title="Quick Log" initiallyExpanded={true}>
+            <QuickLogPanel userId={session.user.id} />
+          </CollapsibleSection>
+        )}
+
         {/* Collapsible for today's meals */}
         <CollapsibleSection title="Today's Meals" initiallyExpanded={true}>
           <TodaysMeals
@@ -17,10 +17,31 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { useTimeZone } from "@/hooks/useUserPreferences";
 import eventEmitter from "@/lib/events";
-import type { Meal } from "@/lib/firebase/models/meal";
-import { format, subDays } from "date-fns";
+import type { MacroKey, Meal } from "@/lib/firebase/models/meal";
+import {
+  hasItemNutrition,
+  normalizeMealItems,
+  sumMealItems,
+} from "@/lib/mealItems";
+import { addDaysToKey, toDateKey } from "@/lib/timezone";
+import { format, parseISO } from "date-fns";
 import { useEffect, useState } from "react";
+import MealItemsEditor, {
+  fromMealItemRows,
+  MealItemRow,
+  toMealItemRows,
+} from "./MealItemsEditor";
+
+const EstimateFlag = () => (
+  <span
+    className="ml-1 text-xs text-amber-600 dark:text-amber-400"
+    title="Estimated from a typical split"
+  >
+    est.
+  </span>
+);
 
 interface EditMealModalProps {
   open: boolean;
@@ -35,6 +56,7 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
   onMealUpdated,
   meal,
 }) => {
+  const timeZone = useTimeZone();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -45,9 +67,20 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
     protein: "",
     carbs: "",
     fat: "",
-    items: "", // Comma-separated items
-    date: format(new Date(), "yyyy-MM-dd"),
+    date: toDateKey(new Date()),
   });
+  const [itemRows, setItemRows] = useState<MealItemRow[]>([]);
+
+  // Itemized meals show totals derived from their items
+  const items = fromMealItemRows(itemRows);
+  const isItemized = hasItemNutrition(items);
+  const itemTotals = sumMealItems(items);
+
+  // Macros the assistant estimated, until they're changed here
+  const isEstimate = (macro: MacroKey) =>
+    !isItemized &&
+    !!meal?.estimatedMacros?.includes(macro) &&
+    parseFloat(mealData[macro]) === meal[macro];
 
   // When meal prop changes, update the form data
   useEffect(() => {
@@ -62,11 +95,11 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
         protein: meal.protein?.toString() || "",
         carbs: meal.carbs?.toString() || "",
         fat: meal.fat?.toString() || "",
-        items: meal.items ? meal.items.join(", ") : "",
-        date: format(mealDate, "yyyy-MM-dd"),
+        date: toDateKey(mealDate, timeZone),
       });
+      setItemRows(toMealItemRows(normalizeMealItems(meal.items)));
     }
-  }, [meal]);
+  }, [meal, timeZone]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -89,9 +122,9 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
         protein: meal.protein?.toString() || "",
         carbs: meal.carbs?.toString() || "",
         fat: meal.fat?.toString() || "",
-        items: meal.items ? meal.items.join(", ") : "",
-        date: format(mealDate, "yyyy-MM-dd"),
+        date: toDateKey(mealDate, timeZone),
       });
+      setItemRows(toMealItemRows(normalizeMealItems(meal.items)));
     }
     setError(null);
   };
@@ -102,7 +135,10 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
       return false;
     }
 
-    if (!mealData.calories.trim() || isNaN(parseFloat(mealData.calories))) {
+    if (
+      !isItemized &&
+      (!mealData.calories.trim() || isNaN(parseFloat(mealData.calories)))
+    ) {
       setError("Valid calories value is required");
       return false;
     }
@@ -146,24 +182,24 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
     setIsSubmitting(true);
 
     try {
-      // Parse items string into array
-      const items = mealData.items
-        ? mealData.items
-            .split(",")
-            .map((item) => item.trim())
-            .filter((item) => item.length > 0)
-        : [];
-
-      // Create meal payload
+      // Only move the meal when its day was changed, keeping its time
+      // otherwise. Plain days are resolved in the user's timezone.
+      const mealDate =
+        meal.date instanceof Date ? meal.date : (meal.date as any).toDate();
+      const dateChanged = mealData.date !== toDateKey(mealDate, timeZone);
+
+      // Create meal payload - itemized totals are re-derived on save
       const payload = {
         name: mealData.name,
         mealType: mealData.mealType,
-        calories: parseFloat(mealData.calories),
+        calories: isItemized
+          ? itemTotals.calories
+          : parseFloat(mealData.calories),
         protein: mealData.protein ? parseFloat(mealData.protein) : null,
         carbs: mealData.carbs ? parseFloat(mealData.carbs) : null,
         fat: mealData.fat ? parseFloat(mealData.fat) : null,
         items: items,
-        date: new Date(mealData.date).toISOString(), // Use the date from the form
+        date: dateChanged ? mealData.date : undefined,
       };
 
       console.log("Updating meal data:", payload);
@@ -199,15 +235,14 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
     }
   };
 
-  // Generate date options for the last 7 days
+  // Generate date options for the last 7 days in the user's timezone
   const getDateOptions = () => {
     const options = [];
-    const today = new Date();
+    const today = toDateKey(new Date(), timeZone);
 
     for (let i = 0; i < 7; i++) {
-      const date = subDays(today, i);
-      const dateStr = format(date, "yyyy-MM-dd");
-      const displayDate = format(date, "EEE, MMM d");
+      const dateStr = addDaysToKey(today, -i);
+      const displayDate = format(parseISO(dateStr), "EEE, MMM d");
       options.push({
         value: dateStr,
         label: i === 0 ? `Today (${displayDate})` : displayDate,
@@ -227,7 +262,7 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Meal</DialogTitle>
           <DialogDescription>
@@ -309,8 +344,9 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
               id="calories"
               name="calories"
               type="number"
-              value={mealData.calories}
+              value={isItemized ? itemTotals.calories : mealData.calories}
               onChange={handleInputChange}
+              disabled={isItemized}
               placeholder="e.g., 350"
               className="col-span-3"
               required
@@ -321,13 +357,15 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
             <div>
               <Label htmlFor="protein" className="block mb-2">
                 Protein (g)
+                {isEstimate("protein") && <EstimateFlag />}
               </Label>
               <Input
                 id="protein"
                 name="protein"
                 type="number"
-                value={mealData.protein}
+                value={isItemized ? itemTotals.protein : mealData.protein}
                 onChange={handleInputChange}
+                disabled={isItemized}
                 placeholder="e.g., 25"
               />
             </div>
@@ -335,13 +373,15 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
             <div>
               <Label htmlFor="carbs" className="block mb-2">
                 Carbs (g)
+                {isEstimate("carbs") && <EstimateFlag />}
               </Label>
               <Input
                 id="carbs"
                 name="carbs"
                 type="number"
-                value={mealData.carbs}
+                value={isItemized ? itemTotals.carbs : mealData.carbs}
                 onChange={handleInputChange}
+                disabled={isItemized}
                 placeholder="e.g., 40"
               />
             </div>
@@ -349,33 +389,29 @@ const EditMealModal: React.FC<EditMealModalProps> = ({
             <div>
               <Label htmlFor="fat" className="block mb-2">
                 Fat (g)
+                {isEstimate("fat") && <EstimateFlag />}
               </Label>
               <Input
                 id="fat"
                 name="fat"
                 type="number"
-                value={mealData.fat}
+                value={isItemized ? itemTotals.fat : mealData.fat}
                 onChange={handleInputChange}
+                disabled={isItemized}
                 placeholder="e.g., 12"
               />
             </div>
           </div>
 
-          <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="items" className="text-right">
-              Food Items
-            </Label>
-            <Input
-              id="items"
-              name="items"
-              value={mealData.items}
-              onChange={handleInputChange}
-              placeholder="e.g., chicken, lettuce, tomato, dressing"
-              className="col-span-3"
-            />
-            <div className="col-span-4 text-xs text-gray-500 ml-auto w-3/4">
-              Separate multiple items with commas
+          {isItemized && (
+            <div className="text-xs text-gray-500 -mt-2">
+              Totals are calculated from the items below
             </div>
+          )}
+
+          <div>
+            <Label className="block mb-2">Food Items</Label>
+            <MealItemsEditor rows={itemRows} onChange={setItemRows} />
           </div>
         </div>
 
@@ -10,11 +10,39 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { createOrUpdateUserProfile } from "@/lib/firebase/models/user";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  createOrUpdateUserProfile,
+  recordTargetCalorieChange,
+} from "@/lib/firebase/models/user";
+import {
+  BMR_FORMULAS,
+  BmrFormula,
+  MACRO_SPLITS,
+  MacroSplitKey,
+  planCalorieTarget,
+  WEEKLY_RATE_OPTIONS,
+} from "@/lib/nutrition/energy";
+import {
+  DEFAULT_UNITS,
+  formatEnergy,
+  formatWeight,
+  getUnitPreferences,
+  toDisplayWeight,
+  toStoredWeight,
+  UnitPreferences,
+  weightUnitLabel,
+} from "@/lib/units";
 import { Save, X } from "lucide-react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { toast } from "sonner";
 import ActivityZoneSelector from "./ActivityZoneSelector";
 import HeightSelector from "./HeightSelector";
@@ -25,15 +53,32 @@ export default function GoalsPage() {
   const [isSaving, setIsSaving] = useState(false);
   const [mounted, setMounted] = useState(false);
 
-  // Simplified goals with only necessary fields
+  // Simplified goals with only necessary fields. Weights are in the
+  // user's display unit; storedWeights keeps the loaded pounds.
+  const [units, setUnits] = useState<UnitPreferences>(DEFAULT_UNITS);
+  const [storedWeights, setStoredWeights] = useState<{
+    current?: number;
+    target?: number;
+  }>({});
   const [currentWeight, setCurrentWeight] = useState<number | null>(null);
   const [targetWeight, setTargetWeight] = useState<number | null>(null);
-  const [targetCalories, setTargetCalories] = useState<number>(2000);
+  const [savedTargetCalories, setSavedTargetCalories] = useState<number | null>(
+    null
+  );
   const [height, setHeight] = useState<number | null>(null);
   const [activityZone, setActivityZone] = useState<number>(3);
   const [activityLabel, setActivityLabel] =
     useState<string>("Moderately Active");
 
+  // Calorie plan settings; age and gender are edited on the profile page
+  const [age, setAge] = useState<number | null>(null);
+  const [gender, setGender] = useState<string | null>(null);
+  const [bodyFat, setBodyFat] = useState<number | null>(null);
+  const [formula, setFormula] = useState<BmrFormula>("mifflin-st-jeor");
+  // null means "pick a default from the target weight"
+  const [weeklyRate, setWeeklyRate] = useState<number | null>(null);
+  const [macroSplit, setMacroSplit] = useState<MacroSplitKey>("balanced");
+
   // Set mounted state to prevent hydration issues
   useEffect(() => {
     setMounted(true);
@@ -56,12 +101,31 @@ export default function GoalsPage() {
         const userProfile = await response.json();
 
         // Set form values from profile
+        const profileUnits = getUnitPreferences(userProfile.units);
+        setUnits(profileUnits);
+        setStoredWeights({
+          current: userProfile.currentWeight,
+          target: userProfile.targetWeight,
+        });
         if (userProfile.currentWeight)
-          setCurrentWeight(userProfile.currentWeight);
-        if (userProfile.targetWeight) setTargetWeight(userProfile.targetWeight);
+          setCurrentWeight(
+            toDisplayWeight(userProfile.currentWeight, profileUnits.weight)
+          );
+        if (userProfile.targetWeight)
+          setTargetWeight(
+            toDisplayWeight(userProfile.targetWeight, profileUnits.weight)
+          );
         if (userProfile.targetCalories)
-          setTargetCalories(userProfile.targetCalories);
+          setSavedTargetCalories(userProfile.targetCalories);
         if (userProfile.height) setHeight(userProfile.height);
+        if (userProfile.age) setAge(userProfile.age);
+        if (userProfile.gender) setGender(userProfile.gender);
+        if (userProfile.bodyFatPercentage)
+          setBodyFat(userProfile.bodyFatPercentage);
+        if (userProfile.bmrFormula) setFormula(userProfile.bmrFormula);
+        if (typeof userProfile.weeklyWeightChangeRate === "number")
+          setWeeklyRate(userProfile.weeklyWeightChangeRate);
+        if (userProfile.macroSplit) setMacroSplit(userProfile.macroSplit);
 
         // Set activity zone
         if (userProfile.activityLevel) {
@@ -104,37 +168,50 @@ export default function GoalsPage() {
     setActivityLabel(label);
   };
 
-  // Calculate estimated daily calorie needs based on user stats
-  const calculateDailyCalories = (): number => {
-    if (!currentWeight) return 2000; // Default value
-
-    // Basic BMR calculation using the Harris-Benedict equation (simplified version)
-    // For this implementation, we'll use a simplified formula based on weight
-    const bmr = currentWeight * 10; // Very simplified BMR estimate
-
-    // Activity multiplier based on zone
-    const activityMultipliers = [1.2, 1.375, 1.55, 1.725, 1.9];
-    const multiplier = activityMultipliers[activityZone - 1] || 1.55;
-
-    // Calculate daily needs
-    let dailyCalories = Math.round(bmr * multiplier);
-
-    // If there's a weight loss goal, adjust calories
-    if (targetWeight && targetWeight < currentWeight) {
-      // Create a deficit (about 500 calories is common for 1lb/week loss)
-      dailyCalories -= 500;
-    }
-
-    return dailyCalories;
-  };
+  // Weights in stored pounds
+  const currentWeightLbs = currentWeight
+    ? toStoredWeight(currentWeight, units.weight, storedWeights.current)
+    : null;
+  const targetWeightLbs = targetWeight
+    ? toStoredWeight(targetWeight, units.weight, storedWeights.target)
+    : null;
+
+  // Calorie plan from the shared energy calculator
+  const plan = useMemo(
+    () =>
+      currentWeightLbs
+        ? planCalorieTarget(
+            {
+              weight: currentWeightLbs,
+              height,
+              age,
+              gender,
+              activityLevel: activityLabel,
+              bodyFatPercentage: bodyFat,
+            },
+            {
+              formula,
+              weeklyRate,
+              targetWeight: targetWeightLbs,
+              macroSplit,
+            }
+          )
+        : null,
+    [
+      currentWeightLbs,
+      targetWeightLbs,
+      height,
+      age,
+      gender,
+      activityLabel,
+      bodyFat,
+      formula,
+      weeklyRate,
+      macroSplit,
+    ]
+  );
 
-  // Update calorie target when relevant inputs change
-  useEffect(() => {
-    if (currentWeight) {
-      const calculatedCalories = calculateDailyCalories();
-      setTargetCalories(calculatedCalories);
-    }
-  }, [currentWeight, targetWeight, activityZone]);
+  const targetCalories = plan?.targetCalories ?? savedTargetCalories ?? 2000;
 
   const handleSubmit = async (e: React.FormEvent): Promise<void> => {
     e.preventDefault();
@@ -146,13 +223,28 @@ export default function GoalsPage() {
     try {
       // Simplified data model with just the essential fields
       await createOrUpdateUserProfile(session.user.id, {
-        currentWeight: currentWeight ?? undefined,
-        targetWeight: targetWeight ?? undefined,
+        currentWeight: currentWeightLbs ?? undefined,
+        targetWeight: targetWeightLbs ?? undefined,
         targetCalories,
+        targetProtein: plan?.targetProtein,
+        targetCarbs: plan?.targetCarbs,
+        targetFat: plan?.targetFat,
         height: height ?? undefined,
         activityLevel: activityLabel,
+        bodyFatPercentage: bodyFat ?? undefined,
+        bmrFormula: formula,
+        weeklyWeightChangeRate: plan?.weeklyRate,
+        macroSplit,
       });
 
+      if (targetCalories !== savedTargetCalories) {
+        await recordTargetCalorieChange(session.user.id, {
+          previousCalories: savedTargetCalories,
+          targetCalories,
+          source: "goals",
+        });
+      }
+
       toast.success("Goals updated successfully!");
 
       // Return to dashboard
@@ -216,7 +308,9 @@ export default function GoalsPage() {
             <CardContent className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
-                  <Label htmlFor="currentWeight">Current Weight (lbs)</Label>
+                  <Label htmlFor="currentWeight">
+                    Current Weight ({weightUnitLabel(units.weight)})
+                  </Label>
                   <Input
                     id="currentWeight"
                     type="number"
@@ -232,7 +326,9 @@ export default function GoalsPage() {
                 </div>
 
                 <div>
-                  <Label htmlFor="targetWeight">Target Weight (lbs)</Label>
+                  <Label htmlFor="targetWeight">
+                    Target Weight ({weightUnitLabel(units.weight)})
+                  </Label>
                   <Input
                     id="targetWeight"
                     type="number"
@@ -252,6 +348,7 @@ export default function GoalsPage() {
                 <HeightSelector
                   initialHeight={height || undefined}
                   onChange={handleHeightChange}
+                  unit={units.height}
                 />
               </div>
 
@@ -261,21 +358,142 @@ export default function GoalsPage() {
                   onChange={handleActivityZoneChange}
                 />
               </div>
+            </CardContent>
+          </Card>
 
-              {currentWeight && (
+          {/* Calorie plan card */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Calorie Plan</CardTitle>
+              <CardDescription>
+                Choose how fast to progress and how to split your macros
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <Label htmlFor="weeklyRate">Weekly Rate</Label>
+                  <Select
+                    value={String(plan?.weeklyRate ?? weeklyRate ?? 0)}
+                    onValueChange={(value) => setWeeklyRate(parseFloat(value))}
+                  >
+                    <SelectTrigger id="weeklyRate">
+                      <SelectValue placeholder="Select weekly rate" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKLY_RATE_OPTIONS.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>
+                          {rate === 0
+                            ? "Maintain weight"
+                            : `${rate < 0 ? "Lose" : "Gain"} ${formatWeight(
+                                Math.abs(rate),
+                                units.weight
+                              )}/week`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="macroSplit">Macro Split</Label>
+                  <Select
+                    value={macroSplit}
+                    onValueChange={(value) =>
+                      setMacroSplit(value as MacroSplitKey)
+                    }
+                  >
+                    <SelectTrigger id="macroSplit">
+                      <SelectValue placeholder="Select macro split" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MACRO_SPLITS) as MacroSplitKey[]).map(
+                        (key) => (
+                          <SelectItem key={key} value={key}>
+                            {MACRO_SPLITS[key].label} (
+                            {MACRO_SPLITS[key].protein}/
+                            {MACRO_SPLITS[key].carbs}/{MACRO_SPLITS[key].fat})
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="bmrFormula">BMR Formula</Label>
+                  <Select
+                    value={formula}
+                    onValueChange={(value) => setFormula(value as BmrFormula)}
+                  >
+                    <SelectTrigger id="bmrFormula">
+                      <SelectValue placeholder="Select formula" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BMR_FORMULAS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formula === "katch-mcardle" && (
+                  <div>
+                    <Label htmlFor="bodyFat">Body Fat (%)</Label>
+                    <Input
+                      id="bodyFat"
+                      type="number"
+                      step="0.1"
+                      placeholder="Enter your body fat percentage"
+                      value={bodyFat === null ? "" : bodyFat}
+                      onChange={(e) =>
+                        setBodyFat(
+                          e.target.value ? parseFloat(e.target.value) : null
+                        )
+                      }
+                    />
+                  </div>
+                )}
+              </div>
+
+              {plan && (
                 <div className="mt-4 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
                   <div className="mb-2">
                     <div className="font-medium">
                       Calculated Daily Calorie Target
                     </div>
                     <div className="text-2xl font-bold">
-                      {targetCalories} calories
+                      {formatEnergy(targetCalories, units.energy)}
+                    </div>
+                    <div className="text-sm">
+                      {plan.targetProtein}g protein • {plan.targetCarbs}g carbs
+                      • {plan.targetFat}g fat
                     </div>
                   </div>
                   <div className="text-sm text-gray-500">
-                    Based on your current weight, target weight, and profile
-                    information
+                    BMR {formatEnergy(plan.bmr, units.energy)} • Maintenance{" "}
+                    {formatEnergy(plan.tdee, units.energy)}
+                    {plan.dailyAdjustment !== 0 &&
+                      ` • ${plan.dailyAdjustment > 0 ? "+" : ""}${formatEnergy(
+                        plan.dailyAdjustment,
+                        units.energy
+                      )} per day`}
                   </div>
+                  {plan.floorApplied && (
+                    <div className="text-sm text-amber-600 dark:text-amber-400 mt-2">
+                      Raised to the{" "}
+                      {formatEnergy(plan.minimumCalories, units.energy)} minimum
+                      - consider a slower weekly rate.
+                    </div>
+                  )}
+                  {(!age || !gender) && (
+                    <div className="text-sm text-gray-500 mt-2">
+                      Add your age and gender on your profile for a more
+                      accurate estimate.
+                    </div>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -20,6 +20,7 @@ import {
   LogOut,
   Menu,
   Moon,
+  Search,
   Shield,
   Sun,
   User,
@@ -28,6 +29,7 @@ import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { JSX, useEffect, useState } from "react";
 import { toast } from "sonner";
+import ConversationList from "./ConversationList";
 import { Label } from "./ui/label";
 import { Switch } from "./ui/switch";
 
@@ -182,6 +184,14 @@ const HamburgerMenu: React.FC<HamburgerMenuProps> = ({ className = "" }) => {
         setIsOpen(false);
       },
     },
+    {
+      label: "Search",
+      icon: <Search className="h-5 w-5" />,
+      onClick: () => {
+        router.push("/search");
+        setIsOpen(false);
+      },
+    },
     {
       label: "Profile",
       icon: <User className="h-5 w-5" />,
@@ -259,6 +269,16 @@ const HamburgerMenu: React.FC<HamburgerMenuProps> = ({ className = "" }) => {
 
         {/* Main Content - Scrollable */}
         <div className="flex-1 overflow-y-auto">
+          {/* Conversations */}
+          {session?.user && (
+            <div className="mb-4">
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                Conversations
+              </div>
+              <ConversationList onNavigate={() => setIsOpen(false)} />
+            </div>
+          )}
+
           {/* Main Navigation */}
           <div className="mb-4">
             <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
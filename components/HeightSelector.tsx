@@ -7,16 +7,20 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { cmToInches, HeightUnit, inchesToCm } from "@/lib/units";
 import { useEffect, useState } from "react";
 
 interface HeightSelectorProps {
   initialHeight?: number;
   onChange: (heightInInches: number) => void;
+  // Options are listed in this unit; the value is always inches
+  unit?: HeightUnit;
 }
 
 export default function HeightSelector({
   initialHeight,
   onChange,
+  unit = "ft-in",
 }: HeightSelectorProps) {
   const [selectedHeight, setSelectedHeight] = useState<number | undefined>(
     initialHeight
@@ -30,15 +34,23 @@ export default function HeightSelector({
   }, [initialHeight]);
 
   const handleHeightSelect = (heightValue: string) => {
-    const heightInInches = parseInt(heightValue);
+    const heightInInches =
+      unit === "cm" ? cmToInches(parseInt(heightValue)) : parseInt(heightValue);
     setSelectedHeight(heightInInches);
     onChange(heightInInches);
   };
 
-  // Generate height options from 4'0" to 7'0"
+  // Generate height options from 4'0" to 7'0" (122 cm to 213 cm)
   const generateHeightOptions = () => {
     const options = [];
 
+    if (unit === "cm") {
+      for (let cm = 122; cm <= 213; cm++) {
+        options.push({ label: `${cm} cm`, value: cm.toString() });
+      }
+      return options;
+    }
+
     for (let feet = 4; feet <= 7; feet++) {
       const maxInches = feet === 7 ? 1 : 12; // Only show 7'0"
 
@@ -56,13 +68,18 @@ export default function HeightSelector({
 
   const heightOptions = generateHeightOptions();
 
+  // The select value is in the display unit
+  const selectedValue =
+    selectedHeight === undefined
+      ? undefined
+      : unit === "cm"
+        ? inchesToCm(selectedHeight).toString()
+        : Math.round(selectedHeight).toString();
+
   return (
     <div className="space-y-2">
       <Label htmlFor="height-select">Height</Label>
-      <Select
-        value={selectedHeight?.toString()}
-        onValueChange={handleHeightSelect}
-      >
+      <Select value={selectedValue} onValueChange={handleHeightSelect}>
         <SelectTrigger id="height-select" className="w-full">
           <SelectValue placeholder="Select your height" />
         </SelectTrigger>
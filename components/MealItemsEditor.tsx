@@ -0,0 +1,199 @@
+// components/MealItemsEditor.tsx
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { MealItem } from "@/lib/firebase/models/meal";
+import { createMealItem, scaleMealItem } from "@/lib/mealItems";
+import { PlusCircle, Trash } from "lucide-react";
+
+// Form state for one item. Values are kept as strings like the other meal
+// forms; `baseline` is the last manually entered quantity and nutrition,
+// which re-weighing scales from so clearing the quantity field is harmless.
+export interface MealItemRow {
+  name: string;
+  quantity: string;
+  unit: string;
+  calories: string;
+  protein: string;
+  carbs: string;
+  fat: string;
+  foodId: string | null;
+  baseline: MealItem;
+}
+
+type NutritionField = "calories" | "protein" | "carbs" | "fat";
+
+const NUTRITION_FIELDS: { field: NutritionField; label: string }[] = [
+  { field: "calories", label: "Cal" },
+  { field: "protein", label: "P (g)" },
+  { field: "carbs", label: "C (g)" },
+  { field: "fat", label: "F (g)" },
+];
+
+/**
+ * Convert stored items into editable rows
+ */
+export function toMealItemRows(items: MealItem[]): MealItemRow[] {
+  return items.map((item) => ({
+    name: item.name,
+    quantity: item.quantity.toString(),
+    unit: item.unit,
+    calories: item.calories.toString(),
+    protein: item.protein.toString(),
+    carbs: item.carbs.toString(),
+    fat: item.fat.toString(),
+    foodId: item.foodId ?? null,
+    baseline: item,
+  }));
+}
+
+/**
+ * Convert editable rows back into items, dropping rows without a name
+ */
+export function fromMealItemRows(rows: MealItemRow[]): MealItem[] {
+  return rows
+    .filter((row) => row.name.trim())
+    .map((row) => ({
+      name: row.name.trim(),
+      quantity: parseFloat(row.quantity) || row.baseline.quantity,
+      unit: row.unit.trim() || "serving",
+      calories: parseFloat(row.calories) || 0,
+      protein: parseFloat(row.protein) || 0,
+      carbs: parseFloat(row.carbs) || 0,
+      fat: parseFloat(row.fat) || 0,
+      foodId: row.foodId,
+    }));
+}
+
+interface MealItemsEditorProps {
+  rows: MealItemRow[];
+  onChange: (rows: MealItemRow[]) => void;
+}
+
+const MealItemsEditor: React.FC<MealItemsEditorProps> = ({
+  rows,
+  onChange,
+}) => {
+  const updateRow = (index: number, row: MealItemRow) => {
+    onChange(rows.map((current, i) => (i === index ? row : current)));
+  };
+
+  // Re-weigh: scale the nutrition from the baseline to the new quantity
+  const handleQuantityChange = (index: number, value: string) => {
+    const row = rows[index];
+    const quantity = parseFloat(value);
+
+    if (!(quantity > 0)) {
+      updateRow(index, { ...row, quantity: value });
+      return;
+    }
+
+    const scaled = scaleMealItem(row.baseline, quantity);
+    updateRow(index, {
+      ...row,
+      quantity: value,
+      calories: scaled.calories.toString(),
+      protein: scaled.protein.toString(),
+      carbs: scaled.carbs.toString(),
+      fat: scaled.fat.toString(),
+    });
+  };
+
+  // Editing nutrition directly sets a new baseline for re-weighing
+  const handleNutritionChange = (
+    index: number,
+    field: NutritionField,
+    value: string
+  ) => {
+    const row = { ...rows[index], [field]: value };
+    const [baseline] = fromMealItemRows([{ ...row, name: row.name || "-" }]);
+    updateRow(index, { ...row, baseline });
+  };
+
+  const handleAddItem = () => {
+    onChange([...rows, ...toMealItemRows([createMealItem()])]);
+  };
+
+  const handleRemoveItem = (index: number) => {
+    onChange(rows.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row, index) => (
+        <div
+          key={index}
+          className="border rounded-md p-2 space-y-2 dark:border-gray-700"
+        >
+          <div className="flex space-x-2">
+            <Input
+              value={row.name}
+              onChange={(e) =>
+                updateRow(index, { ...row, name: e.target.value })
+              }
+              placeholder="Item name"
+              className="flex-1"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              value={row.quantity}
+              onChange={(e) => handleQuantityChange(index, e.target.value)}
+              className="w-20"
+              aria-label="Quantity"
+            />
+            <Input
+              value={row.unit}
+              onChange={(e) =>
+                updateRow(index, { ...row, unit: e.target.value })
+              }
+              placeholder="unit"
+              className="w-20"
+              aria-label="Unit"
+            />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              onClick={() => handleRemoveItem(index)}
+              title="Remove item"
+            >
+              <Trash className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {NUTRITION_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <span className="block text-xs text-gray-500 mb-1">
+                  {label}
+                </span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={row[field]}
+                  onChange={(e) =>
+                    handleNutritionChange(index, field, e.target.value)
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleAddItem}
+        className="w-full"
+      >
+        <PlusCircle className="h-4 w-4 mr-2" />
+        Add Item
+      </Button>
+    </div>
+  );
+};
+
+export default MealItemsEditor;
@@ -0,0 +1,269 @@
+// components/MealProposalCard.tsx
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import eventEmitter from "@/lib/events";
+import type { MacroKey, Meal, MealItem } from "@/lib/firebase/models/meal";
+import type { MealProposalStatus } from "@/lib/firebase/models/mealProposal";
+import { hasItemNutrition, sumMealItems } from "@/lib/mealItems";
+import { Check, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import MealItemsEditor, {
+  fromMealItemRows,
+  MealItemRow,
+  toMealItemRows,
+} from "./MealItemsEditor";
+
+export interface MealProposalData {
+  id: string;
+  name: string;
+  mealType: string | null;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  items: MealItem[];
+  estimatedMacros: MacroKey[];
+  status: MealProposalStatus;
+  mealId: string | null;
+}
+
+interface MealProposalCardProps {
+  proposal: MealProposalData;
+  // Called once the user confirmed or rejected the proposal, with the
+  // meal logged for it
+  onResolved: (proposal: MealProposalData, meal?: Meal) => void;
+}
+
+const MACRO_FIELDS: { field: MacroKey; label: string }[] = [
+  { field: "protein", label: "Protein (g)" },
+  { field: "carbs", label: "Carbs (g)" },
+  { field: "fat", label: "Fat (g)" },
+];
+
+/**
+ * A meal the assistant estimated, shown in the chat for the user to
+ * confirm, change or reject before it's logged
+ */
+const MealProposalCard: React.FC<MealProposalCardProps> = ({
+  proposal,
+  onResolved,
+}) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mealData, setMealData] = useState({
+    name: proposal.name,
+    mealType: proposal.mealType || "Other",
+    calories: proposal.calories.toString(),
+    protein: proposal.protein.toString(),
+    carbs: proposal.carbs.toString(),
+    fat: proposal.fat.toString(),
+  });
+  const [itemRows, setItemRows] = useState<MealItemRow[]>(() =>
+    toMealItemRows(proposal.items)
+  );
+
+  // Itemized meals show totals derived from their items
+  const items = fromMealItemRows(itemRows);
+  const isItemized = hasItemNutrition(items);
+  const itemTotals = sumMealItems(items);
+
+  // A macro stays an estimate until the user changes it
+  const isEstimate = (macro: MacroKey) =>
+    !isItemized &&
+    proposal.estimatedMacros.includes(macro) &&
+    parseFloat(mealData[macro]) === proposal[macro];
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setMealData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleConfirm = async () => {
+    if (!mealData.name.trim()) {
+      toast.error("Meal name is required");
+      return;
+    }
+    if (!isItemized && isNaN(parseFloat(mealData.calories))) {
+      toast.error("Valid calories value is required");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(
+        `/api/meal-proposals/${proposal.id}/confirm`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: mealData.name,
+            mealType: mealData.mealType,
+            calories: isItemized
+              ? itemTotals.calories
+              : parseFloat(mealData.calories),
+            protein: parseFloat(mealData.protein) || 0,
+            carbs: parseFloat(mealData.carbs) || 0,
+            fat: parseFloat(mealData.fat) || 0,
+            items,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to log meal");
+      }
+
+      const meal: Meal = data.meal;
+      toast.success(`Logged ${meal.name}`);
+      eventEmitter.emit("meal-updated");
+      onResolved(
+        {
+          ...proposal,
+          name: meal.name,
+          calories: meal.calories,
+          status: "confirmed",
+          mealId: meal.id || null,
+        },
+        meal
+      );
+    } catch (error) {
+      console.error("Error confirming meal proposal:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to log meal"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReject = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(
+        `/api/meal-proposals/${proposal.id}/reject`,
+        { method: "POST" }
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || "Failed to reject meal");
+      }
+
+      onResolved({ ...proposal, status: "rejected" });
+    } catch (error) {
+      console.error("Error rejecting meal proposal:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to reject meal"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 p-3 space-y-3 text-sm">
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        Check this before it&apos;s logged
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          name="name"
+          value={mealData.name}
+          onChange={handleInputChange}
+          placeholder="Meal name"
+          aria-label="Meal name"
+        />
+        <Select
+          value={mealData.mealType}
+          onValueChange={(value) =>
+            setMealData((prev) => ({ ...prev, mealType: value }))
+          }
+        >
+          <SelectTrigger aria-label="Meal type">
+            <SelectValue placeholder="Select meal type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="Breakfast">Breakfast</SelectItem>
+            <SelectItem value="Morning Snack">Morning Snack</SelectItem>
+            <SelectItem value="Lunch">Lunch</SelectItem>
+            <SelectItem value="Afternoon Snack">Afternoon Snack</SelectItem>
+            <SelectItem value="Dinner">Dinner</SelectItem>
+            <SelectItem value="Evening Snack">Evening Snack</SelectItem>
+            <SelectItem value="Other">Other</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        <div>
+          <Label htmlFor={`${proposal.id}-calories`} className="block mb-1">
+            Calories
+          </Label>
+          <Input
+            id={`${proposal.id}-calories`}
+            name="calories"
+            type="number"
+            value={isItemized ? itemTotals.calories : mealData.calories}
+            onChange={handleInputChange}
+            disabled={isItemized}
+          />
+        </div>
+        {MACRO_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <Label htmlFor={`${proposal.id}-${field}`} className="block mb-1">
+              {label}
+              {isEstimate(field) && (
+                <span
+                  className="ml-1 text-amber-600 dark:text-amber-400"
+                  title="Estimated from a typical split, not given by Niblet"
+                >
+                  est.
+                </span>
+              )}
+            </Label>
+            <Input
+              id={`${proposal.id}-${field}`}
+              name={field}
+              type="number"
+              value={isItemized ? itemTotals[field] : mealData[field]}
+              onChange={handleInputChange}
+              disabled={isItemized}
+            />
+          </div>
+        ))}
+      </div>
+
+      {itemRows.length > 0 && (
+        <MealItemsEditor rows={itemRows} onChange={setItemRows} />
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleReject}
+          disabled={isSubmitting}
+        >
+          <X className="h-4 w-4 mr-1" />
+          Don&apos;t log
+        </Button>
+        <Button size="sm" onClick={handleConfirm} disabled={isSubmitting}>
+          <Check className="h-4 w-4 mr-1" />
+          {isSubmitting ? "Saving..." : "Log meal"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MealProposalCard;
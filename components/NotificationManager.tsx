@@ -2,23 +2,26 @@
 
 "use client";
 import { useAppConfig } from "@/context/AppConfigContext";
+import { useTimeZone } from "@/hooks/useUserPreferences";
 import { Bell } from "lucide-react";
 import React, { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 
 const NotificationManager: React.FC = () => {
   const { notifications } = useAppConfig();
+  const timeZone = useTimeZone();
   const [lastCheckTime, setLastCheckTime] = useState<string>("");
   const checkIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // Check for notifications that should be triggered
   const checkNotifications = () => {
-    // Get current time as string in format HH:MM
+    // Get current time as string in format HH:MM, in the user's timezone
     const now = new Date();
     const currentTime = now.toLocaleTimeString("en-US", {
       hour: "2-digit",
       minute: "2-digit",
-      hour12: false,
+      hourCycle: "h23",
+      timeZone,
     });
 
     // If we've already checked at this exact minute, skip
@@ -31,6 +34,7 @@ const NotificationManager: React.FC = () => {
     const currentDayOfWeek = now
       .toLocaleDateString("en-US", {
         weekday: "long",
+        timeZone,
       })
       .toLowerCase();
 
@@ -84,7 +88,7 @@ const NotificationManager: React.FC = () => {
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [notifications]); // Re-initialize when notifications change
+  }, [notifications, timeZone]); // Re-initialize when notifications change
 
   // This component doesn't render anything visible
   return null;
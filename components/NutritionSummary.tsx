@@ -1,3 +1,4 @@
+import { fetchDailyTotals } from "@/lib/mealAggregation";
 import { useCallback, useEffect, useRef, useState } from "react";
 
 interface NutritionSummaryProps {
@@ -7,7 +8,8 @@ interface NutritionSummaryProps {
     carbs: number;
     fat: number;
   };
-  fetchNutritionData?: () => Promise<any>; // Make it optional and clearly define it's a function
+  // Defaults to today's totals from /api/meals
+  fetchNutritionData?: () => Promise<any>;
 }
 
 const NutritionSummary = ({
@@ -17,7 +19,7 @@ const NutritionSummary = ({
     carbs: 0,
     fat: 0,
   },
-  fetchNutritionData,
+  fetchNutritionData = fetchDailyTotals,
 }: NutritionSummaryProps) => {
   const [nutritionData, setNutritionData] = useState(initialData);
   const [isLoading, setIsLoading] = useState(false);
@@ -49,8 +51,6 @@ const NutritionSummary = ({
 
   // Safely fetch nutrition data with error handling
   const fetchData = useCallback(async () => {
-    if (!fetchNutritionData) return;
-
     setIsLoading(true);
     setError(null);
 
@@ -85,7 +85,7 @@ const NutritionSummary = ({
     let mounted = true;
 
     const initFetch = async () => {
-      if (fetchNutritionData && mounted) {
+      if (mounted) {
         await fetchData();
       }
     };
@@ -0,0 +1,118 @@
+// components/QuickLogPanel.tsx
+"use client";
+
+import { useTimeZone, useUnitPreferences } from "@/hooks/useUserPreferences";
+import eventEmitter from "@/lib/events";
+import { createMeal, getMealsByUserAndRange } from "@/lib/firebase/models/meal";
+import {
+  inferMealType,
+  QuickLogEntry,
+  rankQuickLogMeals,
+} from "@/lib/quickLog";
+import { formatEnergy } from "@/lib/units";
+import { subDays } from "date-fns";
+import { Plus } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Skeleton } from "./ui/skeleton";
+
+// How far back to look for recent and frequent meals
+const HISTORY_DAYS = 30;
+
+interface QuickLogPanelProps {
+  userId: string;
+  onMealLogged?: () => void;
+}
+
+const QuickLogPanel = ({ userId, onMealLogged }: QuickLogPanelProps) => {
+  const units = useUnitPreferences();
+  const timeZone = useTimeZone();
+  const [entries, setEntries] = useState<QuickLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loggingKey, setLoggingKey] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      const now = new Date();
+      const meals = await getMealsByUserAndRange(
+        userId,
+        subDays(now, HISTORY_DAYS),
+        now
+      );
+      setEntries(rankQuickLogMeals(meals, now, timeZone));
+    } catch (error) {
+      console.error("Error loading quick log meals:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, timeZone]);
+
+  useEffect(() => {
+    loadEntries();
+    return eventEmitter.on("meal-updated", loadEntries);
+  }, [loadEntries]);
+
+  // Log the meal again for today, typed by the current time of day
+  const handleQuickLog = async (entry: QuickLogEntry) => {
+    setLoggingKey(entry.key);
+    try {
+      await createMeal({
+        userId,
+        name: entry.name,
+        mealType: inferMealType(new Date(), timeZone),
+        calories: entry.calories,
+        protein: entry.protein,
+        carbs: entry.carbs,
+        fat: entry.fat,
+        items: entry.items,
+        estimatedMacros: entry.estimatedMacros,
+        date: new Date(),
+      });
+
+      toast.success(`Logged ${entry.name}`);
+      eventEmitter.emit("meal-updated");
+      onMealLogged?.();
+    } catch (error) {
+      console.error("Error quick logging meal:", error);
+      toast.error("Failed to log meal");
+    } finally {
+      setLoggingKey(null);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-10 w-full" />;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Meals you log will show up here for quick re-logging.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {entries.map((entry) => (
+        <button
+          key={entry.key}
+          onClick={() => handleQuickLog(entry)}
+          disabled={loggingKey !== null}
+          className="flex items-center rounded-full border px-3 py-1 text-sm hover:bg-gray-50 dark:border-gray-600 dark:hover:bg-gray-700 disabled:opacity-50"
+          title={`Logged ${entry.timesLogged} ${
+            entry.timesLogged === 1 ? "time" : "times"
+          } in the last ${HISTORY_DAYS} days`}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          <span className="truncate max-w-[10rem]">{entry.name}</span>
+          <span className="text-gray-500 dark:text-gray-400 ml-1">
+            {formatEnergy(entry.calories, units.energy)}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default QuickLogPanel;
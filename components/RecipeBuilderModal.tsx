@@ -0,0 +1,212 @@
+// components/RecipeBuilderModal.tsx
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SavedMeal } from "@/lib/firebase/models/savedMeal";
+import { sumMealItems } from "@/lib/mealItems";
+import { useState } from "react";
+import MealItemsEditor, {
+  fromMealItemRows,
+  MealItemRow,
+} from "./MealItemsEditor";
+
+interface RecipeBuilderModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRecipeSaved: (savedMeal: SavedMeal) => void;
+}
+
+const RecipeBuilderModal: React.FC<RecipeBuilderModalProps> = ({
+  open,
+  onOpenChange,
+  onRecipeSaved,
+}) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [mealType, setMealType] = useState("Other");
+  const [servings, setServings] = useState("1");
+  const [itemRows, setItemRows] = useState<MealItemRow[]>([]);
+
+  const items = fromMealItemRows(itemRows);
+  const totals = sumMealItems(items);
+  const servingCount = parseFloat(servings) > 0 ? parseFloat(servings) : 1;
+
+  const resetForm = () => {
+    setName("");
+    setMealType("Other");
+    setServings("1");
+    setItemRows([]);
+    setError(null);
+  };
+
+  const handleSubmit = async () => {
+    setError(null);
+
+    if (!name.trim()) {
+      setError("Recipe name is required");
+      return;
+    }
+    if (!items.length) {
+      setError("Add at least one ingredient");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/saved-meals", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name,
+          mealType,
+          servings: servingCount,
+          items,
+        }),
+      });
+
+      const responseData = await response.json();
+
+      if (!response.ok) {
+        throw new Error(responseData.message || "Failed to save recipe");
+      }
+
+      resetForm();
+      onOpenChange(false);
+      onRecipeSaved(responseData.savedMeal);
+    } catch (error) {
+      console.error("Error saving recipe:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to save recipe"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Reset form when modal is closed
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      resetForm();
+    }
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Recipe</DialogTitle>
+          <DialogDescription>
+            Add the ingredients for the whole recipe and how many servings it
+            makes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="bg-red-100 dark:bg-red-900 p-3 rounded-md text-red-800 dark:text-red-200 text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="recipe-name" className="text-right">
+              Name<span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="recipe-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Overnight Oats"
+              className="col-span-3"
+            />
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="recipe-mealType" className="text-right">
+              Meal Type
+            </Label>
+            <Select value={mealType} onValueChange={setMealType}>
+              <SelectTrigger id="recipe-mealType" className="col-span-3">
+                <SelectValue placeholder="Select meal type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Breakfast">Breakfast</SelectItem>
+                <SelectItem value="Morning Snack">Morning Snack</SelectItem>
+                <SelectItem value="Lunch">Lunch</SelectItem>
+                <SelectItem value="Afternoon Snack">Afternoon Snack</SelectItem>
+                <SelectItem value="Dinner">Dinner</SelectItem>
+                <SelectItem value="Evening Snack">Evening Snack</SelectItem>
+                <SelectItem value="Other">Other</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="recipe-servings" className="text-right">
+              Servings
+            </Label>
+            <Input
+              id="recipe-servings"
+              type="number"
+              min="1"
+              step="any"
+              value={servings}
+              onChange={(e) => setServings(e.target.value)}
+              className="col-span-3"
+            />
+          </div>
+
+          <div>
+            <Label className="block mb-2">Ingredients</Label>
+            <MealItemsEditor rows={itemRows} onChange={setItemRows} />
+          </div>
+
+          {items.length > 0 && (
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              Per serving: {Math.round(totals.calories / servingCount)} cal •{" "}
+              {Math.round(totals.protein / servingCount)}g P •{" "}
+              {Math.round(totals.carbs / servingCount)}g C •{" "}
+              {Math.round(totals.fat / servingCount)}g F
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save Recipe"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecipeBuilderModal;
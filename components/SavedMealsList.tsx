@@ -0,0 +1,172 @@
+// components/SavedMealsList.tsx
+"use client";
+
+import { useUnitPreferences } from "@/hooks/useUserPreferences";
+import eventEmitter from "@/lib/events";
+import type { SavedMeal } from "@/lib/firebase/models/savedMeal";
+import { formatEnergy } from "@/lib/units";
+import { PlusCircle, Trash } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import RecipeBuilderModal from "./RecipeBuilderModal";
+import { Button } from "./ui/button";
+import { Skeleton } from "./ui/skeleton";
+
+interface SavedMealsListProps {
+  // Meal type to log with, instead of the one the meal was saved with
+  mealType?: string;
+  onMealLogged?: () => void;
+  limit?: number;
+}
+
+const SavedMealsList = ({
+  mealType,
+  onMealLogged,
+  limit = 6,
+}: SavedMealsListProps) => {
+  const units = useUnitPreferences();
+  const [savedMeals, setSavedMeals] = useState<SavedMeal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loggingId, setLoggingId] = useState<string | null>(null);
+  const [showRecipeBuilder, setShowRecipeBuilder] = useState(false);
+
+  const fetchSavedMeals = useCallback(async () => {
+    try {
+      const response = await fetch("/api/saved-meals");
+      if (!response.ok) {
+        throw new Error("Failed to fetch saved meals");
+      }
+      const data = await response.json();
+      setSavedMeals(data.savedMeals || []);
+    } catch (error) {
+      console.error("Error fetching saved meals:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSavedMeals();
+  }, [fetchSavedMeals]);
+
+  // One-tap log of a saved meal
+  const handleLog = async (savedMeal: SavedMeal) => {
+    if (!savedMeal.id) return;
+
+    setLoggingId(savedMeal.id);
+    try {
+      const response = await fetch(`/api/saved-meals/${savedMeal.id}/log`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ mealType }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Failed to log meal");
+      }
+
+      toast.success(`Logged ${savedMeal.name}`);
+      eventEmitter.emit("meal-updated");
+      onMealLogged?.();
+      fetchSavedMeals();
+    } catch (error) {
+      console.error("Error logging saved meal:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to log meal"
+      );
+    } finally {
+      setLoggingId(null);
+    }
+  };
+
+  const handleDelete = async (savedMeal: SavedMeal) => {
+    if (!savedMeal.id) return;
+
+    try {
+      const response = await fetch(`/api/saved-meals/${savedMeal.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to delete saved meal");
+      }
+      setSavedMeals((prev) => prev.filter((meal) => meal.id !== savedMeal.id));
+    } catch (error) {
+      console.error("Error deleting saved meal:", error);
+      toast.error("Failed to delete saved meal");
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  return (
+    <div className="space-y-2">
+      {savedMeals.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No saved meals yet. Save a logged meal or create a recipe to log it
+          again with one tap.
+        </p>
+      ) : (
+        savedMeals.slice(0, limit).map((savedMeal) => (
+          <div
+            key={savedMeal.id}
+            className="flex items-center justify-between text-sm"
+          >
+            <div className="truncate">
+              <span className="font-medium">{savedMeal.name}</span>
+              <span className="text-gray-500 dark:text-gray-400 ml-2">
+                {formatEnergy(savedMeal.calories, units.energy)}
+                {savedMeal.servings > 1 ? " / serving" : ""}
+              </span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => handleLog(savedMeal)}
+                disabled={loggingId === savedMeal.id}
+              >
+                {loggingId === savedMeal.id ? "Logging..." : "Log"}
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => handleDelete(savedMeal)}
+                title="Delete saved meal"
+              >
+                <Trash className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => setShowRecipeBuilder(true)}
+      >
+        <PlusCircle className="h-4 w-4 mr-2" />
+        New Recipe
+      </Button>
+
+      <RecipeBuilderModal
+        open={showRecipeBuilder}
+        onOpenChange={setShowRecipeBuilder}
+        onRecipeSaved={(savedMeal) =>
+          setSavedMeals((prev) => [...prev, savedMeal])
+        }
+      />
+    </div>
+  );
+};
+
+export default SavedMealsList;
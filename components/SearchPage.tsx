@@ -0,0 +1,314 @@
+// components/SearchPage.tsx
+"use client";
+
+import { useTimeZone, useUnitPreferences } from "@/hooks/useUserPreferences";
+import { clearSessionData } from "@/lib/ChatHistoryManager";
+import type { Meal, MealItem } from "@/lib/firebase/models/meal";
+import { formatEnergy, formatWeight } from "@/lib/units";
+import { MessageSquare, Scale, Search, Utensils, X } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import EditMealModal from "./EditMealModal";
+import HamburgerMenu from "./HamburgerMenu";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Skeleton } from "./ui/skeleton";
+
+interface MessageResult {
+  id: string;
+  threadId: string;
+  role: "user" | "assistant";
+  snippet: string;
+  date: string;
+}
+
+interface MealResult {
+  id: string;
+  name: string;
+  mealType: string | null;
+  calories: number;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  items: MealItem[];
+  snippet: string;
+  date: string;
+}
+
+interface WeightResult {
+  id: string;
+  weight: number;
+  note: string;
+  snippet: string;
+  date: string;
+}
+
+interface SearchResults {
+  messages: MessageResult[];
+  meals: MealResult[];
+  weights: WeightResult[];
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Text with the words starting with a query term in bold
+ */
+const Highlighted = ({ text, query }: { text: string; query: string }) => {
+  const terms = query.split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`\\b(${terms.join("|")})`, "gi");
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <strong key={index} className="text-blue-600 dark:text-blue-400">
+            {part}
+          </strong>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
+
+/**
+ * Search across chat history, meals and weight notes
+ */
+export default function SearchPage() {
+  const router = useRouter();
+  const units = useUnitPreferences();
+  const timeZone = useTimeZone();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
+
+  const runSearch = useCallback(async (text: string) => {
+    if (!text.trim()) {
+      setResults(null);
+      return;
+    }
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/search?q=${encodeURIComponent(text.trim())}`
+      );
+      if (!response.ok) {
+        throw new Error("Search failed");
+      }
+      const data = await response.json();
+      setResults(data.results);
+    } catch (error) {
+      console.error("Error searching:", error);
+      setError("Search failed. Please try again.");
+    } finally {
+      setIsSearching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => runSearch(query), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [query, runSearch]);
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString("en-US", {
+      timeZone,
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  // The chat only pages back through the open conversation, so open the
+  // message's one first
+  const openMessage = async (message: MessageResult) => {
+    try {
+      const response = await fetch(`/api/conversations/${message.threadId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ open: true }),
+      });
+      if (response.ok) {
+        clearSessionData();
+      }
+    } catch (error) {
+      console.error("Error opening conversation:", error);
+    }
+
+    const params = new URLSearchParams({
+      message: message.id,
+      at: message.date,
+    });
+    router.push(`/dashboard?${params}`);
+  };
+
+  const openMeal = (meal: MealResult) => {
+    setEditingMeal({
+      id: meal.id,
+      userId: "",
+      name: meal.name,
+      mealType: meal.mealType,
+      calories: meal.calories,
+      protein: meal.protein,
+      carbs: meal.carbs,
+      fat: meal.fat,
+      items: meal.items,
+      date: new Date(meal.date),
+    });
+  };
+
+  const hasResults =
+    results &&
+    (results.messages.length > 0 ||
+      results.meals.length > 0 ||
+      results.weights.length > 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <header className="flex items-center justify-between px-4 py-3 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800">
+        <HamburgerMenu />
+        <div className="text-2xl font-bold">
+          niblet<span className="text-blue-400">.ai</span>
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => router.push("/dashboard")}
+        >
+          <X className="h-5 w-5" />
+        </Button>
+      </header>
+
+      <div className="container max-w-2xl mx-auto p-4 space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search chats, meals and weight notes"
+            className="pl-9"
+            maxLength={200}
+            autoFocus
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-100 dark:bg-red-900 p-3 rounded-lg text-sm text-red-800 dark:text-red-200">
+            {error}
+          </div>
+        )}
+
+        {isSearching && !results && <Skeleton className="h-32 w-full" />}
+
+        {results && !hasResults && !isSearching && (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+            Nothing found for &quot;{query.trim()}&quot;
+          </p>
+        )}
+
+        {results && results.messages.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center">
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Chat ({results.messages.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {results.messages.map((message) => (
+                <button
+                  key={message.id}
+                  type="button"
+                  className="w-full text-left rounded-md p-2 hover:bg-gray-100 dark:hover:bg-gray-800"
+                  onClick={() => openMessage(message)}
+                >
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {message.role === "user" ? "You" : "Niblet"} ·{" "}
+                    {formatDate(message.date)}
+                  </div>
+                  <div className="text-sm">
+                    <Highlighted text={message.snippet} query={query} />
+                  </div>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {results && results.meals.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center">
+                <Utensils className="h-4 w-4 mr-2" />
+                Meals ({results.meals.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {results.meals.map((meal) => (
+                <button
+                  key={meal.id}
+                  type="button"
+                  className="w-full text-left rounded-md p-2 hover:bg-gray-100 dark:hover:bg-gray-800"
+                  onClick={() => openMeal(meal)}
+                >
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(meal.date)}
+                    {meal.mealType ? ` · ${meal.mealType}` : ""} ·{" "}
+                    {formatEnergy(meal.calories, units.energy)}
+                  </div>
+                  <div className="text-sm">
+                    <Highlighted text={meal.snippet} query={query} />
+                  </div>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {results && results.weights.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center">
+                <Scale className="h-4 w-4 mr-2" />
+                Weight notes ({results.weights.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {results.weights.map((weightLog) => (
+                <div key={weightLog.id} className="p-2">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(weightLog.date)} ·{" "}
+                    {formatWeight(weightLog.weight, units.weight)}
+                  </div>
+                  <div className="text-sm">
+                    <Highlighted text={weightLog.snippet} query={query} />
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <EditMealModal
+        open={!!editingMeal}
+        onOpenChange={(open) => !open && setEditingMeal(null)}
+        onMealUpdated={() => runSearch(query)}
+        meal={editingMeal}
+      />
+    </div>
+  );
+}
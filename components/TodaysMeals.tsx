@@ -1,8 +1,28 @@
 "use client";
 
+import { useUnitPreferences } from "@/hooks/useUserPreferences";
 import eventEmitter from "@/lib/events";
-import type { Meal as BaseMeal } from "@/lib/firebase/models/meal";
-import { ChevronDown, ChevronUp, Edit, Trash } from "lucide-react";
+import type {
+  Meal as BaseMeal,
+  MealItem as FoodItem,
+  MacroKey,
+} from "@/lib/firebase/models/meal";
+import {
+  describeMealItem,
+  normalizeMealItems,
+  scaleMealItem,
+} from "@/lib/mealItems";
+import { energyUnitName, formatEnergy, toDisplayEnergy } from "@/lib/units";
+import {
+  ChevronDown,
+  Bookmark,
+  ChevronUp,
+  Edit,
+  PlusCircle,
+  RotateCcw,
+  Trash,
+  X,
+} from "lucide-react";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import EditMealModal from "./EditMealModal";
@@ -31,8 +51,17 @@ interface MealItem {
   protein: number;
   carbs: number;
   fat: number;
+  // Macros the assistant estimated rather than knew
+  estimatedMacros: MacroKey[];
+  foodItems: FoodItem[];
 }
 
+/**
+ * A meal's macro, marked "~" when it was estimated
+ */
+const formatMacro = (item: MealItem, macro: MacroKey) =>
+  item.estimatedMacros.includes(macro) ? `~${item[macro]}` : `${item[macro]}`;
+
 interface MealGroup {
   type: string;
   totalCalories: number;
@@ -62,6 +91,7 @@ const TodaysMeals = ({
   targetCarbs = 250,
   targetFat = 70,
 }: TodaysMealsProps) => {
+  const units = useUnitPreferences();
   const [deletingMealId, setDeletingMealId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
@@ -94,6 +124,8 @@ const TodaysMeals = ({
         protein: meal.protein || 0,
         carbs: meal.carbs || 0,
         fat: meal.fat || 0,
+        estimatedMacros: meal.estimatedMacros || [],
+        foodItems: normalizeMealItems(meal.items),
       });
 
       groups[type].totalCalories += meal.calories || 0;
@@ -157,6 +189,118 @@ const TodaysMeals = ({
     }
   };
 
+  // Save a meal's items; the meal totals are re-derived from them
+  const updateMealItems = async (mealId: string, foodItems: FoodItem[]) => {
+    try {
+      const response = await fetch(`/api/meals/${mealId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ items: foodItems }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Failed to update meal");
+      }
+
+      eventEmitter.emit("meal-updated");
+      onMealDeleted?.();
+    } catch (error) {
+      console.error("Error updating meal items:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update meal"
+      );
+    }
+  };
+
+  // Re-weigh one item, scaling its nutrition with the new quantity
+  const handleReweighItem = (item: MealItem, index: number, value: string) => {
+    const quantity = parseFloat(value);
+    const current = item.foodItems[index];
+    if (!item.id || !(quantity > 0) || quantity === current.quantity) return;
+
+    updateMealItems(
+      item.id,
+      item.foodItems.map((food, i) =>
+        i === index ? scaleMealItem(food, quantity) : food
+      )
+    );
+  };
+
+  const handleRemoveItem = (item: MealItem, index: number) => {
+    if (!item.id) return;
+    updateMealItems(
+      item.id,
+      item.foodItems.filter((_, i) => i !== index)
+    );
+  };
+
+  // Log the same meal again now
+  const handleLogAgain = async (mealId: string) => {
+    const meal = meals.find((m) => m.id === mealId);
+    if (!meal) return;
+
+    try {
+      const response = await fetch("/api/meals", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: meal.name,
+          mealType: meal.mealType,
+          calories: meal.calories,
+          protein: meal.protein,
+          carbs: meal.carbs,
+          fat: meal.fat,
+          items: meal.items,
+          date: new Date().toISOString(),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Failed to log meal");
+      }
+
+      toast.success(`Logged ${meal.name} again`);
+      eventEmitter.emit("meal-updated");
+      onMealDeleted?.();
+    } catch (error) {
+      console.error("Error logging meal again:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to log meal"
+      );
+    }
+  };
+
+  // Save a logged meal as a reusable template
+  const handleSaveMeal = async (mealId: string) => {
+    try {
+      const response = await fetch("/api/saved-meals", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ mealId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Failed to save meal");
+      }
+
+      toast.success("Saved to your meals");
+    } catch (error) {
+      console.error("Error saving meal:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save meal"
+      );
+    }
+  };
+
   // Handle edit meal
   const handleEditMeal = (mealId: string | undefined) => {
     if (!mealId) return;
@@ -262,7 +406,8 @@ const TodaysMeals = ({
                     <span className="text-sm text-gray-500 dark:text-gray-400 ml-2">
                       {group.itemCount}{" "}
                       {group.itemCount === 1 ? "item" : "items"} •{" "}
-                      {group.totalCalories} calories
+                      {toDisplayEnergy(group.totalCalories, units.energy)}{" "}
+                      {energyUnitName(units.energy)}
                     </span>
                   </div>
                   {group.expanded ? (
@@ -278,7 +423,9 @@ const TodaysMeals = ({
                     {/* Nutrition table-like header (for larger screens) */}
                     <div className="hidden sm:grid grid-cols-12 text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
                       <div className="col-span-3 text-left">Food Item</div>
-                      <div className="col-span-2 text-right">Calories</div>
+                      <div className="col-span-2 text-right">
+                        {units.energy === "kJ" ? "Energy (kJ)" : "Calories"}
+                      </div>
                       <div className="col-span-2 text-right">Protein (g)</div>
                       <div className="col-span-2 text-right">Carbs (g)</div>
                       <div className="col-span-2 text-right">Fat (g)</div>
@@ -292,16 +439,16 @@ const TodaysMeals = ({
                         <div className="hidden sm:grid grid-cols-12 items-center text-sm py-1 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md">
                           <div className="col-span-3 truncate">{item.name}</div>
                           <div className="col-span-2 text-right">
-                            {item.calories}
+                            {toDisplayEnergy(item.calories, units.energy)}
                           </div>
                           <div className="col-span-2 text-right">
-                            {item.protein}
+                            {formatMacro(item, "protein")}
                           </div>
                           <div className="col-span-2 text-right">
-                            {item.carbs}
+                            {formatMacro(item, "carbs")}
                           </div>
                           <div className="col-span-2 text-right">
-                            {item.fat}
+                            {formatMacro(item, "fat")}
                           </div>
                           <div className="col-span-1 flex justify-center flex-row items-center ml-4">
                             {item.id && (
@@ -369,12 +516,85 @@ const TodaysMeals = ({
                             </div>
                           </div>
                           <div className="flex flex-wrap gap-2 mt-1 text-xs text-gray-600 dark:text-gray-400">
-                            <span>{item.calories} cal</span>
-                            <span>{item.protein}g P</span>
-                            <span>{item.carbs}g C</span>
-                            <span>{item.fat}g F</span>
+                            <span>
+                              {formatEnergy(item.calories, units.energy)}
+                            </span>
+                            <span>{formatMacro(item, "protein")}g P</span>
+                            <span>{formatMacro(item, "carbs")}g C</span>
+                            <span>{formatMacro(item, "fat")}g F</span>
                           </div>
                         </div>
+
+                        {/* Individual food items - re-weigh or remove */}
+                        {item.id && (
+                          <div className="pl-3 pb-2 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                            {item.foodItems.map((food, foodIdx) => (
+                              <div
+                                key={`${item.id}-${foodIdx}-${food.quantity}`}
+                                className="flex items-center space-x-2"
+                              >
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="any"
+                                  defaultValue={food.quantity}
+                                  onBlur={(e) =>
+                                    handleReweighItem(
+                                      item,
+                                      foodIdx,
+                                      e.target.value
+                                    )
+                                  }
+                                  onKeyDown={(e) => {
+                                    if (e.key === "Enter") {
+                                      e.currentTarget.blur();
+                                    }
+                                  }}
+                                  className="w-12 rounded border bg-transparent px-1 dark:border-gray-600"
+                                  aria-label={`Quantity of ${food.name}`}
+                                />
+                                <span className="flex-1 truncate">
+                                  {food.unit} {food.name}
+                                </span>
+                                <span>
+                                  {formatEnergy(food.calories, units.energy)}
+                                </span>
+                                <button
+                                  className="text-gray-400 hover:text-red-500"
+                                  onClick={() =>
+                                    handleRemoveItem(item, foodIdx)
+                                  }
+                                  title={`Remove ${describeMealItem(food)}`}
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </div>
+                            ))}
+                            <div className="flex items-center space-x-3">
+                              <button
+                                className="flex items-center text-blue-500 hover:underline"
+                                onClick={() => handleEditMeal(item.id)}
+                              >
+                                <PlusCircle className="h-3 w-3 mr-1" />
+                                Add item
+                              </button>
+                              <button
+                                className="flex items-center text-blue-500 hover:underline"
+                                onClick={() => handleLogAgain(item.id!)}
+                              >
+                                <RotateCcw className="h-3 w-3 mr-1" />
+                                Log again
+                              </button>
+                              <button
+                                className="flex items-center text-blue-500 hover:underline"
+                                onClick={() => handleSaveMeal(item.id!)}
+                              >
+                                <Bookmark className="h-3 w-3 mr-1" />
+                                Save
+                              </button>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -388,7 +608,8 @@ const TodaysMeals = ({
                 <span className="font-medium">Totals</span>
               </div>
               <div className="text-sm text-gray-500 dark:text-gray-400">
-                {totalCalories} calories
+                {toDisplayEnergy(totalCalories, units.energy)}{" "}
+                {energyUnitName(units.energy)}
               </div>
             </div>
           </div>
@@ -0,0 +1,268 @@
+// components/ToolExecutionLinks.tsx
+"use client";
+
+import type { MacroKey, Meal, MealItem } from "@/lib/firebase/models/meal";
+import type { ToolRecordType } from "@/lib/firebase/models/toolExecution";
+import { cn } from "@/lib/utils";
+import { Brain, ClipboardCheck, Scale, Undo2, Utensils } from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import EditMealModal from "./EditMealModal";
+import MealProposalCard, { MealProposalData } from "./MealProposalCard";
+
+interface ToolExecutionEntry {
+  id: string;
+  toolName: string;
+  message: string;
+  recordType: ToolRecordType;
+  recordId: string;
+  undone: boolean;
+  canUndo: boolean;
+  // The meal as it is now, for meal records
+  meal: {
+    id: string;
+    name: string;
+    mealType: string | null;
+    calories: number;
+    protein: number | null;
+    carbs: number | null;
+    fat: number | null;
+    items: MealItem[];
+    estimatedMacros: MacroKey[];
+    date: string;
+  } | null;
+  // The proposal as it is now, for meals awaiting confirmation
+  mealProposal: MealProposalData | null;
+}
+
+interface ToolExecutionLinksProps {
+  executionIds: string[];
+  // Called after a record was edited or undone, to refresh what shows it
+  onRecordChanged?: (recordType: ToolRecordType) => void;
+}
+
+const RECORD_ICONS: Record<ToolRecordType, typeof Utensils> = {
+  meal: Utensils,
+  meal_proposal: ClipboardCheck,
+  weight: Scale,
+  memory: Brain,
+};
+
+// Where records without an editor in the chat are shown
+const RECORD_PAGES: Partial<Record<ToolRecordType, string>> = {
+  weight: "/charts",
+  memory: "/profile",
+};
+
+/**
+ * The chip's text. A proposal's own message only held until the user
+ * decided on it.
+ */
+function describeExecution({ message, mealProposal }: ToolExecutionEntry) {
+  if (mealProposal?.status === "confirmed") {
+    return `Logged ${mealProposal.name} (${mealProposal.calories} calories)`;
+  }
+  if (mealProposal?.status === "confirming") {
+    return `Logging ${mealProposal.name}...`;
+  }
+  if (mealProposal?.status === "rejected") {
+    return `Didn't log ${mealProposal.name}`;
+  }
+  return message;
+}
+
+/**
+ * What the assistant logged or changed while replying, each linking to
+ * the record with an option to undo it
+ */
+const ToolExecutionLinks: React.FC<ToolExecutionLinksProps> = ({
+  executionIds,
+  onRecordChanged,
+}) => {
+  const [executions, setExecutions] = useState<ToolExecutionEntry[]>([]);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
+  const idsKey = executionIds.join(",");
+
+  useEffect(() => {
+    if (!idsKey) return;
+
+    let cancelled = false;
+    fetch(`/api/tool-executions?ids=${encodeURIComponent(idsKey)}`)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error("Failed to fetch tool executions");
+        }
+        return response.json();
+      })
+      .then((data) => {
+        if (!cancelled) setExecutions(data.executions || []);
+      })
+      .catch((error) =>
+        console.error("Error fetching tool executions:", error)
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey]);
+
+  const handleUndo = async (execution: ToolExecutionEntry) => {
+    setUndoingId(execution.id);
+    try {
+      const response = await fetch(
+        `/api/tool-executions/${execution.id}/undo`,
+        { method: "POST" }
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || "Failed to undo");
+      }
+
+      setExecutions((prev) =>
+        prev.map((other) =>
+          other.id === execution.id
+            ? { ...other, undone: true, canUndo: false, meal: null }
+            : other
+        )
+      );
+      toast.success("Undone");
+      onRecordChanged?.(execution.recordType);
+    } catch (error) {
+      console.error("Error undoing tool execution:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to undo");
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const openMeal = (meal: NonNullable<ToolExecutionEntry["meal"]>) => {
+    setEditingMeal({
+      id: meal.id,
+      userId: "",
+      name: meal.name,
+      mealType: meal.mealType,
+      calories: meal.calories,
+      protein: meal.protein,
+      carbs: meal.carbs,
+      fat: meal.fat,
+      items: meal.items,
+      estimatedMacros: meal.estimatedMacros,
+      date: new Date(meal.date),
+    });
+  };
+
+  const handleProposalResolved = (
+    execution: ToolExecutionEntry,
+    mealProposal: MealProposalData,
+    meal?: Meal
+  ) => {
+    setExecutions((prev) =>
+      prev.map((other) =>
+        other.id === execution.id
+          ? {
+              ...other,
+              mealProposal,
+              // Nothing is left to undo once a proposal is rejected
+              canUndo: other.canUndo && mealProposal.status === "confirmed",
+              meal: meal
+                ? {
+                    id: meal.id!,
+                    name: meal.name,
+                    mealType: meal.mealType || null,
+                    calories: meal.calories,
+                    protein: meal.protein ?? null,
+                    carbs: meal.carbs ?? null,
+                    fat: meal.fat ?? null,
+                    items: meal.items || [],
+                    estimatedMacros: meal.estimatedMacros || [],
+                    date: String(meal.date),
+                  }
+                : null,
+            }
+          : other
+      )
+    );
+    if (mealProposal.status === "confirmed") onRecordChanged?.("meal");
+  };
+
+  if (executions.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1 border-t border-gray-300 dark:border-gray-600 pt-2">
+      {executions.map((execution) => {
+        const Icon = RECORD_ICONS[execution.recordType];
+        const page = RECORD_PAGES[execution.recordType];
+        const label = (
+          <span
+            className={cn(
+              "truncate",
+              execution.undone && "line-through text-gray-500"
+            )}
+          >
+            {describeExecution(execution)}
+          </span>
+        );
+
+        // Pending proposals are shown as a card to confirm or reject
+        if (execution.mealProposal?.status === "pending" && !execution.undone) {
+          return (
+            <MealProposalCard
+              key={execution.id}
+              proposal={execution.mealProposal}
+              onResolved={(proposal, meal) =>
+                handleProposalResolved(execution, proposal, meal)
+              }
+            />
+          );
+        }
+
+        return (
+          <div key={execution.id} className="flex items-center gap-2 text-xs">
+            <Icon className="h-3 w-3 shrink-0 text-gray-500 dark:text-gray-400" />
+            {execution.meal ? (
+              <button
+                type="button"
+                className="min-w-0 flex text-left hover:underline"
+                onClick={() => openMeal(execution.meal!)}
+              >
+                {label}
+              </button>
+            ) : page && !execution.undone ? (
+              <Link href={page} className="min-w-0 flex hover:underline">
+                {label}
+              </Link>
+            ) : (
+              <span className="min-w-0 flex">{label}</span>
+            )}
+            {execution.undone ? (
+              <span className="ml-auto shrink-0 text-gray-500">Undone</span>
+            ) : (
+              execution.canUndo && (
+                <button
+                  type="button"
+                  className="ml-auto shrink-0 flex items-center text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                  onClick={() => handleUndo(execution)}
+                  disabled={undoingId === execution.id}
+                >
+                  <Undo2 className="h-3 w-3 mr-1" />
+                  Undo
+                </button>
+              )
+            )}
+          </div>
+        );
+      })}
+
+      <EditMealModal
+        open={!!editingMeal}
+        onOpenChange={(open) => !open && setEditingMeal(null)}
+        onMealUpdated={() => onRecordChanged?.("meal")}
+        meal={editingMeal}
+      />
+    </div>
+  );
+};
+
+export default ToolExecutionLinks;
@@ -9,9 +9,11 @@ import {
 } from "@/components/ui/dialog";
 import {
   addMessageToThread,
+  MEAL_TOOLS,
   PersonalityKey,
   runAssistant,
   transcribeAudio,
+  WEIGHT_TOOLS,
 } from "@/lib/assistantService";
 import { Message } from "@/types/chat";
 import { AudioLines, Mic, MicOff, PhoneOff } from "lucide-react";
@@ -138,39 +140,14 @@ const EnhancedVoiceChat: React.FC<EnhancedVoiceChatProps> = ({
       .padStart(2, "0")}`;
   };
 
-  // Handle tool calls from the assistant
-  const handleToolCall = useCallback(
-    async (toolName: string, toolArgs: any) => {
-      try {
-        if (toolName === "log_meal") {
-          onMealLogged?.();
-          return {
-            success: true,
-            message: `Logged ${toolArgs.meal_name} with ${toolArgs.calories} calories.`,
-          };
-        } else if (toolName === "log_weight") {
-          onWeightLogged?.();
-          return {
-            success: true,
-            message: `Logged weight: ${toolArgs.weight} lbs`,
-          };
-        } else if (toolName === "get_nutrition_info") {
-          return {
-            success: true,
-            message: "Nutrition info retrieved",
-            data: { calories: 300, protein: 25, carbs: 30, fat: 10 },
-          };
-        }
-        return {
-          success: false,
-          message: `Unknown tool: ${toolName}`,
-        };
-      } catch (err) {
-        console.error(`Error executing ${toolName}:`, err);
-        return {
-          success: false,
-          message: `Error executing ${toolName}`,
-        };
+  // Tools run on the server; refresh whatever they changed
+  const handleToolResult = useCallback(
+    (toolName: string, output: any) => {
+      if (!output?.success) return;
+      if (MEAL_TOOLS.includes(toolName)) {
+        onMealLogged?.();
+      } else if (WEIGHT_TOOLS.includes(toolName)) {
+        onWeightLogged?.();
       }
     },
     [onMealLogged, onWeightLogged]
@@ -367,7 +344,7 @@ const EnhancedVoiceChat: React.FC<EnhancedVoiceChatProps> = ({
           threadId,
           assistantId,
           aiPersonality,
-          handleToolCall
+          handleToolResult
         );
 
         if (assistantMessages && assistantMessages.length > 0) {
@@ -412,7 +389,7 @@ const EnhancedVoiceChat: React.FC<EnhancedVoiceChatProps> = ({
       threadId,
       assistantId,
       aiPersonality,
-      handleToolCall,
+      handleToolResult,
       isCallActive,
       onMessageReceived,
       speakText,
@@ -476,7 +453,7 @@ const EnhancedVoiceChat: React.FC<EnhancedVoiceChatProps> = ({
           threadId,
           assistantId,
           aiPersonality,
-          handleToolCall
+          handleToolResult
         );
 
         if (messages && messages.length > 0) {
@@ -517,7 +494,7 @@ const EnhancedVoiceChat: React.FC<EnhancedVoiceChatProps> = ({
     threadId,
     assistantId,
     aiPersonality,
-    handleToolCall,
+    handleToolResult,
     onMessageReceived,
     setupSpeechSynthesis,
     speakText,
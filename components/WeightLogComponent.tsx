@@ -1,4 +1,4 @@
-import { format, subDays } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { Edit, PlusCircle, Scale, Trash } from "lucide-react";
 import { useSession } from "next-auth/react";
 import { useEffect, useState } from "react";
@@ -38,7 +38,15 @@ import {
 import { Textarea } from "./ui/textarea";
 
 // Import event emitter for updates
+import { useTimeZone, useUnitPreferences } from "@/hooks/useUserPreferences";
 import eventEmitter from "@/lib/events";
+import { addDaysToKey, parseUserDate, toDateKey } from "@/lib/timezone";
+import {
+  formatWeight,
+  fromDisplayWeight,
+  toDisplayWeight,
+  weightUnitLabel,
+} from "@/lib/units";
 
 export interface WeightLog {
   id?: string;
@@ -65,6 +73,8 @@ const WeightLogComponent = ({
   currentWeight,
 }: WeightLogComponentProps) => {
   const { data: session } = useSession();
+  const units = useUnitPreferences();
+  const timeZone = useTimeZone();
   const [isLoading, setIsLoading] = useState(false);
   const [weightLogs, setWeightLogs] = useState<WeightLog[]>([]);
   const [showAddDialog, setShowAddDialog] = useState(false);
@@ -75,7 +85,7 @@ const WeightLogComponent = ({
 
   // Form state
   const [newWeight, setNewWeight] = useState("");
-  const [newDate, setNewDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [newDate, setNewDate] = useState(() => toDateKey(new Date()));
   const [newNote, setNewNote] = useState("");
 
   // When editing
@@ -169,15 +179,14 @@ const WeightLogComponent = ({
     };
   }, []);
 
-  // Generate date options for the last 7 days
+  // Generate date options for the last 7 days in the user's timezone
   const getDateOptions = () => {
     const options = [];
-    const today = new Date();
+    const today = toDateKey(new Date(), timeZone);
 
     for (let i = 0; i < 7; i++) {
-      const date = subDays(today, i);
-      const dateStr = format(date, "yyyy-MM-dd");
-      const displayDate = format(date, "EEE, MMM d");
+      const dateStr = addDaysToKey(today, -i);
+      const displayDate = format(parseISO(dateStr), "EEE, MMM d");
       options.push({
         value: dateStr,
         label: i === 0 ? `Today (${displayDate})` : displayDate,
@@ -208,7 +217,9 @@ const WeightLogComponent = ({
         },
         body: JSON.stringify({
           weight: parseFloat(newWeight),
-          date: new Date(newDate),
+          unit: units.weight,
+          // Plain day, resolved in the user's timezone by the API
+          date: newDate,
           note: newNote || undefined,
         }),
       });
@@ -230,7 +241,7 @@ const WeightLogComponent = ({
         setWeightLogs(updatedLogs);
         setShowAddDialog(false);
         setNewWeight("");
-        setNewDate(format(new Date(), "yyyy-MM-dd"));
+        setNewDate(toDateKey(new Date(), timeZone));
         setNewNote("");
 
         toast.success("Weight logged successfully");
@@ -257,6 +268,10 @@ const WeightLogComponent = ({
       return;
     }
 
+    // Only move the log when its day was changed, keeping its time otherwise
+    const dateChanged =
+      editDate !== toDateKey(new Date(currentLog.date), timeZone);
+
     setIsLoading(true);
     try {
       const response = await fetch(`/api/weight/${currentLog.id}`, {
@@ -266,7 +281,8 @@ const WeightLogComponent = ({
         },
         body: JSON.stringify({
           weight: parseFloat(editWeight),
-          date: new Date(editDate),
+          unit: units.weight,
+          date: dateChanged ? editDate : undefined,
           note: editNote || undefined,
         }),
       });
@@ -277,8 +293,10 @@ const WeightLogComponent = ({
           log.id === currentLog.id
             ? {
                 ...log,
-                weight: parseFloat(editWeight),
-                date: new Date(editDate),
+                weight: fromDisplayWeight(parseFloat(editWeight), units.weight),
+                date: dateChanged
+                  ? parseUserDate(editDate, timeZone)!
+                  : log.date,
                 note: editNote,
               }
             : log
@@ -353,8 +371,8 @@ const WeightLogComponent = ({
   // Open the edit dialog for a log
   const openEditDialog = (log: WeightLog) => {
     setCurrentLog(log);
-    setEditWeight(log.weight.toString());
-    setEditDate(format(new Date(log.date), "yyyy-MM-dd"));
+    setEditWeight(toDisplayWeight(log.weight, units.weight).toString());
+    setEditDate(toDateKey(new Date(log.date), timeZone));
     setEditNote(log.note || "");
     setShowEditDialog(true);
   };
@@ -397,8 +415,8 @@ const WeightLogComponent = ({
                 className="h-2"
               />
               <div className="flex justify-between text-xs text-gray-500 mt-1">
-                <span>Start: {startingWeight} lbs</span>
-                <span>Goal: {targetWeight} lbs</span>
+                <span>Start: {formatWeight(startingWeight, units.weight)}</span>
+                <span>Goal: {formatWeight(targetWeight, units.weight)}</span>
               </div>
               {weightChange !== 0 && (
                 <div className="text-sm mt-2 text-center">
@@ -408,7 +426,7 @@ const WeightLogComponent = ({
                     }
                   >
                     {formattedChange > 0 ? "▼" : "▲"}{" "}
-                    {Math.abs(formattedChange).toFixed(1)} lbs
+                    {formatWeight(Math.abs(formattedChange), units.weight)}
                   </span>{" "}
                   since starting weight
                 </div>
@@ -436,7 +454,9 @@ const WeightLogComponent = ({
                     <div className="flex items-center">
                       <Scale className="h-4 w-4 mr-2 text-blue-500" />
                       <div>
-                        <span className="font-medium">{log.weight} lbs</span>
+                        <span className="font-medium">
+                          {formatWeight(log.weight, units.weight)}
+                        </span>
                         <span className="text-xs text-gray-500 ml-2">
                           {formatDateForDisplay(log.date)}
                         </span>
@@ -487,7 +507,7 @@ const WeightLogComponent = ({
           <div className="grid gap-4 py-4">
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="weight" className="text-right">
-                Weight (lbs)
+                Weight ({weightUnitLabel(units.weight)})
               </Label>
               <Input
                 id="weight"
@@ -550,7 +570,7 @@ const WeightLogComponent = ({
           <div className="grid gap-4 py-4">
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="edit-weight" className="text-right">
-                Weight (lbs)
+                Weight ({weightUnitLabel(units.weight)})
               </Label>
               <Input
                 id="edit-weight"
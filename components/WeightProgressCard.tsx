@@ -1,5 +1,7 @@
 // components/WeightProgressCard.tsx
 import { Progress } from "@/components/ui/progress";
+import { useUnitPreferences } from "@/hooks/useUserPreferences";
+import { formatWeight, toDisplayWeight, weightUnitLabel } from "@/lib/units";
 import { ArrowDownIcon, CalendarIcon, TrendingDownIcon } from "lucide-react";
 import { useEffect, useState } from "react";
 
@@ -16,6 +18,8 @@ const WeightProgressCard: React.FC<WeightProgressCardProps> = ({
   startWeight,
   weightLogs = [],
 }) => {
+  const units = useUnitPreferences();
+  const unitLabel = weightUnitLabel(units.weight);
   const [progress, setProgress] = useState(0);
   const [projectedDate, setProjectedDate] = useState<Date | null>(null);
   const [weightLossRate, setWeightLossRate] = useState<number | null>(null);
@@ -120,7 +124,8 @@ const WeightProgressCard: React.FC<WeightProgressCardProps> = ({
         <div className="flex justify-between text-sm text-gray-500 dark:text-gray-400 mb-1">
           <span>Progress: {progress}%</span>
           <span>
-            {currentWeight} → {targetWeight} lbs
+            {formatWeight(currentWeight, units.weight)} →{" "}
+            {formatWeight(targetWeight, units.weight)}
           </span>
         </div>
         <Progress
@@ -137,7 +142,8 @@ const WeightProgressCard: React.FC<WeightProgressCardProps> = ({
             Current
           </div>
           <div className="text-lg font-medium">
-            {currentWeight} <span className="text-xs">lbs</span>
+            {toDisplayWeight(currentWeight, units.weight)}{" "}
+            <span className="text-xs">{unitLabel}</span>
           </div>
         </div>
         <div className="bg-white dark:bg-gray-750 p-2 rounded">
@@ -145,14 +151,16 @@ const WeightProgressCard: React.FC<WeightProgressCardProps> = ({
             Remaining
           </div>
           <div className="text-lg font-medium flex items-center">
-            {remaining.toFixed(1)} <span className="text-xs ml-1">lbs</span>
+            {toDisplayWeight(remaining, units.weight).toFixed(1)}{" "}
+            <span className="text-xs ml-1">{unitLabel}</span>
             <ArrowDownIcon className="h-3 w-3 ml-1 text-green-500" />
           </div>
         </div>
         <div className="bg-white dark:bg-gray-750 p-2 rounded">
           <div className="text-xs text-gray-500 dark:text-gray-400">Target</div>
           <div className="text-lg font-medium">
-            {targetWeight} <span className="text-xs">lbs</span>
+            {toDisplayWeight(targetWeight, units.weight)}{" "}
+            <span className="text-xs">{unitLabel}</span>
           </div>
         </div>
       </div>
@@ -164,7 +172,7 @@ const WeightProgressCard: React.FC<WeightProgressCardProps> = ({
             Lost so far
           </div>
           <div className="font-medium text-green-600 dark:text-green-400">
-            {totalLost.toFixed(1)} lbs
+            {toDisplayWeight(totalLost, units.weight).toFixed(1)} {unitLabel}
           </div>
         </div>
 
@@ -174,7 +182,8 @@ const WeightProgressCard: React.FC<WeightProgressCardProps> = ({
               Weekly rate
             </div>
             <div className="font-medium text-blue-600 dark:text-blue-400">
-              {weightLossRate.toFixed(1)} lbs/week
+              {toDisplayWeight(weightLossRate, units.weight).toFixed(1)}{" "}
+              {unitLabel}/week
             </div>
           </div>
         )}
@@ -1,12 +1,12 @@
 // hooks/useChatManager.ts - Enhanced version with better persistence
 import { PersonalityKey } from "@/lib/assistantService";
 import {
-  extractAndStoreAILearning,
   getLastActiveThreadId,
   getMessagesFromCache,
   saveMessagesToCache,
   updateSessionData,
 } from "@/lib/ChatHistoryManager";
+import eventEmitter from "@/lib/events";
 import { createOrUpdateUserProfile } from "@/lib/firebase/models/user";
 import { Message } from "@/types/chat";
 import { useCallback, useEffect, useRef, useState } from "react";
@@ -131,6 +131,9 @@ export const useChatManager = (userId?: string | null) => {
               setMessages(fetchedMessages);
               saveMessagesToCache(userProfile.threadId, fetchedMessages);
               updateSessionData(userProfile.threadId);
+              // The chat picks these up from the cache rather than
+              // starting over on a new thread
+              preservingSession.current = true;
               setIsInitializing(false);
               return;
             }
@@ -159,19 +162,22 @@ export const useChatManager = (userId?: string | null) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [userId, personality]);
 
-  // Create a new chat thread and get initial welcome message
+  // Create a new conversation and get initial welcome message
   const createNewChat = useCallback(
-    async (chatPersonality: PersonalityKey = "best-friend") => {
+    async (chatPersonality: PersonalityKey = "best-friend", title?: string) => {
       if (!userId) return;
 
       try {
-        // Call the initialize API endpoint
+        // Call the initialize API endpoint with the personality
         const response = await fetch("/api/assistant/initialize", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ personality: chatPersonality }),
+          body: JSON.stringify({
+            personality: chatPersonality,
+            title,
+          }),
         });
 
         if (!response.ok) {
@@ -197,6 +203,7 @@ export const useChatManager = (userId?: string | null) => {
           setMessages([welcomeMsg]);
           saveMessagesToCache(data.threadId, [welcomeMsg]);
           updateSessionData(data.threadId);
+          preservingSession.current = true;
         }
       } catch (error) {
         console.error("Error creating new chat:", error);
@@ -245,9 +252,6 @@ export const useChatManager = (userId?: string | null) => {
         saveMessagesToCache(threadId, updatedMessages);
         updateSessionData(threadId);
 
-        // Extract learning data from messages
-        extractAndStoreAILearning(threadId, updatedMessages);
-
         toast.success(
           `AI personality changed to ${newPersonality.replace("-", " ")}`
         );
@@ -268,12 +272,6 @@ export const useChatManager = (userId?: string | null) => {
       setMessages(updatedMessages);
       saveMessagesToCache(threadId, updatedMessages);
       updateSessionData(threadId);
-
-      // Extract learning data from messages after a certain threshold
-      // This ensures we don't do unnecessary processing for every message
-      if (updatedMessages.length % 5 === 0) {
-        extractAndStoreAILearning(threadId, updatedMessages);
-      }
     },
     [threadId, messages]
   );
@@ -282,15 +280,20 @@ export const useChatManager = (userId?: string | null) => {
   const clearChat = useCallback(async () => {
     if (!userId) return;
 
-    // First extract learning data before clearing
-    if (threadId && messages.length > 0) {
-      extractAndStoreAILearning(threadId, messages);
-    }
-
     // Create a new chat with the current personality
     await createNewChat(personality);
     toast.success("Chat history cleared");
-  }, [userId, personality, createNewChat, threadId, messages]);
+  }, [userId, personality, createNewChat]);
+
+  // Reload when another conversation is opened, e.g. from the menu
+  useEffect(() => {
+    return eventEmitter.on("conversation-changed", () => {
+      isInitializedRef.current = false;
+      preservingSession.current = false;
+      setMessages([]);
+      initializeChat();
+    });
+  }, [initializeChat]);
 
   // Initialize on mount or when userId changes
   useEffect(() => {
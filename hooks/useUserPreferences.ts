@@ -0,0 +1,89 @@
+// hooks/useUserPreferences.ts
+import eventEmitter from "@/lib/events";
+import { resolveTimeZone } from "@/lib/timezone";
+import {
+  DEFAULT_UNITS,
+  getUnitPreferences,
+  UnitPreferences,
+} from "@/lib/units";
+import { useEffect, useState } from "react";
+
+interface UserPreferences {
+  units: UnitPreferences;
+  timeZone: string;
+}
+
+// Shared across components so the profile is fetched once per page load
+let cachedPreferences: UserPreferences | null = null;
+let pendingRequest: Promise<UserPreferences> | null = null;
+
+function getDefaultPreferences(): UserPreferences {
+  return { units: DEFAULT_UNITS, timeZone: resolveTimeZone() };
+}
+
+async function fetchUserPreferences(): Promise<UserPreferences> {
+  if (!pendingRequest) {
+    pendingRequest = fetch("/api/user/profile")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((profile) => {
+        cachedPreferences = {
+          units: getUnitPreferences(profile?.units),
+          timeZone: resolveTimeZone(profile?.timezone),
+        };
+        return cachedPreferences;
+      })
+      .catch((error) => {
+        console.error("Error fetching user preferences:", error);
+        return getDefaultPreferences();
+      })
+      .finally(() => {
+        pendingRequest = null;
+      });
+  }
+  return pendingRequest;
+}
+
+/**
+ * The signed-in user's display preferences. Starts with the cached value
+ * (or the defaults) and refreshes when the preferences are saved.
+ */
+const useUserPreferences = (): UserPreferences => {
+  const [preferences, setPreferences] = useState<UserPreferences>(
+    () => cachedPreferences || getDefaultPreferences()
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = () => {
+      fetchUserPreferences().then((loaded) => {
+        if (isMounted) setPreferences(loaded);
+      });
+    };
+
+    if (!cachedPreferences) load();
+
+    const unsubscribe = eventEmitter.on("preferences-updated", () => {
+      cachedPreferences = null;
+      load();
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return preferences;
+};
+
+/**
+ * The signed-in user's unit preferences
+ */
+export const useUnitPreferences = (): UnitPreferences =>
+  useUserPreferences().units;
+
+/**
+ * The signed-in user's IANA timezone, falling back to the browser's
+ */
+export const useTimeZone = (): string => useUserPreferences().timeZone;
@@ -5,7 +5,6 @@ import { Message } from "@/types/chat";
 // Prefix for localStorage keys to avoid conflicts
 const MESSAGE_CACHE_KEY_PREFIX = "niblet_messages_";
 const SESSION_CACHE_KEY = "niblet_session_data";
-const ASSISTANT_LEARNING_KEY = "niblet_ai_learning_data";
 
 /**
  * Builds the localStorage key for a specific thread.
@@ -116,138 +115,16 @@ export const getLastActiveThreadId = (): string | null => {
 };
 
 /**
- * Extract learning data from messages and store it
- * This allows the AI to "remember" important information
- * even after the user logs out and messages are cleared
+ * Forget the last active thread, so the chat opens the profile's
+ * conversation next time it loads
  */
-export const extractAndStoreAILearning = (
-  threadId: string,
-  messages: Message[]
-): void => {
-  if (!threadId || !messages.length || typeof window === "undefined") return;
-
-  try {
-    // Extract key information from messages
-    // This is a simplified version - in a real app, you'd use
-    // more sophisticated extraction based on message content
-    const learningData = {
-      threadId,
-      messageCount: messages.length,
-      topicsDiscussed: extractTopics(messages),
-      userPreferences: extractPreferences(messages),
-      lastUpdated: new Date().toISOString(),
-    };
-
-    // Merge with existing learning data
-    const existingDataStr = localStorage.getItem(ASSISTANT_LEARNING_KEY);
-    let allLearningData = {};
-
-    if (existingDataStr) {
-      try {
-        allLearningData = JSON.parse(existingDataStr);
-      } catch (e) {
-        // Reset if corrupted
-        allLearningData = {};
-      }
-    }
-
-    // Store by thread ID
-    allLearningData = {
-      ...allLearningData,
-      [threadId]: learningData,
-    };
-
-    localStorage.setItem(
-      ASSISTANT_LEARNING_KEY,
-      JSON.stringify(allLearningData)
-    );
-  } catch (error) {
-    console.error("Error extracting learning data:", error);
-  }
-};
-
-/**
- * Extract topics from messages (simplified example)
- */
-const extractTopics = (messages: Message[]): string[] => {
-  const topics = new Set<string>();
-
-  // Simple keyword extraction (this would be more sophisticated in a real app)
-  const keywordMap: Record<string, string> = {
-    calorie: "nutrition",
-    protein: "nutrition",
-    carbs: "nutrition",
-    weight: "weight_management",
-    diet: "diet_preferences",
-    vegetarian: "diet_preferences",
-    vegan: "diet_preferences",
-    exercise: "fitness",
-    workout: "fitness",
-    run: "fitness",
-    stress: "mental_health",
-    sleep: "sleep",
-    water: "hydration",
-  };
-
-  messages.forEach((msg) => {
-    if (msg.role === "user") {
-      const content = msg.content.toLowerCase();
-
-      Object.entries(keywordMap).forEach(([keyword, topic]) => {
-        if (content.includes(keyword)) {
-          topics.add(topic);
-        }
-      });
-    }
-  });
-
-  return Array.from(topics);
-};
-
-/**
- * Extract user preferences from messages (simplified example)
- */
-const extractPreferences = (messages: Message[]): Record<string, string> => {
-  const preferences: Record<string, string> = {};
-
-  // Very simple preference extraction
-  // In a real app, this would be much more sophisticated
-  messages.forEach((msg) => {
-    if (msg.role === "user") {
-      const content = msg.content.toLowerCase();
-
-      // Look for explicit preferences
-      if (content.includes("i prefer") || content.includes("i like")) {
-        preferences["stated_preference"] = content;
-      }
-
-      // Look for dietary preferences
-      if (content.includes("vegetarian")) {
-        preferences["diet"] = "vegetarian";
-      } else if (content.includes("vegan")) {
-        preferences["diet"] = "vegan";
-      }
-    }
-  });
-
-  return preferences;
-};
-
-/**
- * Get AI learning data for a specific thread
- */
-export const getAILearningData = (threadId: string): any => {
-  if (!threadId || typeof window === "undefined") return null;
+export const clearSessionData = (): void => {
+  if (typeof window === "undefined") return;
 
   try {
-    const learningDataStr = localStorage.getItem(ASSISTANT_LEARNING_KEY);
-    if (!learningDataStr) return null;
-
-    const allLearningData = JSON.parse(learningDataStr);
-    return allLearningData[threadId] || null;
+    localStorage.removeItem(SESSION_CACHE_KEY);
   } catch (error) {
-    console.error("Error retrieving AI learning data:", error);
-    return null;
+    console.error("Error clearing session data:", error);
   }
 };
 
@@ -258,12 +135,6 @@ export const clearMessagesFromCache = (threadId: string): void => {
   if (!threadId || typeof window === "undefined") return;
 
   try {
-    // Before clearing, extract learning data
-    const messages = getMessagesFromCache(threadId);
-    if (messages && messages.length > 0) {
-      extractAndStoreAILearning(threadId, messages);
-    }
-
     localStorage.removeItem(getMessageCacheKey(threadId));
   } catch (error) {
     console.error(
@@ -276,7 +147,6 @@ export const clearMessagesFromCache = (threadId: string): void => {
 /**
  * Clears ALL chat message caches (for all threads) from localStorage.
  * Enhanced version that aggressively removes all chat-related data.
- * But preserves AI learning data.
  */
 export const clearAllMessagesCaches = (): void => {
   if (typeof window === "undefined") return;
@@ -285,9 +155,6 @@ export const clearAllMessagesCaches = (): void => {
     const beforeCount = localStorage.length;
     console.log(`Before clearing: ${beforeCount} items in localStorage`);
 
-    // First, extract learning data from all message caches
-    extractLearningFromAllThreads();
-
     // Define patterns for chat-related localStorage items
     const chatPatterns = [
       MESSAGE_CACHE_KEY_PREFIX,
@@ -298,15 +165,12 @@ export const clearAllMessagesCaches = (): void => {
       "chat",
     ];
 
-    // Get all keys to remove (except AI learning data)
+    // Get all keys to remove
     const keysToRemove: string[] = [];
     for (let i = 0; i < localStorage.length; i++) {
       const key = localStorage.key(i);
       if (!key) continue;
 
-      // Skip AI learning data
-      if (key === ASSISTANT_LEARNING_KEY) continue;
-
       // Check if key matches any pattern
       if (chatPatterns.some((pattern) => key.includes(pattern))) {
         keysToRemove.push(key);
@@ -340,31 +204,6 @@ export const clearAllMessagesCaches = (): void => {
   }
 };
 
-/**
- * Extract learning data from all thread message caches
- */
-const extractLearningFromAllThreads = (): void => {
-  if (typeof window === "undefined") return;
-
-  try {
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (!key || !key.startsWith(MESSAGE_CACHE_KEY_PREFIX)) continue;
-
-      // Extract thread ID from the key
-      const threadId = key.substring(MESSAGE_CACHE_KEY_PREFIX.length);
-
-      // Get messages and extract learning
-      const messages = getMessagesFromCache(threadId);
-      if (messages && messages.length > 0) {
-        extractAndStoreAILearning(threadId, messages);
-      }
-    }
-  } catch (error) {
-    console.error("Error extracting learning from threads:", error);
-  }
-};
-
 /**
  * A nuclear option to wipe ALL localStorage for the domain.
  * Use with caution as this will clear everything, not just chat data.
@@ -0,0 +1,242 @@
+// lib/assistantContext.ts
+// Per-run context for the assistant: who the user is, their targets and
+// what they've eaten today. It's sent as additional instructions on every
+// run so replies use the real numbers, and kept within a token budget so
+// it never crowds out the conversation. It also carries what the assistant
+// remembers about the user.
+import { getUserProfileById } from "./auth/authService";
+import { getCaloriesSummary } from "./firebase/models/meal";
+import { getMemoriesByUser, Memory } from "./firebase/models/memory";
+import type { UserProfile } from "./firebase/models/user";
+import { resolveTimeZone, toDateKey } from "./timezone";
+import {
+  formatEnergy,
+  formatWeight,
+  getUnitPreferences,
+  inchesToCm,
+  UnitPreferences,
+} from "./units";
+
+// Rough budget for the whole context, in tokens
+const MAX_CONTEXT_TOKENS = 600;
+// Longest list of preferences or allergies to include
+const MAX_LIST_ITEMS = 10;
+
+// Words too common to make a memory relevant to a message
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "that",
+  "this",
+  "have",
+  "has",
+  "had",
+  "was",
+  "are",
+  "you",
+  "your",
+  "what",
+  "when",
+  "how",
+  "did",
+  "can",
+  "about",
+  "from",
+  "just",
+]);
+
+const CONTEXT_HEADER =
+  "Context about the user for this reply. Use it for accurate, personal answers, but don't recite it unprompted:";
+
+/**
+ * Rough token count; about four characters per token for English text
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function formatList(items: string[]): string {
+  const shown = items.slice(0, MAX_LIST_ITEMS).join(", ");
+  const hidden = items.length - MAX_LIST_ITEMS;
+  return hidden > 0 ? `${shown} and ${hidden} more` : shown;
+}
+
+function formatHeight(inches: number, units: UnitPreferences): string {
+  if (units.height === "cm") return `${inchesToCm(inches)} cm`;
+  const feet = Math.floor(inches / 12);
+  return `${feet}'${Math.round(inches - feet * 12)}"`;
+}
+
+/**
+ * Lines describing the user, most important first
+ */
+function describeProfile(
+  profile: UserProfile,
+  consumed: { consumed: number; mealCount: number },
+  now: Date
+): string[] {
+  const units = getUnitPreferences(profile.units);
+  const timeZone = resolveTimeZone(profile.timezone);
+  const energy = (kcal: number) => formatEnergy(kcal, units.energy);
+  const lines: string[] = [];
+
+  const weekday = now.toLocaleDateString("en-US", {
+    timeZone,
+    weekday: "long",
+  });
+  const time = now.toLocaleTimeString("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  lines.push(
+    `Today is ${weekday}, ${toDateKey(now, timeZone)}, ${time} in ${timeZone}.`
+  );
+
+  const eaten = `Eaten today: ${energy(consumed.consumed)} across ${
+    consumed.mealCount
+  } meal${consumed.mealCount === 1 ? "" : "s"}.`;
+  lines.push(
+    profile.targetCalories
+      ? `${eaten} Daily target: ${energy(profile.targetCalories)}, so ${energy(
+          Math.max(profile.targetCalories - consumed.consumed, 0)
+        )} left${
+          consumed.consumed > profile.targetCalories
+            ? ` (${energy(consumed.consumed - profile.targetCalories)} over)`
+            : ""
+        }.`
+      : eaten
+  );
+
+  if (profile.allergies?.length) {
+    lines.push(
+      `Allergies: ${formatList(profile.allergies)}. Never suggest foods containing these.`
+    );
+  }
+
+  if (profile.dietaryPreferences?.length) {
+    lines.push(
+      `Dietary preferences: ${formatList(profile.dietaryPreferences)}.`
+    );
+  }
+
+  const macros = [
+    profile.targetProtein && `protein ${profile.targetProtein} g`,
+    profile.targetCarbs && `carbs ${profile.targetCarbs} g`,
+    profile.targetFat && `fat ${profile.targetFat} g`,
+  ].filter(Boolean);
+  if (macros.length) {
+    lines.push(`Daily macro targets: ${macros.join(", ")}.`);
+  }
+
+  if (profile.currentWeight || profile.targetWeight) {
+    const weights = [
+      profile.currentWeight &&
+        `current ${formatWeight(profile.currentWeight, units.weight)}`,
+      profile.targetWeight &&
+        `goal ${formatWeight(profile.targetWeight, units.weight)}`,
+    ].filter(Boolean);
+    lines.push(
+      `Weight: ${weights.join(", ")}${
+        profile.goalType ? ` (${profile.goalType})` : ""
+      }.`
+    );
+  }
+
+  const about = [
+    profile.name && `Name: ${profile.name}`,
+    profile.age && `age ${profile.age}`,
+    profile.gender,
+    profile.height && `height ${formatHeight(profile.height, units)}`,
+    profile.activityLevel && `activity level: ${profile.activityLevel}`,
+  ].filter(Boolean);
+  if (about.length) {
+    lines.push(`${about.join(", ")}.`);
+  }
+
+  lines.push(
+    `Use ${units.weight === "kg" ? "kg" : "lbs"} for weights and ${
+      units.energy === "kJ" ? "kJ" : "calories"
+    } for energy.`
+  );
+
+  return lines;
+}
+
+function getWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9']+/)
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Memory lines, most relevant first: allergies always lead, then memories
+ * sharing the most words with the user's latest message, then the newest
+ */
+function describeMemories(memories: Memory[], query?: string): string[] {
+  const queryWords = getWords(query || "");
+  const scored = memories.map((memory, index) => {
+    const overlap = Array.from(getWords(memory.content)).filter((word) =>
+      queryWords.has(word)
+    ).length;
+    return {
+      memory,
+      index,
+      score: (memory.category === "allergy" ? 100 : 0) + overlap,
+    };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(
+      ({ memory }) =>
+        `Remembered (${memory.category.replace("_", " ")}): ${memory.content}`
+    );
+}
+
+/**
+ * Keep lines in priority order while they fit the budget. A line that
+ * doesn't fit is skipped, so shorter, less important ones can still make it.
+ */
+function fitToBudget(
+  lines: string[],
+  maxTokens = MAX_CONTEXT_TOKENS
+): string[] {
+  let used = estimateTokens(CONTEXT_HEADER);
+  return lines.filter((line) => {
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > maxTokens) return false;
+    used += cost;
+    return true;
+  });
+}
+
+/**
+ * Additional instructions for a run, or undefined when the user has no
+ * profile yet (e.g. during onboarding). Memories are picked by relevance
+ * to the user's latest message.
+ */
+export async function buildRunContext(
+  userId: string,
+  latestMessage?: string,
+  now = new Date()
+): Promise<string | undefined> {
+  const profile = await getUserProfileById(userId);
+  if (!profile) return undefined;
+
+  const [consumed, memories] = await Promise.all([
+    getCaloriesSummary(userId, now, resolveTimeZone(profile.timezone)),
+    getMemoriesByUser(userId),
+  ]);
+  const lines = fitToBudget([
+    ...describeProfile(profile, consumed, now),
+    ...describeMemories(memories, latestMessage),
+  ]);
+
+  return [CONTEXT_HEADER, ...lines.map((line) => `- ${line}`)].join("\n");
+}
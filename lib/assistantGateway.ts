@@ -0,0 +1,495 @@
+// lib/assistantGateway.ts
+// Server-side access to the assistant's model provider. Only API routes
+// import this module, so API keys never reach the browser.
+import { buildRunContext } from "./assistantContext";
+import { ChatMessage, saveChatMessage } from "./firebase/models/chatMessage";
+import { touchConversation } from "./firebase/models/conversation";
+import {
+  acquireRunLock,
+  getRunLock,
+  releaseRunLock,
+  requestRunCancel,
+  setRunLockRunId,
+} from "./firebase/models/runLock";
+import { getLLMProvider } from "./llm";
+import { LLMMessage, LLMRunEndedError, LLMRunResult } from "./llm/types";
+import type { ToolExecution } from "./firebase/models/toolExecution";
+import { AssistantToolOutput, executeToolCall } from "./tools";
+
+export interface AssistantMessage {
+  id: string;
+  content: string;
+  createdAt: Date;
+}
+
+export interface AssistantToolResult {
+  id: string;
+  name: string;
+  output: AssistantToolOutput;
+}
+
+export interface AssistantRunResult {
+  // Assistant messages on the thread, oldest first
+  messages: AssistantMessage[];
+  // Tools executed during the run, in call order
+  toolResults: AssistantToolResult[];
+}
+
+export interface AssistantStreamResult extends LLMRunResult {
+  // Logged tool calls that created or changed a record, to link the reply
+  // to it
+  toolExecutionIds: string[];
+}
+
+export interface StreamThreadOptions {
+  temperature?: number;
+  // Aborting cancels the run
+  signal?: AbortSignal;
+  onRunStarted?: (runId: string) => void;
+  onText?: (delta: string) => void;
+  onToolCall?: (toolCall: {
+    id: string;
+    name: string;
+    arguments: Record<string, any>;
+  }) => void;
+  onToolResult?: (result: AssistantToolResult) => void;
+  // A failed run is being retried; text streamed so far is discarded
+  onRetry?: (attempt: number) => void;
+}
+
+/**
+ * Another run is still working on the thread
+ */
+export class ThreadBusyError extends Error {
+  constructor(threadId: string) {
+    super(`A run is already in progress on thread ${threadId}`);
+    this.name = "ThreadBusyError";
+  }
+}
+
+// Set-up prompts the app sends on the user's behalf, not part of the
+// conversation history
+const SYSTEM_PROMPT_PREFIX = "System:";
+
+// A run, retries included, is cancelled after this long
+const MAX_RUN_MS = 2 * 60 * 1000;
+// The lock outlasts the longest run, so one left by a crashed instance
+// frees itself soon after
+const RUN_LOCK_TTL_MS = MAX_RUN_MS + 30 * 1000;
+// Failed and expired runs are retried this many times, backing off from
+// RETRY_DELAY_MS
+const MAX_RUN_RETRIES = 2;
+const RETRY_DELAY_MS = 1000;
+// How often a run checks whether the user asked it to stop
+const CANCEL_POLL_MS = 2000;
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeoutId);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Distinct IDs of the records of one type that tool calls touched
+ */
+function recordIdsOfType(
+  executions: ToolExecution[],
+  type: ToolExecution["recordType"]
+): string[] {
+  return Array.from(
+    new Set(
+      executions
+        .filter((execution) => execution.recordType === type)
+        .map((execution) => execution.recordId!)
+    )
+  );
+}
+
+/**
+ * JSON with object keys in a fixed order, so equal tool arguments compare
+ * equal however the model ordered them
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return String(JSON.stringify(value));
+}
+
+/**
+ * Mirror a message into the user's history and mark its conversation as
+ * active. A failure is logged rather than thrown so it never loses the
+ * conversation itself.
+ */
+async function recordChatMessage(
+  message: Omit<ChatMessage, "id" | "createdAt">
+): Promise<void> {
+  try {
+    await Promise.all([
+      saveChatMessage(message),
+      touchConversation(message.threadId),
+    ]);
+  } catch (error) {
+    console.error("Error recording chat message:", error);
+  }
+}
+
+/**
+ * Create an empty conversation thread
+ */
+export async function createThread(): Promise<string> {
+  try {
+    return await getLLMProvider().createThread();
+  } catch (error) {
+    console.error("Error creating thread:", error);
+    throw new Error(
+      `Failed to create thread: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Delete a thread and its messages from the provider
+ */
+export async function deleteThread(threadId: string): Promise<void> {
+  try {
+    await getLLMProvider().deleteThread(threadId);
+  } catch (error) {
+    console.error("Error deleting thread:", error);
+    throw new Error(
+      `Failed to delete thread: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Add a user message, optionally with an image, to a thread and the
+ * user's history
+ */
+export async function addThreadMessage(
+  userId: string,
+  threadId: string,
+  content: string,
+  imageUrl?: string
+): Promise<void> {
+  // A message can't join a thread while a run is working on it
+  if (await getRunLock(threadId)) {
+    throw new ThreadBusyError(threadId);
+  }
+
+  try {
+    await getLLMProvider().addMessage(threadId, content, imageUrl);
+  } catch (error) {
+    console.error("Error adding message to thread:", error);
+    throw new Error(
+      `Failed to add message: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (!content.startsWith(SYSTEM_PROMPT_PREFIX)) {
+    await recordChatMessage({
+      userId,
+      threadId,
+      role: "user",
+      content,
+      imageUrl,
+    });
+  }
+}
+
+/**
+ * Messages on a thread, oldest first, or null when it doesn't exist
+ */
+export async function listThreadMessages(
+  threadId: string,
+  limit?: number
+): Promise<LLMMessage[] | null> {
+  try {
+    return await getLLMProvider().listMessages(threadId, {
+      limit,
+      order: "asc",
+    });
+  } catch (error) {
+    console.error("Error listing thread messages:", error);
+    throw new Error(
+      `Failed to list messages: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+async function getLatestUserMessage(
+  threadId: string
+): Promise<string | undefined> {
+  const [latest] =
+    (await getLLMProvider().listMessages(threadId, {
+      limit: 1,
+      order: "desc",
+    })) || [];
+  return latest?.role === "user" ? latest.content : undefined;
+}
+
+/**
+ * Run an assistant on a thread, executing its tool calls for the user and
+ * reporting progress through the callbacks as it goes. The thread is locked
+ * for the run, which is retried with backoff if it fails or expires and
+ * cancelled if it runs too long. The reply is added to the user's history
+ * with the meals and weights it touched.
+ */
+export async function streamThread(
+  userId: string,
+  threadId: string,
+  assistantId: string,
+  {
+    temperature,
+    signal,
+    onRunStarted,
+    onText,
+    onToolCall,
+    onToolResult,
+    onRetry,
+  }: StreamThreadOptions = {}
+): Promise<AssistantStreamResult> {
+  const lockId = await acquireRunLock(threadId, userId, RUN_LOCK_TTL_MS);
+  if (!lockId) {
+    throw new ThreadBusyError(threadId);
+  }
+
+  // Stop on the caller's signal, a cancel request or the deadline
+  const runAbort = new AbortController();
+  const abortRun = () => runAbort.abort();
+  signal?.addEventListener("abort", abortRun);
+  if (signal?.aborted) abortRun();
+
+  let timedOut = false;
+  const deadline = setTimeout(() => {
+    timedOut = true;
+    abortRun();
+  }, MAX_RUN_MS);
+  const cancelPoll = setInterval(() => {
+    getRunLock(threadId)
+      .then((lock) => lock?.cancelRequested && abortRun())
+      .catch((error) => console.error("Error checking run lock:", error));
+  }, CANCEL_POLL_MS);
+
+  try {
+    // The run goes ahead without the user's context if it can't be built
+    const additionalInstructions = await getLatestUserMessage(threadId)
+      .then((latestMessage) => buildRunContext(userId, latestMessage))
+      .catch((error) => {
+        console.error("Error building run context:", error);
+        return undefined;
+      });
+
+    // Tool calls that created or changed a record, across attempts
+    const recordExecutions = new Map<string, ToolExecution>();
+
+    // Successful tool calls from earlier attempts, by tool and arguments. A
+    // retried run asks for the same calls again and gets their results
+    // back, so a meal is never logged twice.
+    const previousExecutions = new Map<string, ToolExecution[]>();
+
+    for (let attempt = 0; ; attempt++) {
+      const attemptExecutions = new Map<string, ToolExecution[]>();
+      let runId: string | null = null;
+
+      try {
+        const result = await getLLMProvider().runThread(threadId, {
+          assistantId,
+          temperature,
+          additionalInstructions,
+          signal: runAbort.signal,
+          onRunStarted: (startedRunId) => {
+            runId = startedRunId;
+            setRunLockRunId(threadId, startedRunId).catch((error) =>
+              console.error("Error recording run:", error)
+            );
+            onRunStarted?.(startedRunId);
+          },
+          onText,
+          executeTool: async (toolCall) => {
+            const key = `${toolCall.name}:${canonicalJson(toolCall.arguments)}`;
+            const executions = attemptExecutions.get(key) || [];
+            attemptExecutions.set(key, executions);
+
+            const previous = previousExecutions.get(key)?.[executions.length];
+            if (previous) {
+              executions.push(previous);
+              return previous.result;
+            }
+
+            onToolCall?.(toolCall);
+            const execution = await executeToolCall(userId, toolCall, {
+              threadId,
+              runId,
+            });
+            if (execution.success) {
+              executions.push(execution);
+            }
+            if (execution.recordId) {
+              recordExecutions.set(execution.id!, execution);
+            }
+            onToolResult?.({
+              id: toolCall.id,
+              name: toolCall.name,
+              output: execution.result,
+            });
+            return execution.result;
+          },
+        });
+
+        const linked = Array.from(recordExecutions.values());
+        if (result.text) {
+          await recordChatMessage({
+            userId,
+            threadId,
+            role: "assistant",
+            content: result.text,
+            mealIds: recordIdsOfType(linked, "meal"),
+            weightIds: recordIdsOfType(linked, "weight"),
+            toolExecutionIds: linked.map((execution) => execution.id!),
+          });
+        }
+        return {
+          ...result,
+          toolExecutionIds: linked.map((execution) => execution.id!),
+        };
+      } catch (error) {
+        if (timedOut) {
+          throw new Error(`Run timed out after ${MAX_RUN_MS / 1000} seconds`);
+        }
+        if (
+          runAbort.signal.aborted ||
+          !(error instanceof LLMRunEndedError) ||
+          !error.retryable ||
+          attempt >= MAX_RUN_RETRIES
+        ) {
+          throw error;
+        }
+
+        console.warn(
+          `Run on thread ${threadId} ${error.status}, retrying:`,
+          error.message
+        );
+        attemptExecutions.forEach((executions, key) => {
+          if (executions.length > (previousExecutions.get(key)?.length || 0)) {
+            previousExecutions.set(key, executions);
+          }
+        });
+
+        await wait(RETRY_DELAY_MS * 2 ** attempt, runAbort.signal);
+        if (runAbort.signal.aborted) {
+          throw error;
+        }
+        onRetry?.(attempt + 1);
+      }
+    }
+  } finally {
+    clearTimeout(deadline);
+    clearInterval(cancelPoll);
+    signal?.removeEventListener("abort", abortRun);
+    await releaseRunLock(threadId, lockId).catch((error) =>
+      console.error("Error releasing run lock:", error)
+    );
+  }
+}
+
+/**
+ * Ask the run working on a thread to stop. Returns false when there's no
+ * run to stop.
+ */
+export async function cancelThreadRun(threadId: string): Promise<boolean> {
+  try {
+    const lock = await getRunLock(threadId);
+    if (!lock) return false;
+
+    await requestRunCancel(threadId);
+    if (lock.runId) {
+      await getLLMProvider().cancelRun(threadId, lock.runId);
+    }
+    return true;
+  } catch (error) {
+    console.error("Error cancelling run:", error);
+    throw new Error(
+      `Failed to cancel run: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Run an assistant on a thread until it finishes, returning the thread's
+ * assistant messages and the tools it ran
+ */
+export async function runThread(
+  userId: string,
+  threadId: string,
+  assistantId: string,
+  temperature?: number
+): Promise<AssistantRunResult> {
+  const toolResults: AssistantToolResult[] = [];
+  await streamThread(userId, threadId, assistantId, {
+    temperature,
+    onToolResult: (result) => toolResults.push(result),
+  });
+
+  const messages = await getLLMProvider().listMessages(threadId, {
+    order: "desc",
+  });
+  return {
+    messages: (messages || [])
+      .filter((msg) => msg.role === "assistant")
+      .map(({ id, content, createdAt }) => ({ id, content, createdAt }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+    toolResults,
+  };
+}
+
+/**
+ * Transcribe recorded audio
+ */
+export async function transcribeAudio(audio: Blob): Promise<string> {
+  try {
+    return await getLLMProvider().transcribe(audio);
+  } catch (error) {
+    console.error("Error transcribing audio:", error);
+    throw new Error(
+      `Failed to transcribe audio: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Whether the model provider is configured and reachable
+ */
+export async function checkAssistantAvailability(): Promise<boolean> {
+  try {
+    return await getLLMProvider().isAvailable();
+  } catch (error) {
+    console.error("Assistant availability check failed:", error);
+    return false;
+  }
+}
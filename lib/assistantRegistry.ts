@@ -0,0 +1,317 @@
+// lib/assistantRegistry.ts
+// Assistants are shared rather than created per session. The registry in
+// Firestore maps a personality and a hash of its configuration to the
+// provider's assistant, which is reused for as long as that configuration
+// is current.
+import { createHash } from "crypto";
+import {
+  AISettings,
+  DEFAULT_AI_SETTINGS,
+  getPersonalityInstructions,
+  getTemperatureForPersonality,
+} from "./configManager";
+import {
+  getStoredAISettings,
+  saveStoredAISettings,
+} from "./firebase/models/aiSettings";
+import {
+  AssistantRecord,
+  claimAssistantRecord,
+  deleteAssistantRecord,
+  getAssistantRecord,
+  getAssistantRecordId,
+  getAssistantRecords,
+  releaseAssistantRecordClaim,
+  saveAssistantRecord,
+  touchAssistantRecord,
+  touchAssistantRecordsFor,
+} from "./firebase/models/assistant";
+import { getConversationAssistantIds } from "./firebase/models/conversation";
+import { getProfileAssistantIds } from "./firebase/models/user";
+import { getLLMProvider } from "./llm";
+import type { LLMAssistantConfig } from "./llm/types";
+import { getToolDefinitions } from "./tools";
+
+export interface PersonalityConfig {
+  instructions: string;
+  temperature?: number;
+}
+
+// Unreferenced assistants used more recently than this are kept
+const ORPHAN_IDLE_DAYS = 30;
+
+// How long a request may take to create an assistant before others stop
+// waiting for it, and how often they check
+const CREATE_LEASE_MS = 30 * 1000;
+const CREATE_POLL_MS = 1000;
+
+/**
+ * The personalities as an admin last saved them, or the built-in ones
+ */
+export async function getServerAISettings(): Promise<AISettings> {
+  return (await getStoredAISettings()) || DEFAULT_AI_SETTINGS;
+}
+
+/**
+ * Whether a personality key is one of the configured personalities
+ */
+export async function isKnownPersonality(
+  personality: string
+): Promise<boolean> {
+  const { personalities } = await getServerAISettings();
+  return Object.prototype.hasOwnProperty.call(personalities, personality);
+}
+
+/**
+ * A personality's instructions and temperature as configured on the
+ * server. Unknown or inactive personalities get the default one's.
+ */
+export async function getPersonalityConfig(
+  personality: string
+): Promise<PersonalityConfig> {
+  const settings = await getServerAISettings();
+  return {
+    instructions: getPersonalityInstructions(personality, settings),
+    temperature: getTemperatureForPersonality(personality, settings),
+  };
+}
+
+function getAssistantConfig(
+  personality: string,
+  { instructions, temperature }: PersonalityConfig
+): LLMAssistantConfig {
+  return {
+    name: `Niblet (${personality})`,
+    instructions,
+    temperature,
+    tools: getToolDefinitions(),
+  };
+}
+
+/**
+ * Short stable hash of everything that shapes an assistant
+ */
+export function hashAssistantConfig(config: LLMAssistantConfig): string {
+  return createHash("sha256")
+    .update(JSON.stringify(config))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * The assistant for a personality's configuration, reusing the registered
+ * one when it still exists and creating and registering one otherwise.
+ * Parallel first requests wait for whichever claimed the record to create
+ * it.
+ */
+export async function getOrCreateAssistant(
+  personality: string,
+  personalityConfig: PersonalityConfig
+): Promise<string> {
+  const provider = getLLMProvider();
+  const config = getAssistantConfig(personality, personalityConfig);
+  const configHash = hashAssistantConfig(config);
+  const recordId = getAssistantRecordId(provider.name, personality, configHash);
+
+  const record = await getAssistantRecord(recordId);
+  if (
+    record?.assistantId &&
+    (await provider.assistantExists(record.assistantId))
+  ) {
+    await touchAssistantRecord(recordId);
+    return record.assistantId;
+  }
+
+  const staleAssistantId = record?.assistantId || null;
+  const deadline = Date.now() + CREATE_LEASE_MS + CREATE_POLL_MS;
+  while (Date.now() < deadline) {
+    const claim = await claimAssistantRecord(
+      recordId,
+      staleAssistantId,
+      CREATE_LEASE_MS
+    );
+    if (claim.status === "ready") {
+      return claim.assistantId;
+    }
+    if (claim.status === "pending") {
+      await new Promise((resolve) => setTimeout(resolve, CREATE_POLL_MS));
+      continue;
+    }
+
+    try {
+      const assistantId = await provider.createAssistant(config);
+      await saveAssistantRecord({
+        provider: provider.name,
+        personality,
+        configHash,
+        assistantId,
+        name: config.name,
+      });
+      return assistantId;
+    } catch (error) {
+      await releaseAssistantRecordClaim(recordId, claim.claimId);
+      throw error;
+    }
+  }
+
+  throw new Error(`Timed out waiting for the ${personality} assistant`);
+}
+
+/**
+ * The assistant a conversation keeps, marked as used so it isn't collected
+ * as an orphan. If the provider no longer has it, the personality's current
+ * assistant is returned instead.
+ */
+export async function getKeptAssistant(
+  assistantId: string,
+  personality: string,
+  personalityConfig: PersonalityConfig
+): Promise<string> {
+  if (!(await getLLMProvider().assistantExists(assistantId))) {
+    return getOrCreateAssistant(personality, personalityConfig);
+  }
+
+  await touchAssistantRecordsFor(assistantId);
+  return assistantId;
+}
+
+/**
+ * Apply an edited personality to the assistant registered for its previous
+ * configuration, so existing conversations pick up the change
+ */
+async function updatePersonalityAssistant(
+  personality: string,
+  previous: PersonalityConfig,
+  current: PersonalityConfig
+): Promise<string> {
+  const provider = getLLMProvider();
+  const previousHash = hashAssistantConfig(
+    getAssistantConfig(personality, previous)
+  );
+  const config = getAssistantConfig(personality, current);
+  const configHash = hashAssistantConfig(config);
+  if (previousHash === configHash) {
+    return getOrCreateAssistant(personality, current);
+  }
+
+  const previousId = getAssistantRecordId(
+    provider.name,
+    personality,
+    previousHash
+  );
+  const record = await getAssistantRecord(previousId);
+  if (
+    !record?.assistantId ||
+    !(await provider.assistantExists(record.assistantId))
+  ) {
+    return getOrCreateAssistant(personality, current);
+  }
+
+  await provider.updateAssistant(record.assistantId, config);
+
+  // Conversations started with the previous configuration keep using this
+  // assistant; register it for the new one too unless one already is
+  const currentId = getAssistantRecordId(
+    provider.name,
+    personality,
+    configHash
+  );
+  if (!(await getAssistantRecord(currentId))?.assistantId) {
+    await saveAssistantRecord({
+      provider: provider.name,
+      personality,
+      configHash,
+      assistantId: record.assistantId,
+      name: config.name,
+    });
+  }
+  return record.assistantId;
+}
+
+/**
+ * Save an admin's edits to the personalities, applying each edited one to
+ * its registered assistant first
+ */
+export async function saveAISettingsWithAssistants(
+  settings: AISettings
+): Promise<void> {
+  const previous = await getServerAISettings();
+
+  for (const personality of Object.keys(settings.personalities)) {
+    if (!previous.personalities[personality]) continue;
+
+    const previousConfig = {
+      instructions: getPersonalityInstructions(personality, previous),
+      temperature: getTemperatureForPersonality(personality, previous),
+    };
+    const currentConfig = {
+      instructions: getPersonalityInstructions(personality, settings),
+      temperature: getTemperatureForPersonality(personality, settings),
+    };
+    if (
+      previousConfig.instructions !== currentConfig.instructions ||
+      previousConfig.temperature !== currentConfig.temperature
+    ) {
+      await updatePersonalityAssistant(
+        personality,
+        previousConfig,
+        currentConfig
+      );
+    }
+  }
+
+  await saveStoredAISettings(settings);
+}
+
+/**
+ * Delete assistants no user profile or conversation points at and nobody
+ * has used for a while, along with their records. Returns how many were
+ * removed.
+ */
+export async function collectOrphanedAssistants(
+  maxIdleDays = ORPHAN_IDLE_DAYS
+): Promise<number> {
+  const provider = getLLMProvider();
+  const [records, profileAssistantIds, conversationAssistantIds] =
+    await Promise.all([
+      getAssistantRecords(provider.name),
+      getProfileAssistantIds(),
+      getConversationAssistantIds(),
+    ]);
+  const cutoff = Date.now() - maxIdleDays * 24 * 60 * 60 * 1000;
+
+  const isOrphan = (record: AssistantRecord) => {
+    const lastUsed = record.lastUsedAt?.toDate?.() as Date | undefined;
+    return (
+      !profileAssistantIds.has(record.assistantId) &&
+      !conversationAssistantIds.has(record.assistantId) &&
+      (!lastUsed || lastUsed.getTime() < cutoff)
+    );
+  };
+
+  // An assistant can be registered under several configurations; it is
+  // only removed once none of them is in use
+  const recordsByAssistant = new Map<string, AssistantRecord[]>();
+  records.forEach((record) => {
+    recordsByAssistant.set(record.assistantId, [
+      ...(recordsByAssistant.get(record.assistantId) || []),
+      record,
+    ]);
+  });
+
+  let removed = 0;
+  for (const [assistantId, assistantRecords] of recordsByAssistant) {
+    if (!assistantRecords.every(isOrphan)) continue;
+
+    try {
+      await provider.deleteAssistant(assistantId);
+      await Promise.all(
+        assistantRecords.map((record) => deleteAssistantRecord(record.id!))
+      );
+      removed++;
+    } catch (error) {
+      console.error(`Error removing assistant ${assistantId}:`, error);
+    }
+  }
+  return removed;
+}
@@ -1,15 +1,7 @@
 // lib/assistantService.ts
-import OpenAI from "openai";
-import {
-  getPersonalityInstructions,
-  getTemperatureForPersonality,
-} from "./configManager";
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.NEXT_PUBLIC_OPENAI_API_KEY || "",
-  dangerouslyAllowBrowser: true, // Only for client-side usage
-});
+// Client for the assistant API routes. OpenAI is only ever called from the
+// server, where tools also run for the signed-in user.
+import type { Message } from "@/types/chat";
 
 export type PersonalityKey =
   | "best-friend"
@@ -17,11 +9,54 @@ export type PersonalityKey =
   | "tough-love"
   | string;
 
-// Create a thread
-export async function createThread(): Promise<string | null> {
+// Called for each tool the assistant ran on the server during a run
+export interface ToolResultHandler {
+  (toolName: string, output: any): void;
+}
+
+// Tools that change the user's meals or weights when they succeed
+export const MEAL_TOOLS = [
+  "log_meal",
+  "log_saved_meal",
+  "update_meal",
+  "delete_meal",
+];
+export const WEIGHT_TOOLS = ["log_weight", "update_weight", "delete_weight"];
+
+// While the thread's previous reply is still running, a new message is
+// retried after each of these delays
+const BUSY_RETRY_DELAYS_MS = [500, 1000, 2000, 4000, 8000];
+
+async function postJson(url: string, body: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw Object.assign(
+      new Error(
+        data.error || data.message || `Request failed: ${response.status}`
+      ),
+      { status: response.status }
+    );
+  }
+  return data;
+}
+
+// Create a thread, to be run with the personality's assistant
+export async function createThread(
+  personality: PersonalityKey = "best-friend"
+): Promise<string | null> {
   try {
-    const thread = await openai.beta.threads.create();
-    return thread.id;
+    const { threadId } = await postJson("/api/assistant/threads", {
+      personality,
+    });
+    return threadId;
   } catch (error) {
     console.error("Error creating thread:", error);
     return null;
@@ -30,9 +65,13 @@ export async function createThread(): Promise<string | null> {
 
 export const checkOpenAIAvailability = async (): Promise<boolean> => {
   try {
-    // Simple lightweight request to check API connectivity
-    const models = await openai.models.list();
-    return models.data.length > 0;
+    const response = await fetch("/api/assistant/status");
+    // Signed-out visitors can't reach the assistant, so there's nothing to check
+    if (response.status === 401) return true;
+    if (!response.ok) return false;
+
+    const { available } = await response.json();
+    return available;
   } catch (error) {
     console.error("OpenAI API availability check failed:", error);
     return false;
@@ -44,141 +83,104 @@ export async function getOrCreateAssistant(
   personality: PersonalityKey = "best-friend"
 ): Promise<string | null> {
   try {
-    // Get instructions from config manager
-    const instructions = getPersonalityInstructions(personality);
-    const temperature = getTemperatureForPersonality(personality);
-
-    // Create a new assistant with the configured instructions and temperature
-    const assistant = await openai.beta.assistants.create({
-      name: `Niblet (${personality})`,
-      instructions: instructions,
-      model: "gpt-4o-mini", // Or your chosen model
-      temperature: temperature,
-      tools: [
-        {
-          type: "function",
-          function: {
-            name: "log_meal",
-            description:
-              "Log a meal with estimated calories and nutrition information",
-            parameters: {
-              type: "object",
-              properties: {
-                meal_name: {
-                  type: "string",
-                  description: "The name of the meal",
-                },
-                meal_type: {
-                  type: "string",
-                  description: "Type of meal (breakfast, lunch, dinner, snack)",
-                  enum: [
-                    "Breakfast",
-                    "Morning Snack",
-                    "Lunch",
-                    "Afternoon Snack",
-                    "Dinner",
-                    "Evening Snack",
-                    "Other",
-                  ],
-                },
-                calories: {
-                  type: "number",
-                  description: "Estimated calories",
-                },
-                protein: {
-                  type: "number",
-                  description: "Protein in grams",
-                },
-                carbs: {
-                  type: "number",
-                  description: "Carbohydrates in grams",
-                },
-                fat: {
-                  type: "number",
-                  description: "Fat in grams",
-                },
-                items: {
-                  type: "array",
-                  description: "List of food items in the meal",
-                  items: {
-                    type: "string",
-                  },
-                },
-              },
-              required: ["meal_name", "meal_type", "calories"],
-            },
-          },
-        },
-        {
-          type: "function",
-          function: {
-            name: "log_weight",
-            description: "Log the user's weight",
-            parameters: {
-              type: "object",
-              properties: {
-                weight: {
-                  type: "number",
-                  description: "The user's weight in pounds",
-                },
-                date: {
-                  type: "string",
-                  description:
-                    "The date of the weight measurement (YYYY-MM-DD format)",
-                  format: "date",
-                },
-              },
-              required: ["weight"],
-            },
-          },
-        },
-        // Add other tools as needed
-      ],
+    const { assistantId } = await postJson("/api/assistant/assistants", {
+      personality,
     });
-
-    return assistant.id;
+    return assistantId;
   } catch (error) {
     console.error("Error creating assistant:", error);
     return null;
   }
 }
 
-// Add a message to the thread
+// Add a message to the thread, waiting for a reply still running on it
+// to finish first
 export async function addMessageToThread(
   threadId: string,
   content: string,
   imageUrl?: string
 ): Promise<boolean> {
-  try {
-    const messageContent = [];
-
-    // Add text content
-    if (content) {
-      messageContent.push({
-        type: "text" as const,
-        text: content,
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await postJson("/api/assistant/messages", {
+        threadId,
+        content,
+        imageUrl,
       });
+      return true;
+    } catch (error) {
+      const isBusy = (error as { status?: number }).status === 409;
+      if (isBusy && attempt < BUSY_RETRY_DELAYS_MS.length) {
+        await new Promise((r) => setTimeout(r, BUSY_RETRY_DELAYS_MS[attempt]));
+        continue;
+      }
+      console.error("Error adding message to thread:", error);
+      return false;
     }
+  }
+}
 
-    // Add image content if provided
-    if (imageUrl) {
-      messageContent.push({
-        type: "image_url" as const,
-        image_url: {
-          url: imageUrl,
-        },
-      });
+// Stop the reply running on a thread, wherever it was started
+export async function cancelAssistantRun(threadId: string): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `/api/assistant/run?threadId=${encodeURIComponent(threadId)}`,
+      { method: "DELETE" }
+    );
+    if (!response.ok) {
+      throw new Error(`Request failed: ${response.status}`);
     }
+    const { cancelled } = await response.json();
+    return cancelled;
+  } catch (error) {
+    console.error("Error cancelling run:", error);
+    return false;
+  }
+}
 
-    await openai.beta.threads.messages.create(threadId, {
-      role: "user",
-      content: messageContent,
+export interface MessageHistoryPage {
+  // Oldest first
+  messages: Message[];
+  hasMore: boolean;
+  // Pass as `before` to load the page before this one
+  nextCursor: string | null;
+}
+
+// Load a page of a thread's history, as saved from every device. `before`
+// is a previous page's nextCursor or a timestamp; without it the newest
+// messages are returned.
+export async function fetchOlderMessages(
+  threadId: string,
+  before?: string,
+  limit = 20
+): Promise<MessageHistoryPage | null> {
+  try {
+    const params = new URLSearchParams({
+      history: "true",
+      threadId,
+      limit: String(limit),
     });
+    if (before) params.set("before", before);
 
-    return true;
+    const response = await fetch(`/api/assistant/messages?${params}`);
+    if (!response.ok) {
+      throw new Error(`Request failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      messages: (data.messages || []).map(
+        (msg: Omit<Message, "timestamp"> & { timestamp: string }) => ({
+          ...msg,
+          timestamp: new Date(msg.timestamp),
+        })
+      ),
+      hasMore: Boolean(data.hasMore),
+      nextCursor: data.nextCursor || null,
+    };
   } catch (error) {
-    console.error("Error adding message to thread:", error);
-    return false;
+    console.error("Error fetching older messages:", error);
+    return null;
   }
 }
 
@@ -186,19 +188,12 @@ export async function addMessageToThread(
 export async function transcribeAudio(audioBlob: Blob): Promise<string> {
   try {
     const formData = new FormData();
-    formData.append("file", audioBlob, "recording.webm");
-    formData.append("model", "whisper-1");
+    formData.append("audio", audioBlob, "recording.webm");
 
-    const response = await fetch(
-      "https://api.openai.com/v1/audio/transcriptions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${process.env.NEXT_PUBLIC_OPENAI_API_KEY}`,
-        },
-        body: formData,
-      }
-    );
+    const response = await fetch("/api/assistant", {
+      method: "PATCH",
+      body: formData,
+    });
 
     if (!response.ok) {
       throw new Error(`Error transcribing audio: ${response.statusText}`);
@@ -212,203 +207,144 @@ export async function transcribeAudio(audioBlob: Blob): Promise<string> {
   }
 }
 
-// Interface for handling tool calls
-interface ToolCallHandler {
-  (toolName: string, toolArgs: any): Promise<any>;
-}
-
-// Run the assistant and handle any tool calls
+// Run the assistant to completion. The server picks the thread's own
+// assistant and personality, so the ones passed here only describe what
+// the caller expects. Tools run on the server; onToolResult hears about
+// each one so the caller can refresh what it changed.
 export async function runAssistant(
   threadId: string,
   assistantId: string,
   personality: PersonalityKey,
-  toolCallHandler: ToolCallHandler
+  onToolResult?: ToolResultHandler
 ): Promise<Array<{ id: string; content: string; createdAt: Date }> | null> {
   try {
-    // Get temperature from config manager
-    const temperature = getTemperatureForPersonality(personality);
-
-    // Run the assistant
-    const run = await openai.beta.threads.runs.create(threadId, {
-      assistant_id: assistantId,
-      temperature: temperature,
+    const { messages, toolResults } = await postJson("/api/assistant/run", {
+      threadId,
     });
 
-    // Poll for completion
-    let runStatus = await openai.beta.threads.runs.retrieve(threadId, run.id);
-
-    // Wait for the run to complete (polling)
-    while (
-      !["completed", "failed", "cancelled", "expired"].includes(
-        runStatus.status
-      )
-    ) {
-      // Wait for 1 second
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // Check status again
-      runStatus = await openai.beta.threads.runs.retrieve(threadId, run.id);
-
-      // Handle function calls if needed
-      if (
-        runStatus.status === "requires_action" &&
-        runStatus.required_action?.submit_tool_outputs
-      ) {
-        const requiredActions =
-          runStatus.required_action.submit_tool_outputs.tool_calls;
-        const toolOutputs = [];
-
-        for (const action of requiredActions) {
-          const functionName = action.function.name;
-          const functionArgs = JSON.parse(action.function.arguments);
-
-          // Use the passed handler to process tool calls
-          const output = await toolCallHandler(functionName, functionArgs);
-
-          toolOutputs.push({
-            tool_call_id: action.id,
-            output: JSON.stringify(output),
-          });
-        }
-
-        // Submit tool outputs back to the assistant
-        await openai.beta.threads.runs.submitToolOutputs(threadId, run.id, {
-          tool_outputs: toolOutputs,
-        });
-      }
-    }
-
-    // Check if run completed successfully
-    if (runStatus.status !== "completed") {
-      throw new Error(`Run ended with status: ${runStatus.status}`);
-    }
-
-    // Get the messages after the run completes
-    const messages = await openai.beta.threads.messages.list(threadId);
+    toolResults?.forEach((result: { name: string; output: any }) =>
+      onToolResult?.(result.name, result.output)
+    );
 
-    // Process assistant messages
-    const assistantMessages = messages.data
-      .filter((msg) => msg.role === "assistant")
-      .map((msg) => ({
+    return (messages || []).map(
+      (msg: { id: string; content: string; createdAt: string }) => ({
         id: msg.id,
-        content:
-          msg.content[0]?.type === "text" ? msg.content[0].text.value : "",
-        createdAt: new Date(msg.created_at * 1000),
-      }))
-      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-
-    return assistantMessages;
+        content: msg.content,
+        createdAt: new Date(msg.createdAt),
+      })
+    );
   } catch (error) {
     console.error("Error running assistant:", error);
     return null;
   }
 }
 
-// Streaming version of runAssistant
+// Callbacks and cancellation for a streamed run
+export interface StreamingRunOptions {
+  signal?: AbortSignal;
+  onRunStarted?: (runId: string) => void;
+  onToolResult?: ToolResultHandler;
+}
+
+// Streaming version of runAssistant. Reads server-sent events from
+// /api/assistant/stream, where tools also run, and reports the reply text
+// as it grows. The final update lists the logged tool calls that changed
+// the user's records. Aborting the signal cancels the run and keeps the
+// text so far.
 export async function runAssistantStreaming(
   threadId: string,
   assistantId: string,
   personality: PersonalityKey,
-  onUpdate: (update: { text: string; isComplete: boolean }) => void,
-  toolCallHandler: ToolCallHandler
+  onUpdate: (update: {
+    text: string;
+    isComplete: boolean;
+    toolExecutionIds?: string[];
+  }) => void,
+  { signal, onRunStarted, onToolResult }: StreamingRunOptions = {}
 ): Promise<void> {
-  try {
-    // Get temperature from config manager
-    const temperature = getTemperatureForPersonality(personality);
+  let accumulatedText = "";
 
-    // Run the assistant
-    const run = await openai.beta.threads.runs.create(threadId, {
-      assistant_id: assistantId,
-      temperature: temperature,
+  try {
+    const response = await fetch("/api/assistant/stream", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ threadId }),
+      signal,
     });
 
-    // Variable to track the accumulated text
-    let accumulatedText = "";
-
-    // Poll for completion while providing updates
-    let runStatus = await openai.beta.threads.runs.retrieve(threadId, run.id);
-
-    // Function to fetch latest messages and update callback
-    const updateWithLatestMessages = async () => {
-      // Get the messages after the run completes
-      const messages = await openai.beta.threads.messages.list(threadId);
-
-      // Get the most recent assistant message
-      const latestMessage = messages.data
-        .filter((msg) => msg.role === "assistant")
-        .sort((a, b) => b.created_at - a.created_at)[0];
+    if (!response.ok || !response.body) {
+      throw new Error(`Stream request failed: ${response.status}`);
+    }
 
-      if (latestMessage && latestMessage.content[0]?.type === "text") {
-        const text = latestMessage.content[0].text.value;
-        if (text !== accumulatedText) {
-          accumulatedText = text;
-          onUpdate({ text, isComplete: false });
-        }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let isComplete = false;
+
+    // Events are separated by a blank line
+    const handleEvent = (rawEvent: string) => {
+      let eventName = "message";
+      let data = "";
+      rawEvent.split("\n").forEach((line) => {
+        if (line.startsWith("event:")) eventName = line.slice(6).trim();
+        if (line.startsWith("data:")) data += line.slice(5).trim();
+      });
+      const payload = data ? JSON.parse(data) : {};
+
+      switch (eventName) {
+        case "run":
+          onRunStarted?.(payload.runId);
+          break;
+        case "text":
+          accumulatedText += payload.delta;
+          onUpdate({ text: accumulatedText, isComplete: false });
+          break;
+        case "tool_result":
+          onToolResult?.(payload.name, payload.output);
+          break;
+        case "retry":
+          // The run failed and started over
+          accumulatedText = "";
+          onUpdate({ text: accumulatedText, isComplete: false });
+          break;
+        case "done":
+          isComplete = true;
+          onUpdate({
+            text: payload.text || accumulatedText,
+            isComplete: true,
+            toolExecutionIds: payload.toolExecutionIds || [],
+          });
+          break;
+        case "error":
+          throw new Error(payload.message || "Assistant stream error");
       }
     };
 
-    // Wait for the run to complete (polling)
-    while (
-      !["completed", "failed", "cancelled", "expired"].includes(
-        runStatus.status
-      )
-    ) {
-      // Periodically fetch the current state to simulate streaming
-      await updateWithLatestMessages();
-
-      // Wait for a short interval
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      // Check status again
-      runStatus = await openai.beta.threads.runs.retrieve(threadId, run.id);
-
-      // Handle function calls if needed
-      if (
-        runStatus.status === "requires_action" &&
-        runStatus.required_action?.submit_tool_outputs
-      ) {
-        const requiredActions =
-          runStatus.required_action.submit_tool_outputs.tool_calls;
-        const toolOutputs = [];
-
-        for (const action of requiredActions) {
-          const functionName = action.function.name;
-          const functionArgs = JSON.parse(action.function.arguments);
-
-          // Use the passed handler to process tool calls
-          const output = await toolCallHandler(functionName, functionArgs);
-
-          toolOutputs.push({
-            tool_call_id: action.id,
-            output: JSON.stringify(output),
-          });
-        }
+    while (!isComplete) {
+      const { done, value } = await reader.read();
+      if (done) break;
 
-        // Submit tool outputs back to the assistant
-        await openai.beta.threads.runs.submitToolOutputs(threadId, run.id, {
-          tool_outputs: toolOutputs,
-        });
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        handleEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
       }
     }
 
-    // Final update after completion
-    if (runStatus.status === "completed") {
-      // Get final message
-      const messages = await openai.beta.threads.messages.list(threadId);
-      const latestMessage = messages.data
-        .filter((msg) => msg.role === "assistant")
-        .sort((a, b) => b.created_at - a.created_at)[0];
-
-      if (latestMessage && latestMessage.content[0]?.type === "text") {
-        const finalText = latestMessage.content[0].text.value;
-        onUpdate({ text: finalText, isComplete: true });
-      } else {
-        onUpdate({ text: accumulatedText, isComplete: true });
-      }
-    } else {
-      throw new Error(`Run ended with status: ${runStatus.status}`);
+    if (!isComplete) {
+      throw new Error("Stream ended before the run completed");
     }
   } catch (error) {
+    // A cancelled reply keeps whatever had arrived
+    if (signal?.aborted) {
+      onUpdate({ text: accumulatedText, isComplete: true });
+      return;
+    }
+
     console.error("Error running assistant with streaming:", error);
     onUpdate({
       text: "I'm sorry, I experienced an error while processing your request. Please try again.",
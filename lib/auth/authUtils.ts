@@ -62,18 +62,8 @@ export const signInWithGoogle = async (
   }
 };
 
-/**
- * Extract and store AI learning data from chat histories before clearing them
- */
-const extractLearningDataBeforeClear = (): void => {
-  // Using the enhanced clearAllMessagesCaches function which now preserves learning data
-  console.log("Extracting AI learning data before clearing messages...");
-  // The logic is now contained in the clearAllMessagesCaches function
-};
-
 /**
  * Sign out from both Firebase and NextAuth, clearing localStorage chat caches.
- * This enhanced version ensures chat data is cleared but AI learning data is preserved.
  */
 export const signOutFromAll = async (): Promise<boolean> => {
   try {
@@ -81,21 +71,18 @@ export const signOutFromAll = async (): Promise<boolean> => {
 
     console.log("Starting comprehensive sign out process...");
 
-    // 1) Extract AI learning data from message caches before clearing
-    extractLearningDataBeforeClear();
-
-    // 2) Clear all chat message caches (preserving learning data)
+    // 1) Clear all chat message caches
     clearAllMessagesCaches();
 
-    // 3) Sign out from Firebase
+    // 2) Sign out from Firebase
     await auth.signOut();
     console.log("Signed out from Firebase");
 
-    // 4) Sign out from NextAuth with redirect
+    // 3) Sign out from NextAuth with redirect
     await nextAuthSignOut({ callbackUrl: "/" });
     console.log("Signed out from NextAuth");
 
-    // 5) As a fallback, reload the page if redirect doesn't happen
+    // 4) As a fallback, reload the page if redirect doesn't happen
     setTimeout(() => {
       window.location.href = "/";
     }, 500);
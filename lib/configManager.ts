@@ -25,7 +25,7 @@ export interface Notification {
 }
 
 // Default configurations
-const DEFAULT_AI_SETTINGS: AISettings = {
+export const DEFAULT_AI_SETTINGS: AISettings = {
   personalities: {
     "best-friend": {
       name: "Niblet (Best Friend)",
@@ -130,9 +130,9 @@ export function saveNotifications(notifications: Notification[]): boolean {
 
 // Get current personality instructions based on key
 export function getPersonalityInstructions(
-  personalityKey: PersonalityKey
+  personalityKey: PersonalityKey,
+  settings: AISettings = getAISettings()
 ): string {
-  const settings = getAISettings();
   const personality = settings.personalities[personalityKey];
 
   if (!personality || !personality.isActive) {
@@ -149,9 +149,9 @@ export function getPersonalityInstructions(
 
 // Get the temperature for a specific personality
 export function getTemperatureForPersonality(
-  personalityKey: PersonalityKey
+  personalityKey: PersonalityKey,
+  settings: AISettings = getAISettings()
 ): number {
-  const settings = getAISettings();
   const personality = settings.personalities[personalityKey];
 
   if (!personality || !personality.isActive) {
@@ -170,18 +170,23 @@ export function getDefaultPersonality(): PersonalityKey {
   return settings.defaultPersonality as PersonalityKey;
 }
 
-// Check if a notification should be triggered
-export function shouldTriggerNotification(notification: Notification): boolean {
+// Check if a notification should be triggered, using the given timezone
+// (the browser's by default) for the day and time
+export function shouldTriggerNotification(
+  notification: Notification,
+  timeZone?: string
+): boolean {
   if (!notification.isActive) return false;
 
   const now = new Date();
   const dayOfWeek = now
-    .toLocaleDateString("en-US", { weekday: "long" })
+    .toLocaleDateString("en-US", { weekday: "long", timeZone })
     .toLowerCase();
   const currentTime = now.toLocaleTimeString("en-US", {
     hour: "2-digit",
     minute: "2-digit",
-    hour12: false,
+    hourCycle: "h23",
+    timeZone,
   });
 
   // Check if notification should trigger based on day and time
@@ -192,9 +197,9 @@ export function shouldTriggerNotification(notification: Notification): boolean {
 }
 
 // Get all notifications that should trigger at the current time
-export function getCurrentNotifications(): Notification[] {
+export function getCurrentNotifications(timeZone?: string): Notification[] {
   const allNotifications = getNotifications();
   return allNotifications.filter((notification) =>
-    shouldTriggerNotification(notification)
+    shouldTriggerNotification(notification, timeZone)
   );
 }
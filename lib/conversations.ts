@@ -0,0 +1,145 @@
+// lib/conversations.ts
+// A user can keep several conversations, each a provider thread with its
+// own title and personality. They're recorded in Firestore, and the
+// profile's threadId and assistantId point at the one that's open.
+import { AssistantMessage, deleteThread, runThread } from "./assistantGateway";
+import { getOrCreateAssistant, PersonalityConfig } from "./assistantRegistry";
+import { getUserProfileById } from "./auth/authService";
+import { deleteChatMessagesByThread } from "./firebase/models/chatMessage";
+import {
+  Conversation,
+  createConversation,
+  DEFAULT_CONVERSATION_TITLE,
+  deleteConversation,
+  getConversationById,
+  getConversationsByUser,
+  updateConversation,
+} from "./firebase/models/conversation";
+import { createOrUpdateUserProfile } from "./firebase/models/user";
+import { startThread } from "./threadAccess";
+
+/**
+ * Make a conversation the one the user's chat opens
+ */
+export async function openConversation(
+  userId: string,
+  conversation: Conversation
+): Promise<void> {
+  await createOrUpdateUserProfile(userId, {
+    threadId: conversation.threadId,
+    assistantId: conversation.assistantId,
+    aiPersonality: conversation.personality,
+  });
+}
+
+/**
+ * Start a conversation on a new thread, open it and run the assistant for
+ * its welcome message
+ */
+export async function startConversation(
+  userId: string,
+  {
+    title = DEFAULT_CONVERSATION_TITLE,
+    personality,
+    config,
+  }: { title?: string; personality: string; config: PersonalityConfig }
+): Promise<{
+  conversation: Conversation;
+  welcomeMessage: AssistantMessage | null;
+}> {
+  const threadId = await startThread(userId, personality);
+  const assistantId = await getOrCreateAssistant(personality, config);
+
+  const conversation = await createConversation({
+    userId,
+    threadId,
+    assistantId,
+    title,
+    personality,
+  });
+  await openConversation(userId, conversation);
+
+  const { messages } = await runThread(
+    userId,
+    threadId,
+    assistantId,
+    config.temperature
+  );
+  return {
+    conversation,
+    welcomeMessage: messages[messages.length - 1] || null,
+  };
+}
+
+/**
+ * Record the profile's thread as a conversation if it predates them, so
+ * it shows up alongside the rest
+ */
+export async function ensureOpenConversationRecorded(
+  userId: string
+): Promise<void> {
+  const profile = await getUserProfileById(userId);
+  if (!profile?.threadId || !profile.assistantId) return;
+  if (await getConversationById(profile.threadId)) return;
+
+  await createConversation({
+    userId,
+    threadId: profile.threadId,
+    assistantId: profile.assistantId,
+    title: DEFAULT_CONVERSATION_TITLE,
+    personality: profile.aiPersonality || "best-friend",
+  });
+}
+
+/**
+ * If the conversation is the open one, open the most recent other
+ * conversation instead. With none left the profile no longer points at a
+ * thread, and the chat starts a new one.
+ */
+async function moveAwayFrom(
+  userId: string,
+  conversation: Conversation
+): Promise<void> {
+  const profile = await getUserProfileById(userId);
+  if (profile?.threadId !== conversation.threadId) return;
+
+  const [next] = (await getConversationsByUser(userId)).filter(
+    (other) => other.threadId !== conversation.threadId
+  );
+  if (next) {
+    await openConversation(userId, next);
+  } else {
+    await createOrUpdateUserProfile(userId, {
+      threadId: null,
+      assistantId: null,
+    });
+  }
+}
+
+/**
+ * Archive or restore a conversation. Archived conversations are hidden
+ * from the list but kept.
+ */
+export async function setConversationArchived(
+  userId: string,
+  conversation: Conversation,
+  archived: boolean
+): Promise<void> {
+  await updateConversation(conversation.threadId, { archived });
+  if (archived) {
+    await moveAwayFrom(userId, conversation);
+  }
+}
+
+/**
+ * Delete a conversation: its provider thread, its history and its record
+ */
+export async function removeConversation(
+  userId: string,
+  conversation: Conversation
+): Promise<void> {
+  await deleteThread(conversation.threadId);
+  await deleteChatMessagesByThread(userId, conversation.threadId);
+  await deleteConversation(conversation.threadId);
+  await moveAwayFrom(userId, conversation);
+}
@@ -3,7 +3,12 @@
  * A simple event emitter to handle real-time updates across components
  */
 type EventCallback = () => void;
-type EventType = "meal-updated" | "weight-updated" | "chart-refresh-needed";
+type EventType =
+  | "meal-updated"
+  | "weight-updated"
+  | "chart-refresh-needed"
+  | "preferences-updated"
+  | "conversation-changed";
 
 class EventEmitter {
   private listeners: Record<string, EventCallback[]> = {};
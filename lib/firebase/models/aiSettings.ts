@@ -0,0 +1,50 @@
+// lib/firebase/models/aiSettings.ts
+import { doc, getDoc, serverTimestamp, setDoc } from "firebase/firestore";
+import type { AISettings } from "../../configManager";
+import { db } from "../clientApp";
+
+/**
+ * Get the personalities as saved by an admin, or null before the first save
+ */
+export async function getStoredAISettings(): Promise<AISettings | null> {
+  try {
+    const settingsSnap = await getDoc(doc(db, "settings", "ai"));
+    if (!settingsSnap.exists()) {
+      return null;
+    }
+
+    const { personalities, defaultPersonality, generalInstructions } =
+      settingsSnap.data();
+    return { personalities, defaultPersonality, generalInstructions };
+  } catch (error) {
+    console.error("Error getting AI settings:", error);
+    throw new Error(
+      `Failed to get AI settings: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Replace the saved personalities
+ */
+export async function saveStoredAISettings(
+  settings: AISettings
+): Promise<void> {
+  try {
+    await setDoc(doc(db, "settings", "ai"), {
+      personalities: settings.personalities,
+      defaultPersonality: settings.defaultPersonality,
+      generalInstructions: settings.generalInstructions,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error saving AI settings:", error);
+    throw new Error(
+      `Failed to save AI settings: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
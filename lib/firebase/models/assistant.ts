@@ -0,0 +1,272 @@
+// lib/firebase/models/assistant.ts
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "../clientApp";
+
+/**
+ * An assistant created with a model provider. Records are keyed by the
+ * provider, personality and a hash of the assistant's configuration
+ * (instructions, temperature and tools), so sessions with the same
+ * configuration share one assistant.
+ */
+export interface AssistantRecord {
+  id?: string;
+  provider: string;
+  personality: string;
+  configHash: string;
+  assistantId: string;
+  name: string;
+  lastUsedAt?: any;
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+/**
+ * Document id of the record for a configuration
+ */
+export function getAssistantRecordId(
+  provider: string,
+  personality: string,
+  configHash: string
+): string {
+  return `${provider}_${personality}_${configHash}`;
+}
+
+/**
+ * Get the assistant record for a configuration
+ */
+export async function getAssistantRecord(
+  recordId: string
+): Promise<AssistantRecord | null> {
+  try {
+    const recordSnap = await getDoc(doc(db, "assistants", recordId));
+    if (!recordSnap.exists()) {
+      return null;
+    }
+
+    return {
+      id: recordSnap.id,
+      ...recordSnap.data(),
+    } as AssistantRecord;
+  } catch (error) {
+    console.error("Error getting assistant record:", error);
+    throw new Error(
+      `Failed to get assistant record: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Get every assistant record for a provider
+ */
+export async function getAssistantRecords(
+  provider: string
+): Promise<AssistantRecord[]> {
+  try {
+    const recordsSnap = await getDocs(
+      query(collection(db, "assistants"), where("provider", "==", provider))
+    );
+
+    return recordsSnap.docs.map(
+      (recordDoc) =>
+        ({
+          id: recordDoc.id,
+          ...recordDoc.data(),
+        }) as AssistantRecord
+    );
+  } catch (error) {
+    console.error("Error getting assistant records:", error);
+    throw new Error(
+      `Failed to get assistant records: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Create or replace the record for a configuration
+ */
+export async function saveAssistantRecord(
+  record: AssistantRecord
+): Promise<AssistantRecord> {
+  try {
+    const { id, createdAt, ...recordData } = record;
+    const recordId = getAssistantRecordId(
+      record.provider,
+      record.personality,
+      record.configHash
+    );
+    const now = serverTimestamp();
+
+    await setDoc(doc(db, "assistants", recordId), {
+      ...recordData,
+      lastUsedAt: now,
+      createdAt: createdAt || now,
+      updatedAt: now,
+    });
+
+    return { ...record, id: recordId };
+  } catch (error) {
+    console.error("Error saving assistant record:", error);
+    throw new Error(
+      `Failed to save assistant record: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * The outcome of claiming a record to create its assistant: another
+ * request already registered one, this request may create it, or another
+ * request is creating it right now
+ */
+export type AssistantRecordClaim =
+  | { status: "ready"; assistantId: string }
+  | { status: "claimed"; claimId: string }
+  | { status: "pending" };
+
+/**
+ * Claim the right to create a configuration's assistant, so parallel
+ * requests create only one. A record whose assistant is staleAssistantId
+ * (one the provider no longer has) can be claimed to replace it. The
+ * claim lapses after leaseMs in case its holder dies.
+ */
+export async function claimAssistantRecord(
+  recordId: string,
+  staleAssistantId: string | null,
+  leaseMs: number
+): Promise<AssistantRecordClaim> {
+  try {
+    const recordRef = doc(db, "assistants", recordId);
+    const claimId = crypto.randomUUID();
+
+    return await runTransaction(db, async (transaction) => {
+      const recordSnap = await transaction.get(recordRef);
+      const data = recordSnap.data();
+
+      if (data?.assistantId && data.assistantId !== staleAssistantId) {
+        return { status: "ready", assistantId: data.assistantId };
+      }
+      if (data?.claimExpiresAt && data.claimExpiresAt.toMillis() > Date.now()) {
+        return { status: "pending" };
+      }
+
+      // The record is rewritten in full once the assistant exists
+      transaction.set(recordRef, {
+        claimId,
+        claimExpiresAt: Timestamp.fromMillis(Date.now() + leaseMs),
+      });
+      return { status: "claimed", claimId };
+    });
+  } catch (error) {
+    console.error("Error claiming assistant record:", error);
+    throw new Error(
+      `Failed to claim assistant record: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Give up a claim that didn't lead to an assistant, so another request
+ * can try right away
+ */
+export async function releaseAssistantRecordClaim(
+  recordId: string,
+  claimId: string
+): Promise<void> {
+  try {
+    const recordRef = doc(db, "assistants", recordId);
+    const recordSnap = await getDoc(recordRef);
+    if (recordSnap.data()?.claimId !== claimId) return;
+
+    await deleteDoc(recordRef);
+  } catch (error) {
+    console.error("Error releasing assistant record claim:", error);
+    throw new Error(
+      `Failed to release assistant record claim: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Mark a record's assistant as used now
+ */
+export async function touchAssistantRecord(recordId: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, "assistants", recordId), {
+      lastUsedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error updating assistant record:", error);
+    throw new Error(
+      `Failed to update assistant record: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Mark every record of an assistant as used now, e.g. when a conversation
+ * that keeps it runs
+ */
+export async function touchAssistantRecordsFor(
+  assistantId: string
+): Promise<void> {
+  try {
+    const recordsSnap = await getDocs(
+      query(
+        collection(db, "assistants"),
+        where("assistantId", "==", assistantId)
+      )
+    );
+    await Promise.all(
+      recordsSnap.docs.map((recordDoc) =>
+        updateDoc(recordDoc.ref, { lastUsedAt: serverTimestamp() })
+      )
+    );
+  } catch (error) {
+    console.error("Error updating assistant records:", error);
+    throw new Error(
+      `Failed to update assistant records: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Remove a record. The provider's assistant is not deleted.
+ */
+export async function deleteAssistantRecord(recordId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, "assistants", recordId));
+  } catch (error) {
+    console.error("Error deleting assistant record:", error);
+    throw new Error(
+      `Failed to delete assistant record: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
@@ -0,0 +1,59 @@
+// lib/firebase/models/assistantThread.ts
+import { doc, getDoc, serverTimestamp, setDoc } from "firebase/firestore";
+import { db } from "../clientApp";
+
+/**
+ * Who a provider thread belongs to and the personality it was started
+ * with, stored under the thread ID so it's only ever used by its owner
+ */
+export interface AssistantThread {
+  id?: string;
+  userId: string;
+  personality: string;
+  createdAt?: any;
+}
+
+/**
+ * Record a newly created thread
+ */
+export async function saveAssistantThread(
+  threadId: string,
+  thread: Omit<AssistantThread, "id" | "createdAt">
+): Promise<void> {
+  try {
+    await setDoc(doc(db, "threads", threadId), {
+      ...thread,
+      createdAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error saving assistant thread:", error);
+    throw new Error(
+      `Failed to save assistant thread: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Get a thread's record by its ID
+ */
+export async function getAssistantThread(
+  threadId: string
+): Promise<AssistantThread | null> {
+  try {
+    const threadSnap = await getDoc(doc(db, "threads", threadId));
+    if (!threadSnap.exists()) {
+      return null;
+    }
+
+    return { id: threadSnap.id, ...threadSnap.data() } as AssistantThread;
+  } catch (error) {
+    console.error("Error getting assistant thread:", error);
+    throw new Error(
+      `Failed to get assistant thread: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
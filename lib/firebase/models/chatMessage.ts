@@ -0,0 +1,240 @@
+// lib/firebase/models/chatMessage.ts
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  documentId,
+  getDocs,
+  limit as firestoreLimit,
+  orderBy,
+  query,
+  QueryDocumentSnapshot,
+  serverTimestamp,
+  startAfter,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+import { db } from "../clientApp";
+
+/**
+ * A message in a user's conversation history. Every user and assistant
+ * message is mirrored here, so history outlives the provider's threads and
+ * is the same on every device.
+ */
+export interface ChatMessage {
+  id?: string;
+  userId: string;
+  threadId: string;
+  role: "user" | "assistant";
+  content: string;
+  imageUrl?: string | null;
+  // Meals and weights the assistant logged or changed while replying
+  mealIds?: string[];
+  weightIds?: string[];
+  // Logged tool calls behind those changes, to link to and undo
+  toolExecutionIds?: string[];
+  createdAt?: Date;
+}
+
+export interface ChatMessagePage {
+  // Oldest first
+  messages: ChatMessage[];
+  hasMore: boolean;
+  // Where the next (older) page starts, see encodeChatMessageCursor
+  nextCursor: string | null;
+}
+
+/**
+ * Position of a message in the newest-first history: its exact server
+ * time and its id, so messages sharing a millisecond aren't skipped and
+ * the cursor outlives the message being deleted
+ */
+export interface ChatMessageCursor {
+  createdAt: Timestamp;
+  id: string;
+}
+
+export const MAX_CHAT_MESSAGE_PAGE = 100;
+
+const toChatMessage = (doc: QueryDocumentSnapshot): ChatMessage => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    ...data,
+    // A message written moments ago may not have its server time yet
+    createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
+  } as ChatMessage;
+};
+
+/**
+ * Cursors are "<seconds>.<nanoseconds>|<message id>"
+ */
+export function encodeChatMessageCursor({
+  createdAt,
+  id,
+}: ChatMessageCursor): string {
+  return `${createdAt.seconds}.${createdAt.nanoseconds}|${id}`;
+}
+
+/**
+ * Read a cursor made by encodeChatMessageCursor, or null if it isn't one
+ */
+export function parseChatMessageCursor(
+  value: string
+): ChatMessageCursor | null {
+  const match = value.match(/^(\d+)\.(\d+)\|(.+)$/);
+  if (!match) return null;
+
+  const nanoseconds = Number(match[2]);
+  if (nanoseconds >= 1e9) return null;
+  return {
+    createdAt: new Timestamp(Number(match[1]), nanoseconds),
+    id: match[3],
+  };
+}
+
+/**
+ * Save a message to the user's history
+ */
+export async function saveChatMessage(
+  message: Omit<ChatMessage, "id" | "createdAt">
+): Promise<string> {
+  try {
+    const docRef = await addDoc(collection(db, "messages"), {
+      userId: message.userId,
+      threadId: message.threadId,
+      role: message.role,
+      content: message.content,
+      imageUrl: message.imageUrl || null,
+      mealIds: message.mealIds || [],
+      weightIds: message.weightIds || [],
+      toolExecutionIds: message.toolExecutionIds || [],
+      createdAt: serverTimestamp(),
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error("Error saving chat message:", error);
+    throw new Error(
+      `Failed to save chat message: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * A page of the user's history, or of one of their threads: the newest
+ * messages after `before` in the newest-first history - a previous page's
+ * cursor, or a time to load the messages sent before it - returned oldest
+ * first
+ */
+export async function getChatMessagesPage(
+  userId: string,
+  {
+    threadId,
+    before,
+    limit = 30,
+  }: {
+    threadId?: string;
+    before?: ChatMessageCursor | Date;
+    limit?: number;
+  } = {}
+): Promise<ChatMessagePage> {
+  try {
+    const pageSize = Math.min(Math.max(limit, 1), MAX_CHAT_MESSAGE_PAGE);
+    const constraints = [
+      where("userId", "==", userId),
+      // Uses the (userId, threadId, createdAt, __name__) index
+      ...(threadId ? [where("threadId", "==", threadId)] : []),
+      orderBy("createdAt", "desc"),
+      orderBy(documentId(), "desc"),
+      ...(before instanceof Date
+        ? [startAfter(Timestamp.fromDate(before))]
+        : before
+          ? [startAfter(before.createdAt, before.id)]
+          : []),
+      // One extra tells whether there's another page
+      firestoreLimit(pageSize + 1),
+    ];
+    const querySnapshot = await getDocs(
+      query(collection(db, "messages"), ...constraints)
+    );
+
+    const pageDocs = querySnapshot.docs.slice(0, pageSize);
+    const hasMore = querySnapshot.docs.length > pageSize;
+    const oldest = pageDocs[pageDocs.length - 1];
+
+    return {
+      messages: pageDocs.map(toChatMessage).reverse(),
+      hasMore,
+      nextCursor:
+        hasMore && oldest
+          ? encodeChatMessageCursor({
+              createdAt: oldest.data().createdAt,
+              id: oldest.id,
+            })
+          : null,
+    };
+  } catch (error) {
+    console.error("Error getting chat messages:", error);
+    throw new Error(
+      `Failed to get chat messages: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Delete the history of one of a user's threads
+ */
+export async function deleteChatMessagesByThread(
+  userId: string,
+  threadId: string
+): Promise<void> {
+  try {
+    const querySnapshot = await getDocs(
+      query(
+        collection(db, "messages"),
+        where("userId", "==", userId),
+        where("threadId", "==", threadId)
+      )
+    );
+    await Promise.all(querySnapshot.docs.map((doc) => deleteDoc(doc.ref)));
+  } catch (error) {
+    console.error("Error deleting chat messages:", error);
+    throw new Error(
+      `Failed to delete chat messages: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * A user's most recent messages, newest first
+ */
+export async function getRecentChatMessages(
+  userId: string,
+  max: number
+): Promise<ChatMessage[]> {
+  try {
+    const querySnapshot = await getDocs(
+      query(
+        collection(db, "messages"),
+        where("userId", "==", userId),
+        orderBy("createdAt", "desc"),
+        firestoreLimit(max)
+      )
+    );
+
+    return querySnapshot.docs.map(toChatMessage);
+  } catch (error) {
+    console.error("Error getting chat messages:", error);
+    throw new Error(
+      `Failed to get chat messages: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
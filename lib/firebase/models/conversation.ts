@@ -0,0 +1,216 @@
+// lib/firebase/models/conversation.ts
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "../clientApp";
+
+export const DEFAULT_CONVERSATION_TITLE = "New conversation";
+
+/**
+ * One of a user's conversations with the assistant, stored under its
+ * provider thread ID
+ */
+export interface Conversation {
+  id?: string;
+  userId: string;
+  threadId: string;
+  assistantId: string;
+  title: string;
+  personality: string;
+  archived: boolean;
+  createdAt?: any;
+  updatedAt?: any;
+  lastMessageAt?: any;
+}
+
+const toMillis = (value: any): number =>
+  value?.toMillis ? value.toMillis() : 0;
+
+/**
+ * Get a user's conversations, most recently active first
+ */
+export async function getConversationsByUser(
+  userId: string,
+  { includeArchived = false }: { includeArchived?: boolean } = {}
+): Promise<Conversation[]> {
+  try {
+    const q = query(
+      collection(db, "conversations"),
+      where("userId", "==", userId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const conversations = querySnapshot.docs
+      .map((doc) => ({ id: doc.id, ...doc.data() }) as Conversation)
+      .filter((conversation) => includeArchived || !conversation.archived);
+
+    // Sort in memory to avoid needing a composite index
+    return conversations.sort(
+      (a, b) =>
+        toMillis(b.lastMessageAt || b.createdAt) -
+        toMillis(a.lastMessageAt || a.createdAt)
+    );
+  } catch (error) {
+    console.error("Error getting conversations:", error);
+    throw new Error(
+      `Failed to get conversations: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Get a conversation by its thread ID
+ */
+export async function getConversationById(
+  threadId: string
+): Promise<Conversation | null> {
+  try {
+    const conversationSnap = await getDoc(doc(db, "conversations", threadId));
+
+    if (!conversationSnap.exists()) {
+      return null;
+    }
+
+    return {
+      id: conversationSnap.id,
+      ...conversationSnap.data(),
+    } as Conversation;
+  } catch (error) {
+    console.error("Error getting conversation:", error);
+    throw new Error(
+      `Failed to get conversation: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Record a conversation for a newly created thread
+ */
+export async function createConversation(
+  conversation: Omit<
+    Conversation,
+    "id" | "archived" | "createdAt" | "updatedAt" | "lastMessageAt"
+  >
+): Promise<Conversation> {
+  try {
+    const now = serverTimestamp();
+    const data = {
+      ...conversation,
+      title: conversation.title.trim() || DEFAULT_CONVERSATION_TITLE,
+      archived: false,
+    };
+    await setDoc(doc(db, "conversations", conversation.threadId), {
+      ...data,
+      createdAt: now,
+      updatedAt: now,
+      lastMessageAt: now,
+    });
+
+    return { id: conversation.threadId, ...data };
+  } catch (error) {
+    console.error("Error creating conversation:", error);
+    throw new Error(
+      `Failed to create conversation: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Update a conversation's title, personality, assistant or archived state
+ */
+export async function updateConversation(
+  threadId: string,
+  updates: Partial<
+    Pick<Conversation, "title" | "personality" | "assistantId" | "archived">
+  >
+): Promise<void> {
+  try {
+    // Firestore rejects undefined values
+    const changes = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+    await updateDoc(doc(db, "conversations", threadId), {
+      ...changes,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error updating conversation:", error);
+    throw new Error(
+      `Failed to update conversation: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Mark a conversation as just used, if the thread has one
+ */
+export async function touchConversation(threadId: string): Promise<void> {
+  try {
+    const conversationRef = doc(db, "conversations", threadId);
+    if (!(await getDoc(conversationRef)).exists()) return;
+
+    await updateDoc(conversationRef, { lastMessageAt: serverTimestamp() });
+  } catch (error) {
+    console.error("Error touching conversation:", error);
+    throw new Error(
+      `Failed to touch conversation: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Delete a conversation's record
+ */
+export async function deleteConversation(threadId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, "conversations", threadId));
+  } catch (error) {
+    console.error("Error deleting conversation:", error);
+    throw new Error(
+      `Failed to delete conversation: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Ids of the assistants any conversation keeps, open or not
+ */
+export async function getConversationAssistantIds(): Promise<Set<string>> {
+  try {
+    const querySnapshot = await getDocs(collection(db, "conversations"));
+    const assistantIds = new Set<string>();
+    querySnapshot.forEach((doc) => {
+      const { assistantId } = doc.data();
+      if (assistantId) assistantIds.add(assistantId);
+    });
+    return assistantIds;
+  } catch (error) {
+    console.error("Error getting conversation assistants:", error);
+    throw new Error(
+      `Failed to get conversation assistants: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
@@ -4,15 +4,41 @@ import {
   collection,
   deleteDoc,
   doc,
+  documentId,
   getDoc,
   getDocs,
+  limit,
+  orderBy,
   query,
   serverTimestamp,
+  startAfter,
   Timestamp,
   updateDoc,
   where,
 } from "firebase/firestore";
+import {
+  hasItemNutrition,
+  normalizeMealItems,
+  sumMealItems,
+} from "@/lib/mealItems";
+import { getDayRange } from "@/lib/timezone";
 import { db } from "../clientApp";
+import { getUserTimeZone } from "./user";
+
+export interface MealItem {
+  name: string;
+  quantity: number;
+  // "g", "cup", "serving", ... - see lib/nutrition/servingSize.ts
+  unit: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  // Id in the local food database, when the item came from a lookup
+  foodId?: string | null;
+}
+
+export type MacroKey = "protein" | "carbs" | "fat";
 
 export interface Meal {
   id?: string;
@@ -23,7 +49,10 @@ export interface Meal {
   carbs?: number | null;
   fat?: number | null;
   mealType?: string | null;
-  items?: string[];
+  // Totals are derived from items when the items carry nutrition
+  items?: MealItem[];
+  // Macros filled in from a typical split rather than given or looked up
+  estimatedMacros?: MacroKey[];
   date: Date | Timestamp;
   createdAt?: any;
   updatedAt?: any;
@@ -37,8 +66,15 @@ export async function createMeal(mealData: Omit<Meal, "id">): Promise<Meal> {
     const mealsCollectionRef = collection(db, "meals");
 
     const now = serverTimestamp();
+    const items = normalizeMealItems(mealData.items);
+    // Itemized meals take their totals from the items
+    const itemTotals = hasItemNutrition(items) ? sumMealItems(items) : {};
+    const estimatedMacros = hasItemNutrition(items)
+      ? []
+      : mealData.estimatedMacros || [];
     const mealToCreate = {
       ...mealData,
+      items,
       // Ensure we have valid numeric values
       calories:
         typeof mealData.calories === "string"
@@ -47,6 +83,8 @@ export async function createMeal(mealData: Omit<Meal, "id">): Promise<Meal> {
       protein: mealData.protein ?? null,
       carbs: mealData.carbs ?? null,
       fat: mealData.fat ?? null,
+      ...itemTotals,
+      estimatedMacros,
       // Ensure we have a valid date object
       date: mealData.date instanceof Date ? mealData.date : new Date(),
       createdAt: now,
@@ -57,6 +95,9 @@ export async function createMeal(mealData: Omit<Meal, "id">): Promise<Meal> {
 
     return {
       ...mealData,
+      ...itemTotals,
+      items,
+      estimatedMacros,
       id: docRef.id,
     };
   } catch (error) {
@@ -70,60 +111,141 @@ export async function createMeal(mealData: Omit<Meal, "id">): Promise<Meal> {
 }
 
 /**
- * Get meals by user and optional date - Simplified to avoid complex queries
+ * Get a user's meals between two dates (inclusive), newest first.
+ * Uses the (userId, date, __name__) index so only the range is read, and
+ * orders meals sharing a date the same way as getMealsPageByUserAndRange.
  */
-export async function getMealsByUserAndDate(
+export async function getMealsByUserAndRange(
   userId: string,
-  date?: Date
+  from: Date,
+  to: Date
 ): Promise<Meal[]> {
   try {
     const mealsCollectionRef = collection(db, "meals");
-
-    // IMPORTANT: Use a simple query that doesn't require complex indexes
-    // Just query by userId and handle date filtering in memory
-    const q = query(mealsCollectionRef, where("userId", "==", userId));
+    const q = query(
+      mealsCollectionRef,
+      where("userId", "==", userId),
+      where("date", ">=", from),
+      where("date", "<=", to),
+      orderBy("date", "desc"),
+      orderBy(documentId(), "desc")
+    );
 
     const querySnapshot = await getDocs(q);
 
     const meals: Meal[] = [];
     querySnapshot.forEach((doc) => {
       const data = doc.data();
-      // Convert Firebase Timestamp to JavaScript Date
-      const mealDate = data.date?.toDate
-        ? data.date.toDate()
-        : new Date(data.date);
-
-      // Filter by date in memory if date parameter is provided
-      if (date) {
-        const startOfDay = new Date(date);
-        startOfDay.setHours(0, 0, 0, 0);
-
-        const endOfDay = new Date(date);
-        endOfDay.setHours(23, 59, 59, 999);
-
-        // Only include meals from the specified date
-        if (mealDate >= startOfDay && mealDate <= endOfDay) {
-          meals.push({
-            id: doc.id,
-            ...data,
-            date: mealDate,
-          } as Meal);
-        }
-      } else {
-        // Include all meals if no date filter
-        meals.push({
-          id: doc.id,
-          ...data,
-          date: mealDate,
-        } as Meal);
-      }
+      meals.push({
+        id: doc.id,
+        ...data,
+        items: normalizeMealItems(data.items),
+        // Convert Firebase Timestamp to JavaScript Date
+        date: data.date?.toDate ? data.date.toDate() : new Date(data.date),
+      } as Meal);
+    });
+
+    return meals;
+  } catch (error) {
+    console.error("Error getting meals in range:", error);
+    throw new Error(
+      `Failed to get meals: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Position of a meal in a newest-first listing: meals sharing a date are
+ * ordered by id, so the pair stays valid even if that meal is deleted
+ */
+export interface MealCursor {
+  date: Date;
+  id: string;
+}
+
+/**
+ * Get one page of a user's meals between two dates (inclusive), newest
+ * first, starting after `after`. Only the page (plus one meal, to tell
+ * whether there are more) is read, using the (userId, date, __name__)
+ * index declared in firestore.indexes.json.
+ */
+export async function getMealsPageByUserAndRange(
+  userId: string,
+  from: Date,
+  to: Date,
+  pageSize: number,
+  after?: MealCursor
+): Promise<{ meals: Meal[]; hasMore: boolean }> {
+  try {
+    const constraints = [
+      where("userId", "==", userId),
+      where("date", ">=", from),
+      where("date", "<=", to),
+      orderBy("date", "desc"),
+      orderBy(documentId(), "desc"),
+      ...(after ? [startAfter(after.date, after.id)] : []),
+      limit(pageSize + 1),
+    ];
+    const querySnapshot = await getDocs(
+      query(collection(db, "meals"), ...constraints)
+    );
+
+    const meals = querySnapshot.docs.slice(0, pageSize).map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        items: normalizeMealItems(data.items),
+        date: data.date?.toDate ? data.date.toDate() : new Date(data.date),
+      } as Meal;
     });
 
-    // Sort meals by date manually (most recent first)
-    return meals.sort((a, b) => {
-      const dateA = a.date instanceof Date ? a.date : new Date(a.date as any);
-      const dateB = b.date instanceof Date ? b.date : new Date(b.date as any);
-      return dateB.getTime() - dateA.getTime();
+    return { meals, hasMore: querySnapshot.docs.length > pageSize };
+  } catch (error) {
+    console.error("Error getting meals page:", error);
+    throw new Error(
+      `Failed to get meals: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Get meals by user and optional date (defaults to all meals, newest first).
+ * The day is taken in the given timezone, or the user's saved one.
+ */
+export async function getMealsByUserAndDate(
+  userId: string,
+  date?: Date,
+  timeZone?: string
+): Promise<Meal[]> {
+  try {
+    if (date) {
+      const { start, end } = getDayRange(
+        date,
+        timeZone || (await getUserTimeZone(userId))
+      );
+      return await getMealsByUserAndRange(userId, start, end);
+    }
+
+    const q = query(
+      collection(db, "meals"),
+      where("userId", "==", userId),
+      orderBy("date", "desc")
+    );
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        items: normalizeMealItems(data.items),
+        date: data.date?.toDate ? data.date.toDate() : new Date(data.date),
+      } as Meal;
     });
   } catch (error) {
     console.error("Error getting meals:", error);
@@ -148,6 +270,7 @@ export async function getMealById(id: string): Promise<Meal | null> {
     return {
       id: mealSnap.id,
       ...data,
+      items: normalizeMealItems(data.items),
       date: data.date?.toDate ? data.date.toDate() : data.date,
     } as Meal;
   } catch (error) {
@@ -225,6 +348,25 @@ export async function updateMeal(
           : updateData.fat;
     }
 
+    // Re-derive totals when the items change
+    if (updateData.items !== undefined) {
+      formattedUpdates.items = normalizeMealItems(updateData.items);
+      if (hasItemNutrition(formattedUpdates.items)) {
+        Object.assign(formattedUpdates, sumMealItems(formattedUpdates.items));
+      }
+    }
+
+    // A macro that's been changed is no longer an estimate
+    const current = mealSnap.data();
+    const estimatedMacros: MacroKey[] = current.estimatedMacros || [];
+    if (estimatedMacros.length > 0) {
+      formattedUpdates.estimatedMacros = estimatedMacros.filter(
+        (macro) =>
+          formattedUpdates[macro] === undefined ||
+          formattedUpdates[macro] === current[macro]
+      );
+    }
+
     // Add server timestamp for updatedAt
     formattedUpdates.updatedAt = serverTimestamp();
 
@@ -270,11 +412,12 @@ export async function deleteMeal(id: string): Promise<void> {
  */
 export async function getCaloriesSummary(
   userId: string,
-  date?: Date
+  date?: Date,
+  timeZone?: string
 ): Promise<{ consumed: number; mealCount: number }> {
   try {
     // Get all meals for the user on the given date
-    const meals = await getMealsByUserAndDate(userId, date);
+    const meals = await getMealsByUserAndDate(userId, date, timeZone);
 
     // Calculate total calories
     const consumed = meals.reduce(
@@ -0,0 +1,168 @@
+// lib/firebase/models/mealProposal.ts
+import {
+  addDoc,
+  collection,
+  doc,
+  DocumentData,
+  getDoc,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "../clientApp";
+import type { MacroKey, MealItem } from "./meal";
+
+// "confirming" while its meal is being logged
+export type MealProposalStatus =
+  "pending" | "confirming" | "confirmed" | "rejected";
+
+/**
+ * A meal the assistant estimated, waiting for the user to confirm, change
+ * or reject it before it's logged
+ */
+export interface MealProposal {
+  id?: string;
+  userId: string;
+  name: string;
+  mealType: string | null;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  items: MealItem[];
+  // Macros the assistant didn't give, filled in from a typical split
+  estimatedMacros: MacroKey[];
+  date: Date;
+  status: MealProposalStatus;
+  // The meal logged when it was confirmed
+  mealId: string | null;
+  createdAt?: Date;
+  resolvedAt?: Date | null;
+}
+
+/**
+ * Save a proposal, pending the user's decision
+ */
+export async function createMealProposal(
+  proposal: Omit<
+    MealProposal,
+    "id" | "status" | "mealId" | "createdAt" | "resolvedAt"
+  >
+): Promise<MealProposal> {
+  try {
+    const docRef = await addDoc(collection(db, "mealProposals"), {
+      ...proposal,
+      status: "pending",
+      mealId: null,
+      createdAt: serverTimestamp(),
+      resolvedAt: null,
+    });
+    return { ...proposal, id: docRef.id, status: "pending", mealId: null };
+  } catch (error) {
+    console.error("Error creating meal proposal:", error);
+    throw new Error(
+      `Failed to create meal proposal: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+const toMealProposal = (id: string, data: DocumentData): MealProposal =>
+  ({
+    id,
+    ...data,
+    date: data.date?.toDate ? data.date.toDate() : new Date(data.date),
+    createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : undefined,
+    resolvedAt: data.resolvedAt?.toDate ? data.resolvedAt.toDate() : null,
+  }) as MealProposal;
+
+/**
+ * Get a proposal by ID
+ */
+export async function getMealProposalById(
+  id: string
+): Promise<MealProposal | null> {
+  try {
+    const proposalSnap = await getDoc(doc(db, "mealProposals", id));
+    if (!proposalSnap.exists()) return null;
+
+    return toMealProposal(proposalSnap.id, proposalSnap.data());
+  } catch (error) {
+    console.error("Error getting meal proposal:", error);
+    throw new Error(
+      `Failed to get meal proposal: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Move a proposal to `status` if it's still in one of `from`, in a
+ * transaction so a double click or a retried request can't act on it
+ * twice. Returns the proposal as it was before, and whether it was claimed.
+ */
+export async function claimMealProposal(
+  id: string,
+  from: MealProposalStatus[],
+  status: MealProposalStatus
+): Promise<{ proposal: MealProposal | null; claimed: boolean }> {
+  try {
+    const proposalRef = doc(db, "mealProposals", id);
+
+    return await runTransaction(db, async (transaction) => {
+      const proposalSnap = await transaction.get(proposalRef);
+      if (!proposalSnap.exists()) return { proposal: null, claimed: false };
+
+      const proposal = toMealProposal(proposalSnap.id, proposalSnap.data());
+      if (!from.includes(proposal.status)) return { proposal, claimed: false };
+
+      transaction.update(proposalRef, { status });
+      return { proposal, claimed: true };
+    });
+  } catch (error) {
+    console.error("Error claiming meal proposal:", error);
+    throw new Error(
+      `Failed to claim meal proposal: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Record the user's decision on a proposal, with the meal as they
+ * confirmed it
+ */
+export async function resolveMealProposal(
+  id: string,
+  resolution: Pick<MealProposal, "status" | "mealId"> &
+    Partial<
+      Pick<
+        MealProposal,
+        | "name"
+        | "mealType"
+        | "calories"
+        | "protein"
+        | "carbs"
+        | "fat"
+        | "items"
+        | "estimatedMacros"
+      >
+    >
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, "mealProposals", id), {
+      ...resolution,
+      resolvedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error updating meal proposal:", error);
+    throw new Error(
+      `Failed to update meal proposal: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
@@ -0,0 +1,194 @@
+// lib/firebase/models/memory.ts
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "../clientApp";
+
+export const MEMORY_CATEGORIES = [
+  "food_like",
+  "food_dislike",
+  "allergy",
+  "schedule",
+  "goal",
+  "other",
+] as const;
+
+export type MemoryCategory = (typeof MEMORY_CATEGORIES)[number];
+
+/**
+ * A durable fact about a user that the assistant picked up in a
+ * conversation, e.g. "doesn't eat breakfast on weekdays"
+ */
+export interface Memory {
+  id?: string;
+  userId: string;
+  category: MemoryCategory;
+  content: string;
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+// Oldest memories are dropped beyond this
+const MAX_MEMORIES_PER_USER = 100;
+
+const normalizeContent = (content: string) =>
+  content
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.!]+$/, "");
+
+const toMillis = (value: any): number =>
+  value?.toMillis ? value.toMillis() : 0;
+
+/**
+ * Get a user's memories, most recently saved first
+ */
+export async function getMemoriesByUser(userId: string): Promise<Memory[]> {
+  try {
+    const q = query(collection(db, "memories"), where("userId", "==", userId));
+    const querySnapshot = await getDocs(q);
+
+    const memories = querySnapshot.docs.map(
+      (doc) => ({ id: doc.id, ...doc.data() }) as Memory
+    );
+
+    // Sort in memory to avoid needing a composite index
+    return memories.sort(
+      (a, b) => toMillis(b.updatedAt) - toMillis(a.updatedAt)
+    );
+  } catch (error) {
+    console.error("Error getting memories:", error);
+    throw new Error(
+      `Failed to get memories: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Get a memory by ID
+ */
+export async function getMemoryById(id: string): Promise<Memory | null> {
+  try {
+    const memorySnap = await getDoc(doc(db, "memories", id));
+
+    if (!memorySnap.exists()) {
+      return null;
+    }
+
+    return { id: memorySnap.id, ...memorySnap.data() } as Memory;
+  } catch (error) {
+    console.error("Error getting memory:", error);
+    throw new Error(
+      `Failed to get memory: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Save a memory. Saving a fact the user already has refreshes it instead
+ * of adding a duplicate, and the oldest memories make room past the limit.
+ * `previous` is the refreshed memory as it was, or null for a new one.
+ */
+export async function saveMemory(
+  memory: Omit<Memory, "id" | "createdAt" | "updatedAt">
+): Promise<{ memory: Memory; previous: Memory | null }> {
+  try {
+    const content = memory.content.trim();
+    const existing = await getMemoriesByUser(memory.userId);
+    const duplicate = existing.find(
+      (other) => normalizeContent(other.content) === normalizeContent(content)
+    );
+
+    if (duplicate?.id) {
+      await updateMemory(duplicate.id, { category: memory.category, content });
+      return {
+        memory: { ...duplicate, category: memory.category, content },
+        previous: duplicate,
+      };
+    }
+
+    const overflow = existing.slice(MAX_MEMORIES_PER_USER - 1);
+    await Promise.all(
+      overflow.map((old) => deleteDoc(doc(db, "memories", old.id!)))
+    );
+
+    const now = serverTimestamp();
+    const docRef = await addDoc(collection(db, "memories"), {
+      userId: memory.userId,
+      category: memory.category,
+      content,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return {
+      memory: {
+        id: docRef.id,
+        userId: memory.userId,
+        category: memory.category,
+        content,
+      },
+      previous: null,
+    };
+  } catch (error) {
+    console.error("Error saving memory:", error);
+    throw new Error(
+      `Failed to save memory: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Change a memory's category and content
+ */
+export async function updateMemory(
+  id: string,
+  updates: Pick<Memory, "category" | "content">
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, "memories", id), {
+      category: updates.category,
+      content: updates.content,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error updating memory:", error);
+    throw new Error(
+      `Failed to update memory: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Delete a memory
+ */
+export async function deleteMemory(id: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, "memories", id));
+  } catch (error) {
+    console.error("Error deleting memory:", error);
+    throw new Error(
+      `Failed to delete memory: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
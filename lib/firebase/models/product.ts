@@ -0,0 +1,113 @@
+// lib/firebase/models/product.ts
+import { NutritionFacts, scaleNutrition } from "@/lib/nutrition/foodDatabase";
+import { doc, getDoc, serverTimestamp, writeBatch } from "firebase/firestore";
+import { db } from "../clientApp";
+
+export interface Product {
+  id?: string;
+  barcode: string;
+  name: string;
+  brand?: string | null;
+  // Serving size as printed on the label, e.g. "1 bar (40 g)"
+  servingSize?: string | null;
+  servingGrams?: number | null;
+  per100g: NutritionFacts;
+  perServing?: NutritionFacts | null;
+  source: "openfoodfacts" | "manual";
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+// Firestore caps batched writes at 500 operations
+const BATCH_SIZE = 450;
+
+/**
+ * Get a packaged product by its normalized barcode
+ */
+export async function getProductByBarcode(
+  barcode: string
+): Promise<Product | null> {
+  try {
+    const productRef = doc(db, "products", barcode);
+    const productSnap = await getDoc(productRef);
+
+    if (!productSnap.exists()) {
+      return null;
+    }
+
+    return {
+      id: productSnap.id,
+      ...productSnap.data(),
+    } as Product;
+  } catch (error) {
+    console.error("Error getting product:", error);
+    throw new Error(
+      `Failed to get product: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Create or replace products in bulk, keyed by barcode
+ */
+export async function upsertProducts(products: Product[]): Promise<number> {
+  try {
+    let written = 0;
+
+    for (let i = 0; i < products.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      const now = serverTimestamp();
+
+      products.slice(i, i + BATCH_SIZE).forEach((product) => {
+        const { id, createdAt, ...productData } = product;
+        batch.set(
+          doc(db, "products", product.barcode),
+          { ...productData, updatedAt: now },
+          { merge: true }
+        );
+      });
+
+      await batch.commit();
+      written += Math.min(BATCH_SIZE, products.length - i);
+    }
+
+    return written;
+  } catch (error) {
+    console.error("Error importing products:", error);
+    throw new Error(
+      `Failed to import products: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Nutrition for one labelled serving of a product, falling back to
+ * 100 g when the label has no serving size
+ */
+export function getProductServing(product: Product): {
+  description: string;
+  grams: number | null;
+  nutrition: NutritionFacts;
+} {
+  if (product.perServing) {
+    return {
+      description: product.servingSize || "1 serving",
+      grams: product.servingGrams ?? null,
+      nutrition: product.perServing,
+    };
+  }
+
+  if (product.servingGrams) {
+    return {
+      description: product.servingSize || `${product.servingGrams} g`,
+      grams: product.servingGrams,
+      nutrition: scaleNutrition(product.per100g, product.servingGrams),
+    };
+  }
+
+  return { description: "100 g", grams: 100, nutrition: product.per100g };
+}
@@ -0,0 +1,148 @@
+// lib/firebase/models/runLock.ts
+import {
+  deleteDoc,
+  doc,
+  getDoc,
+  runTransaction,
+  Timestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "../clientApp";
+
+/**
+ * Marks a thread as having an assistant run in progress. Only one run may
+ * work on a thread at a time, whichever server instance or tab started it;
+ * the lock expires on its own if its holder dies mid-run.
+ */
+export interface RunLock {
+  threadId: string;
+  userId: string;
+  // Identifies the holder, so only it can release the lock
+  lockId: string;
+  // The provider's current run, once started
+  runId: string | null;
+  cancelRequested: boolean;
+  acquiredAt: Timestamp;
+  expiresAt: Timestamp;
+}
+
+const isLive = (lock: RunLock | undefined) =>
+  !!lock && lock.expiresAt.toMillis() > Date.now();
+
+/**
+ * Take the thread's lock for up to ttlMs. Returns the lock ID, or null when
+ * another run holds it.
+ */
+export async function acquireRunLock(
+  threadId: string,
+  userId: string,
+  ttlMs: number
+): Promise<string | null> {
+  try {
+    const lockRef = doc(db, "runLocks", threadId);
+    const lockId = crypto.randomUUID();
+
+    return await runTransaction(db, async (transaction) => {
+      const lockSnap = await transaction.get(lockRef);
+      if (isLive(lockSnap.data() as RunLock | undefined)) {
+        return null;
+      }
+
+      const now = Date.now();
+      const lock: RunLock = {
+        threadId,
+        userId,
+        lockId,
+        runId: null,
+        cancelRequested: false,
+        acquiredAt: Timestamp.fromMillis(now),
+        expiresAt: Timestamp.fromMillis(now + ttlMs),
+      };
+      transaction.set(lockRef, lock);
+      return lockId;
+    });
+  } catch (error) {
+    console.error("Error acquiring run lock:", error);
+    throw new Error(
+      `Failed to acquire run lock: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * The thread's lock while a run holds it, or null
+ */
+export async function getRunLock(threadId: string): Promise<RunLock | null> {
+  try {
+    const lockSnap = await getDoc(doc(db, "runLocks", threadId));
+    const lock = lockSnap.data() as RunLock | undefined;
+    return isLive(lock) ? lock! : null;
+  } catch (error) {
+    console.error("Error getting run lock:", error);
+    throw new Error(
+      `Failed to get run lock: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Record the provider run currently working under the lock
+ */
+export async function setRunLockRunId(
+  threadId: string,
+  runId: string
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, "runLocks", threadId), { runId });
+  } catch (error) {
+    console.error("Error updating run lock:", error);
+    throw new Error(
+      `Failed to update run lock: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Ask the run holding the lock to stop
+ */
+export async function requestRunCancel(threadId: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, "runLocks", threadId), { cancelRequested: true });
+  } catch (error) {
+    console.error("Error updating run lock:", error);
+    throw new Error(
+      `Failed to update run lock: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Release the lock if the given holder still has it
+ */
+export async function releaseRunLock(
+  threadId: string,
+  lockId: string
+): Promise<void> {
+  try {
+    const lockRef = doc(db, "runLocks", threadId);
+    const lockSnap = await getDoc(lockRef);
+    if ((lockSnap.data() as RunLock | undefined)?.lockId !== lockId) return;
+
+    await deleteDoc(lockRef);
+  } catch (error) {
+    console.error("Error releasing run lock:", error);
+    throw new Error(
+      `Failed to release run lock: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
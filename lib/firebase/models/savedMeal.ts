@@ -0,0 +1,351 @@
+// lib/firebase/models/savedMeal.ts
+import { scaleMealItem, sumMealItems } from "@/lib/mealItems";
+import { scoreNames } from "@/lib/nutrition/fuzzyMatch";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "../clientApp";
+import { createMeal, Meal, MealItem } from "./meal";
+
+/**
+ * A meal template or multi-ingredient recipe. Items describe the whole
+ * recipe; `servings` is how many portions it makes, and the nutrition
+ * fields hold the totals for one serving.
+ */
+export interface SavedMeal {
+  id?: string;
+  userId: string;
+  name: string;
+  // Other names the user calls it, e.g. "my usual oatmeal"
+  aliases?: string[];
+  mealType?: string | null;
+  items: MealItem[];
+  servings: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  // Id of the logged meal this template was saved from
+  sourceMealId?: string | null;
+  timesLogged?: number;
+  lastLoggedAt?: any;
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+export type SavedMealInput = Pick<
+  SavedMeal,
+  "userId" | "name" | "aliases" | "mealType" | "items" | "sourceMealId"
+> & {
+  servings?: number;
+  // Used for templates without itemized nutrition
+  calories?: number;
+  protein?: number | null;
+  carbs?: number | null;
+  fat?: number | null;
+};
+
+// Minimum fuzzy score for a name to match a saved meal
+const MIN_MATCH_SCORE = 0.6;
+
+// Words people put in front of a saved meal's name
+const FILLER_WORDS = /\b(my|usual|regular|normal|favou?rite|same|again)\b/gi;
+
+/**
+ * Per-serving nutrition for a saved meal. Itemized recipes divide the item
+ * totals by the servings; templates without item nutrition use the values
+ * they were saved with.
+ */
+function getServingNutrition(data: SavedMealInput, servings: number) {
+  const totals = sumMealItems(data.items || []);
+
+  if (totals.calories > 0) {
+    const round = (value: number) => Math.round((value / servings) * 10) / 10;
+    return {
+      calories: Math.round(totals.calories / servings),
+      protein: round(totals.protein),
+      carbs: round(totals.carbs),
+      fat: round(totals.fat),
+    };
+  }
+
+  return {
+    calories: Number(data.calories) || 0,
+    protein: Number(data.protein) || 0,
+    carbs: Number(data.carbs) || 0,
+    fat: Number(data.fat) || 0,
+  };
+}
+
+/**
+ * Create a saved meal or recipe
+ */
+export async function createSavedMeal(
+  data: SavedMealInput
+): Promise<SavedMeal> {
+  try {
+    const servings = data.servings && data.servings > 0 ? data.servings : 1;
+    const now = serverTimestamp();
+
+    const savedMeal: Omit<SavedMeal, "id"> = {
+      userId: data.userId,
+      name: data.name.trim(),
+      aliases: data.aliases || [],
+      mealType: data.mealType || null,
+      items: data.items || [],
+      servings,
+      ...getServingNutrition(data, servings),
+      sourceMealId: data.sourceMealId || null,
+      timesLogged: 0,
+    };
+
+    const docRef = await addDoc(collection(db, "savedMeals"), {
+      ...savedMeal,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { ...savedMeal, id: docRef.id };
+  } catch (error) {
+    console.error("Error creating saved meal:", error);
+    throw new Error(
+      `Failed to create saved meal: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Save a logged meal as a reusable template
+ */
+export async function saveMealAsTemplate(
+  meal: Meal,
+  name?: string
+): Promise<SavedMeal> {
+  return createSavedMeal({
+    userId: meal.userId,
+    name: name || meal.name,
+    mealType: meal.mealType,
+    items: meal.items || [],
+    servings: 1,
+    calories: meal.calories,
+    protein: meal.protein,
+    carbs: meal.carbs,
+    fat: meal.fat,
+    sourceMealId: meal.id || null,
+  });
+}
+
+/**
+ * Get all saved meals for a user, most used first
+ */
+export async function getSavedMealsByUser(
+  userId: string
+): Promise<SavedMeal[]> {
+  try {
+    const q = query(
+      collection(db, "savedMeals"),
+      where("userId", "==", userId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const savedMeals = querySnapshot.docs.map(
+      (doc) => ({ id: doc.id, ...doc.data() }) as SavedMeal
+    );
+
+    // Sort in memory to avoid needing a composite index
+    return savedMeals.sort(
+      (a, b) =>
+        (b.timesLogged || 0) - (a.timesLogged || 0) ||
+        a.name.localeCompare(b.name)
+    );
+  } catch (error) {
+    console.error("Error getting saved meals:", error);
+    throw new Error(
+      `Failed to get saved meals: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Get a saved meal by ID
+ */
+export async function getSavedMealById(id: string): Promise<SavedMeal | null> {
+  try {
+    const savedMealSnap = await getDoc(doc(db, "savedMeals", id));
+
+    if (!savedMealSnap.exists()) {
+      return null;
+    }
+
+    return { id: savedMealSnap.id, ...savedMealSnap.data() } as SavedMeal;
+  } catch (error) {
+    console.error("Error getting saved meal:", error);
+    throw new Error(
+      `Failed to get saved meal: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Update a saved meal, recalculating per-serving nutrition when the
+ * items or servings change
+ */
+export async function updateSavedMeal(
+  id: string,
+  data: Partial<SavedMealInput>
+): Promise<void> {
+  try {
+    const existing = await getSavedMealById(id);
+    if (!existing) {
+      throw new Error("Saved meal not found");
+    }
+
+    // Don't allow changing userId to prevent unauthorized access
+    const { userId, ...changes } = data;
+
+    // Firestore rejects undefined values
+    const updateData = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    );
+
+    const merged = { ...existing, ...updateData };
+    const servings = merged.servings > 0 ? merged.servings : 1;
+
+    await updateDoc(doc(db, "savedMeals", id), {
+      ...updateData,
+      servings,
+      ...getServingNutrition(merged, servings),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error updating saved meal:", error);
+    throw new Error(
+      `Failed to update saved meal: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Delete a saved meal
+ */
+export async function deleteSavedMeal(id: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, "savedMeals", id));
+  } catch (error) {
+    console.error("Error deleting saved meal:", error);
+    throw new Error(
+      `Failed to delete saved meal: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Find the saved meal a user means by name, e.g. "my usual oatmeal"
+ */
+export async function findSavedMealByName(
+  userId: string,
+  name: string
+): Promise<SavedMeal | null> {
+  const savedMeals = await getSavedMealsByUser(userId);
+  const cleanedName = name.replace(FILLER_WORDS, " ").trim() || name;
+
+  let best: { savedMeal: SavedMeal; score: number } | null = null;
+  for (const savedMeal of savedMeals) {
+    const score = scoreNames(cleanedName, [
+      savedMeal.name,
+      ...(savedMeal.aliases || []),
+    ]);
+    if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) {
+      best = { savedMeal, score };
+    }
+  }
+
+  return best?.savedMeal || null;
+}
+
+/**
+ * Log a saved meal as a new meal. `servings` is how many portions were
+ * eaten; the recipe's items are scaled to match.
+ */
+export async function logSavedMeal(
+  savedMeal: SavedMeal,
+  options: { servings?: number; mealType?: string | null; date?: Date } = {}
+): Promise<Meal> {
+  try {
+    const servings =
+      options.servings && options.servings > 0 ? options.servings : 1;
+    const factor = servings / (savedMeal.servings || 1);
+
+    const meal = await createMeal({
+      userId: savedMeal.userId,
+      name:
+        servings === 1 ? savedMeal.name : `${savedMeal.name} (x${servings})`,
+      mealType: options.mealType || savedMeal.mealType || "Other",
+      calories: Math.round(savedMeal.calories * servings),
+      protein: Math.round(savedMeal.protein * servings * 10) / 10,
+      carbs: Math.round(savedMeal.carbs * servings * 10) / 10,
+      fat: Math.round(savedMeal.fat * servings * 10) / 10,
+      items: (savedMeal.items || []).map((item) =>
+        scaleMealItem(item, Math.round(item.quantity * factor * 100) / 100)
+      ),
+      date: options.date || new Date(),
+    });
+
+    if (savedMeal.id) {
+      await updateDoc(doc(db, "savedMeals", savedMeal.id), {
+        timesLogged: increment(1),
+        lastLoggedAt: serverTimestamp(),
+      });
+    }
+
+    return meal;
+  } catch (error) {
+    console.error("Error logging saved meal:", error);
+    throw new Error(
+      `Failed to log saved meal: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Take back one logging of a saved meal, e.g. when the meal logged from it
+ * was undone. Saved meals deleted since are left alone.
+ */
+export async function unlogSavedMeal(id: string): Promise<void> {
+  try {
+    const savedMealRef = doc(db, "savedMeals", id);
+    const savedMealSnap = await getDoc(savedMealRef);
+    if (!savedMealSnap.exists() || !savedMealSnap.data().timesLogged) return;
+
+    await updateDoc(savedMealRef, { timesLogged: increment(-1) });
+  } catch (error) {
+    console.error("Error unlogging saved meal:", error);
+    throw new Error(
+      `Failed to unlog saved meal: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
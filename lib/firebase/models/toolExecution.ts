@@ -0,0 +1,101 @@
+// lib/firebase/models/toolExecution.ts
+import {
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "../clientApp";
+
+export type ToolRecordType = "meal" | "meal_proposal" | "weight" | "memory";
+
+/**
+ * A tool call the assistant made, kept as an audit log. The document ID is
+ * the tool call's ID, so a call is only ever executed once.
+ */
+export interface ToolExecution {
+  id?: string;
+  userId: string;
+  threadId: string;
+  runId: string | null;
+  toolName: string;
+  arguments: Record<string, any>;
+  // The output sent back to the model
+  result: Record<string, any>;
+  success: boolean;
+  // The record the call created or changed, if any
+  recordType: ToolRecordType | null;
+  recordId: string | null;
+  undoneAt: Date | null;
+  createdAt?: Date;
+}
+
+/**
+ * Get a logged tool call by its ID
+ */
+export async function getToolExecution(
+  id: string
+): Promise<ToolExecution | null> {
+  try {
+    const executionSnap = await getDoc(doc(db, "toolExecutions", id));
+    if (!executionSnap.exists()) return null;
+
+    const data = executionSnap.data();
+    return {
+      id: executionSnap.id,
+      ...data,
+      undoneAt: data.undoneAt?.toDate ? data.undoneAt.toDate() : null,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
+    } as ToolExecution;
+  } catch (error) {
+    console.error("Error getting tool execution:", error);
+    throw new Error(
+      `Failed to get tool execution: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Log a tool call under its ID
+ */
+export async function saveToolExecution(
+  execution: Omit<ToolExecution, "createdAt"> & { id: string }
+): Promise<void> {
+  try {
+    const { id, ...data } = execution;
+    // Firestore rejects undefined values, which optional arguments can be
+    await setDoc(doc(db, "toolExecutions", id), {
+      ...JSON.parse(JSON.stringify(data)),
+      undoneAt: null,
+      createdAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error saving tool execution:", error);
+    throw new Error(
+      `Failed to save tool execution: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Mark a logged tool call as undone
+ */
+export async function markToolExecutionUndone(id: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, "toolExecutions", id), {
+      undoneAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error updating tool execution:", error);
+    throw new Error(
+      `Failed to update tool execution: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
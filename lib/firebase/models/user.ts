@@ -1,7 +1,13 @@
 // lib/firebase/models/user.ts
+import type { BmrFormula, MacroSplitKey } from "@/lib/nutrition/energy";
+import { resolveTimeZone } from "@/lib/timezone";
+import type { UnitPreferences } from "@/lib/units";
 import {
+  arrayUnion,
+  collection,
   doc,
   getDoc,
+  getDocs,
   serverTimestamp,
   setDoc,
   updateDoc,
@@ -17,6 +23,16 @@ export interface User {
   updatedAt?: any;
 }
 
+export interface TargetCalorieChange {
+  date: any;
+  previousCalories: number | null;
+  targetCalories: number;
+  // What made the change: an accepted adaptive proposal, the goals page,
+  // or a profile edit
+  source: "adaptive" | "goals" | "profile";
+  maintenanceEstimate?: number;
+}
+
 export interface UserProfile {
   id: string;
   name?: string;
@@ -35,12 +51,27 @@ export interface UserProfile {
   targetProtein?: number;
   targetCarbs?: number;
   targetFat?: number;
+  // Calorie planning inputs (see lib/nutrition/energy.ts)
+  bodyFatPercentage?: number;
+  bmrFormula?: BmrFormula;
+  weeklyWeightChangeRate?: number; // lbs/week, negative to lose
+  macroSplit?: MacroSplitKey;
+  targetCalorieHistory?: TargetCalorieChange[];
+  // Display units; stored values are always lbs, inches and kcal
+  units?: UnitPreferences;
+  // IANA timezone that decides which day meals and weights fall on
+  timezone?: string;
+  // Meals the assistant estimates are shown to confirm before they're logged
+  confirmMealsBeforeLogging?: boolean;
+  // Last time an adaptive target proposal was accepted or dismissed
+  adaptiveTargetReviewedAt?: any;
   aiPersonality?: string;
   aiSettings?: {
     [key: string]: any;
   };
-  threadId?: string;
-  assistantId?: string;
+  // The open conversation, null once the last one is archived or deleted
+  threadId?: string | null;
+  assistantId?: string | null;
   onboardingThreadId?: string;
   onboardingCompleted?: boolean;
   createdAt?: any;
@@ -137,3 +168,38 @@ export async function getUserProfile(
     userId,
   } as UserProfile;
 }
+
+// Get the user's timezone, falling back to the runtime's when unset
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const profile = await getUserProfile(userId);
+  return resolveTimeZone(profile?.timezone);
+}
+
+// Ids of the assistants user profiles currently point at
+export async function getProfileAssistantIds(): Promise<Set<string>> {
+  const profilesSnap = await getDocs(collection(db, "userProfiles"));
+  const assistantIds = new Set<string>();
+  profilesSnap.forEach((profileDoc) => {
+    const { assistantId } = profileDoc.data();
+    if (assistantId) assistantIds.add(assistantId);
+  });
+  return assistantIds;
+}
+
+// Append an entry to the profile's target calorie history
+export async function recordTargetCalorieChange(
+  userId: string,
+  change: Omit<TargetCalorieChange, "date">
+): Promise<void> {
+  const profileRef = doc(db, "userProfiles", userId);
+
+  // Firestore rejects undefined values and server timestamps inside arrays
+  const entry: Record<string, any> = { ...change, date: new Date() };
+  Object.keys(entry).forEach((key) => {
+    if (entry[key] === undefined) delete entry[key];
+  });
+
+  await updateDoc(profileRef, {
+    targetCalorieHistory: arrayUnion(entry),
+  });
+}
@@ -103,6 +103,47 @@ export async function getWeightLogsByUser(
   }
 }
 
+/**
+ * Get a user's weight logs between two dates (inclusive), newest first
+ */
+export async function getWeightLogsByUserAndRange(
+  userId: string,
+  from: Date,
+  to: Date
+): Promise<WeightLog[]> {
+  try {
+    const weightLogsCollectionRef = collection(db, "weightLogs");
+    const q = query(
+      weightLogsCollectionRef,
+      where("userId", "==", userId),
+      where("date", ">=", from),
+      where("date", "<=", to),
+      orderBy("date", "desc")
+    );
+
+    const querySnapshot = await getDocs(q);
+
+    const weightLogs: WeightLog[] = [];
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      weightLogs.push({
+        id: doc.id,
+        ...data,
+        date: data.date?.toDate ? data.date.toDate() : data.date,
+      } as WeightLog);
+    });
+
+    return weightLogs;
+  } catch (error) {
+    console.error("Error getting weight logs in range:", error);
+    throw new Error(
+      `Failed to get weight logs: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
 /**
  * Get a single weight log by ID
  */
@@ -0,0 +1,20 @@
+// lib/llm/index.ts
+import { createMockProvider } from "./mockProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import type { LLMProvider } from "./types";
+
+let provider: LLMProvider | null = null;
+
+/**
+ * The configured model provider. Set LLM_PROVIDER=mock to use the scripted
+ * offline provider instead of OpenAI.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider =
+      process.env.LLM_PROVIDER === "mock"
+        ? createMockProvider()
+        : createOpenAIProvider(process.env.OPENAI_API_KEY);
+  }
+  return provider;
+}
@@ -0,0 +1,398 @@
+// lib/llm/mockProvider.ts
+// Offline stand-in for the model. Replies and tool calls are scripted from
+// the user's last message, so the chat, onboarding and meal-logging flows
+// can be developed and demoed without an API key, with the same result
+// every time.
+import {
+  LLMAssistantConfig,
+  LLMMessage,
+  LLMProvider,
+  LLMRunEndedError,
+  LLMToolCall,
+} from "./types";
+
+interface MockStore {
+  assistants: Map<string, LLMAssistantConfig>;
+  threads: Map<string, LLMMessage[]>;
+}
+
+interface MockToolResult {
+  toolCall: LLMToolCall;
+  output: any;
+}
+
+// Kept on globalThis so threads survive module reloads in development
+const globalForMock = globalThis as typeof globalThis & {
+  nibletMockLLM?: MockStore;
+};
+
+const MAX_TOOL_ROUNDS = 3;
+
+const MOCK_TRANSCRIPT = "I had a turkey sandwich for lunch";
+
+const ONBOARDING_SCRIPT = [
+  "Hi, I'm niblet! I'll be helping you set up your goal and kick off your calorie-tracking journey. First, what's your name?",
+  "Nice to meet you, {name}! What's your current weight?",
+  "Great! Now, could you tell me your height and age?",
+  "Tell me about your daily activity. Do you exercise regularly or have a more sedentary routine?",
+  "Do you follow any particular diet or have specific dietary preferences?",
+  "What's your weight loss goal and by what date would you like to reach that goal?",
+  "Thanks! I've got everything I need, so I'm setting up your profile now.",
+];
+
+const HELP_REPLY =
+  'I\'m Niblet in offline demo mode. Tell me what you ate, like "I had oatmeal for breakfast", or your weight, like "I weigh 180 lbs", and I\'ll log it for you.';
+
+function getStore(): MockStore {
+  if (!globalForMock.nibletMockLLM) {
+    globalForMock.nibletMockLLM = {
+      assistants: new Map(),
+      threads: new Map(),
+    };
+  }
+  return globalForMock.nibletMockLLM;
+}
+
+// Ids end up as Firestore document ids (tool calls, threads), so they have
+// to stay unique across restarts, not just within this process
+function nextId(prefix: string): string {
+  return `${prefix}_mock_${crypto.randomUUID()}`;
+}
+
+function getMealType(text: string): string {
+  if (/breakfast/i.test(text)) return "Breakfast";
+  if (/lunch/i.test(text)) return "Lunch";
+  if (/dinner|supper/i.test(text)) return "Dinner";
+  if (/snack/i.test(text)) return "Afternoon Snack";
+  return "Other";
+}
+
+function getWeightUnit(unit?: string): "lb" | "kg" | undefined {
+  if (!unit) return undefined;
+  return /^k/i.test(unit) ? "kg" : "lb";
+}
+
+/**
+ * A lasting preference stated in a message, e.g. "I hate mushrooms"
+ */
+function getMemoryFromText(
+  text: string
+): { category: string; content: string } | null {
+  const allergy = text.match(/\bi(?:'m| am) allergic to ([^.!,]+)/i);
+  if (allergy)
+    return { category: "allergy", content: `Allergic to ${allergy[1]}` };
+
+  const dislike = text.match(
+    /\bi (?:hate|dislike|can't stand|don't like) ([^.!,]+)/i
+  );
+  if (dislike)
+    return { category: "food_dislike", content: `Dislikes ${dislike[1]}` };
+
+  const like = text.match(/\bi (?:love|really like) ([^.!,]+)/i);
+  if (like) return { category: "food_like", content: `Loves ${like[1]}` };
+
+  return null;
+}
+
+/**
+ * Tool calls for a user message, before any tool has run
+ */
+function planFromMessage(message: LLMMessage): LLMToolCall[] {
+  const text = message.content.trim();
+
+  if (message.imageUrl) {
+    return [
+      {
+        id: nextId("call"),
+        name: "log_meal",
+        arguments: {
+          meal_name: "Meal from photo",
+          meal_type: getMealType(text),
+          calories: 550,
+          protein: 30,
+          carbs: 60,
+          fat: 20,
+        },
+      },
+    ];
+  }
+
+  const memory = getMemoryFromText(text);
+  if (memory) {
+    return [{ id: nextId("call"), name: "save_memory", arguments: memory }];
+  }
+
+  const weightMatch = text.match(
+    /\b(?:weigh(?:ed|t)?(?:\s+is)?|scale\s+says)\s*(?:about|around)?\s*(\d+(?:\.\d+)?)\s*(kg|kgs|kilos?|kilograms?|lbs?|pounds?)?/i
+  );
+  if (weightMatch) {
+    return [
+      {
+        id: nextId("call"),
+        name: "log_weight",
+        arguments: {
+          weight: parseFloat(weightMatch[1]),
+          unit: getWeightUnit(weightMatch[2]),
+        },
+      },
+    ];
+  }
+
+  const savedMealMatch = text.match(/^log\s+my\s+(?:usual\s+)?(.+?)[.!]?$/i);
+  if (savedMealMatch) {
+    return [
+      {
+        id: nextId("call"),
+        name: "log_saved_meal",
+        arguments: { name: savedMealMatch[1] },
+      },
+    ];
+  }
+
+  const mealMatch = text.match(/\b(?:ate|had|eaten)\s+(.+?)[.!]?$/i);
+  if (mealMatch) {
+    const foodItem = mealMatch[1]
+      .replace(
+        /\s+(?:for|at)\s+(?:breakfast|lunch|dinner|supper|a snack|snack).*$/i,
+        ""
+      )
+      .trim();
+    return [
+      {
+        id: nextId("call"),
+        name: "get_nutrition_info",
+        arguments: { food_item: foodItem },
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Follow-up tool calls once earlier ones have run: a nutrition lookup for
+ * a meal is followed by logging it
+ */
+function planFromResults(
+  message: LLMMessage,
+  results: MockToolResult[]
+): LLMToolCall[] {
+  const last = results[results.length - 1];
+  if (last.toolCall.name !== "get_nutrition_info") return [];
+
+  const foodItem = last.toolCall.arguments.food_item;
+  const found = last.output?.success ? last.output.data : null;
+
+  return [
+    {
+      id: nextId("call"),
+      name: "log_meal",
+      arguments: {
+        meal_name: found?.food_name || foodItem,
+        meal_type: getMealType(message.content),
+        // Without a match, log a typical meal and let the macros default
+        calories: found?.calories ?? 400,
+        protein: found?.protein,
+        carbs: found?.carbs,
+        fat: found?.fat,
+        items: found
+          ? [
+              {
+                name: found.food_name,
+                quantity: 1,
+                unit: "serving",
+                calories: found.calories,
+                protein: found.protein,
+                carbs: found.carbs,
+                fat: found.fat,
+                food_id: found.food_id,
+              },
+            ]
+          : undefined,
+      },
+    },
+  ];
+}
+
+function replyToToolResults(results: MockToolResult[]): string {
+  const replies = results
+    .filter(
+      ({ toolCall }, index) =>
+        toolCall.name !== "get_nutrition_info" || index === results.length - 1
+    )
+    .map(({ output }) =>
+      output?.success
+        ? output.message
+        : `I couldn't do that: ${output?.message || "something went wrong"}`
+    );
+
+  return results.some(({ output }) => output?.success)
+    ? `Done! ${replies.join(" ")}`
+    : replies.join(" ");
+}
+
+function replyToThread(messages: LLMMessage[]): string {
+  const userMessages = messages.filter((msg) => msg.role === "user");
+  const first = userMessages[0]?.content || "";
+  const last = userMessages[userMessages.length - 1]?.content || "";
+
+  // Onboarding threads start with the script the assistant should follow
+  if (/set up their profile/i.test(first)) {
+    const answers = userMessages.slice(1);
+    const step = Math.min(answers.length, ONBOARDING_SCRIPT.length - 1);
+    const nameAnswer = answers[0]?.content || "";
+    const name =
+      nameAnswer.match(/(?:i'm|i am|name is|call me)\s+([a-z]+)/i)?.[1] ||
+      nameAnswer.split(/\s+/)[0] ||
+      "there";
+    return ONBOARDING_SCRIPT[step].replace("{name}", name);
+  }
+
+  if (/^system:/i.test(last.trim())) {
+    const name = last.match(/Name:\s*([^,\n]+)/)?.[1]?.trim();
+    return name
+      ? `Welcome, ${name}! What have you eaten today? Tell me and I'll log your first meal.`
+      : "Hi, I'm Niblet! What's your weight today? And what have you eaten so far that I can log for you?";
+  }
+
+  return HELP_REPLY;
+}
+
+/**
+ * Deterministic local provider with scripted replies and tool calls
+ */
+export function createMockProvider(): LLMProvider {
+  const getThread = (threadId: string): LLMMessage[] => {
+    const { threads } = getStore();
+    let thread = threads.get(threadId);
+    if (!thread) {
+      thread = [];
+      threads.set(threadId, thread);
+    }
+    return thread;
+  };
+
+  return {
+    name: "mock",
+
+    async isAvailable() {
+      return true;
+    },
+
+    async createAssistant(config) {
+      const assistantId = nextId("asst");
+      getStore().assistants.set(assistantId, config);
+      return assistantId;
+    },
+
+    async updateAssistant(assistantId, config) {
+      getStore().assistants.set(assistantId, config);
+    },
+
+    async deleteAssistant(assistantId) {
+      getStore().assistants.delete(assistantId);
+    },
+
+    async assistantExists(assistantId) {
+      return getStore().assistants.has(assistantId);
+    },
+
+    async createThread() {
+      const threadId = nextId("thread");
+      getStore().threads.set(threadId, []);
+      return threadId;
+    },
+
+    async deleteThread(threadId) {
+      getStore().threads.delete(threadId);
+    },
+
+    async addMessage(threadId, content, imageUrl) {
+      getThread(threadId).push({
+        id: nextId("msg"),
+        role: "user",
+        content,
+        imageUrl,
+        createdAt: new Date(),
+      });
+    },
+
+    async listMessages(threadId, { limit, order = "asc" } = {}) {
+      const thread = getStore().threads.get(threadId);
+      if (!thread) return null;
+
+      const messages = order === "asc" ? [...thread] : [...thread].reverse();
+      return limit ? messages.slice(0, limit) : messages;
+    },
+
+    async runThread(
+      threadId,
+      { assistantId, signal, executeTool, onRunStarted, onText }
+    ) {
+      const thread = getThread(threadId);
+      const toolNames = new Set(
+        getStore()
+          .assistants.get(assistantId)
+          ?.tools.map((tool) => tool.name) || []
+      );
+      const lastUserMessage = [...thread]
+        .reverse()
+        .find((msg) => msg.role === "user");
+
+      onRunStarted?.(nextId("run"));
+
+      // Onboarding and greetings are scripted replies, not tool calls
+      const results: MockToolResult[] = [];
+      const isScripted =
+        !lastUserMessage ||
+        /^system:/i.test(lastUserMessage.content.trim()) ||
+        /set up their profile/i.test(
+          thread.find((msg) => msg.role === "user")?.content || ""
+        );
+
+      for (let round = 0; !isScripted && round < MAX_TOOL_ROUNDS; round++) {
+        const toolCalls = (
+          results.length === 0
+            ? planFromMessage(lastUserMessage!)
+            : planFromResults(lastUserMessage!, results)
+        ).filter((toolCall) => toolNames.has(toolCall.name));
+        if (toolCalls.length === 0) break;
+
+        for (const toolCall of toolCalls) {
+          if (signal?.aborted)
+            throw new LLMRunEndedError("cancelled", "Run cancelled");
+          results.push({ toolCall, output: await executeTool(toolCall) });
+        }
+      }
+
+      if (signal?.aborted)
+        throw new LLMRunEndedError("cancelled", "Run cancelled");
+
+      const text =
+        results.length > 0
+          ? replyToToolResults(results)
+          : replyToThread(thread);
+
+      // Stream the reply a word at a time like a real model
+      text.split(/(?<=\s)/).forEach((chunk) => onText?.(chunk));
+
+      const message: LLMMessage = {
+        id: nextId("msg"),
+        role: "assistant",
+        content: text,
+        createdAt: new Date(),
+      };
+      thread.push(message);
+
+      return { messageId: message.id, text };
+    },
+
+    async cancelRun() {
+      // Mock runs are stopped through their abort signal
+    },
+
+    async transcribe() {
+      return MOCK_TRANSCRIPT;
+    },
+  };
+}
@@ -0,0 +1,283 @@
+// lib/llm/openaiProvider.ts
+import OpenAI from "openai";
+import type { AssistantStream } from "openai/lib/AssistantStream";
+import type { MessageContentPartParam } from "openai/resources/beta/threads/messages";
+import { LLMMessage, LLMProvider, LLMRunEndedError } from "./types";
+
+const MODEL = "gpt-4o-mini";
+
+/**
+ * Provider backed by the OpenAI Assistants API
+ */
+export function createOpenAIProvider(apiKey?: string): LLMProvider {
+  const openai = new OpenAI({ apiKey });
+
+  return {
+    name: "openai",
+
+    async isAvailable() {
+      if (!apiKey) return false;
+      const models = await openai.models.list();
+      return models.data.length > 0;
+    },
+
+    async createAssistant({ name, instructions, temperature, tools }) {
+      const assistant = await openai.beta.assistants.create({
+        name,
+        instructions,
+        model: MODEL,
+        temperature,
+        tools: tools.map((tool) => ({ type: "function", function: tool })),
+      });
+      return assistant.id;
+    },
+
+    async updateAssistant(
+      assistantId,
+      { name, instructions, temperature, tools }
+    ) {
+      await openai.beta.assistants.update(assistantId, {
+        name,
+        instructions,
+        model: MODEL,
+        temperature,
+        tools: tools.map((tool) => ({ type: "function", function: tool })),
+      });
+    },
+
+    async deleteAssistant(assistantId) {
+      try {
+        await openai.beta.assistants.del(assistantId);
+      } catch (error) {
+        // Already gone
+        if (error instanceof OpenAI.APIError && error.status === 404) return;
+        throw error;
+      }
+    },
+
+    async assistantExists(assistantId) {
+      try {
+        await openai.beta.assistants.retrieve(assistantId);
+        return true;
+      } catch (error) {
+        if (error instanceof OpenAI.APIError && error.status === 404) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async createThread() {
+      const thread = await openai.beta.threads.create();
+      return thread.id;
+    },
+
+    async deleteThread(threadId) {
+      try {
+        await openai.beta.threads.del(threadId);
+      } catch (error) {
+        // Already gone
+        if (error instanceof OpenAI.APIError && error.status === 404) return;
+        throw error;
+      }
+    },
+
+    async addMessage(threadId, content, imageUrl) {
+      const messageContent: MessageContentPartParam[] = [];
+      if (content) {
+        messageContent.push({ type: "text", text: content });
+      }
+      if (imageUrl) {
+        messageContent.push({
+          type: "image_url",
+          image_url: { url: imageUrl },
+        });
+      }
+
+      await openai.beta.threads.messages.create(threadId, {
+        role: "user",
+        content: messageContent,
+      });
+    },
+
+    async listMessages(threadId, { limit, order = "asc" } = {}) {
+      try {
+        const messages = await openai.beta.threads.messages.list(threadId, {
+          limit,
+          order,
+        });
+
+        return messages.data.map((msg): LLMMessage => ({
+          id: msg.id,
+          role: msg.role,
+          content:
+            msg.content[0]?.type === "text" ? msg.content[0].text.value : "",
+          imageUrl: msg.content.find((part) => part.type === "image_url")
+            ?.image_url.url,
+          createdAt: new Date(msg.created_at * 1000),
+        }));
+      } catch (error) {
+        if (error instanceof OpenAI.APIError && error.status === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async runThread(
+      threadId,
+      {
+        assistantId,
+        temperature,
+        additionalInstructions,
+        signal,
+        executeTool,
+        onRunStarted,
+        onText,
+      }
+    ) {
+      let activeStream: AssistantStream | null = null;
+      let runId: string | null = null;
+      let messageId: string | null = null;
+      let text = "";
+
+      // Stop reading and cancel the run on OpenAI's side too
+      const cancelRun = () => {
+        activeStream?.abort();
+        if (runId) {
+          openai.beta.threads.runs
+            .cancel(threadId, runId)
+            .catch((error) => console.error("Error cancelling run:", error));
+        }
+      };
+      signal?.addEventListener("abort", cancelRun);
+
+      try {
+        let nextStream: AssistantStream | null =
+          openai.beta.threads.runs.stream(threadId, {
+            assistant_id: assistantId,
+            temperature,
+            additional_instructions: additionalInstructions,
+          });
+
+        // Tool calls end the current stream; the run continues on the
+        // stream returned when their outputs are submitted
+        while (nextStream && !signal?.aborted) {
+          activeStream = nextStream;
+          nextStream = null;
+
+          for await (const event of activeStream) {
+            switch (event.event) {
+              case "thread.run.created":
+                runId = event.data.id;
+                onRunStarted?.(runId);
+                break;
+
+              case "thread.message.created":
+                messageId = event.data.id;
+                break;
+
+              case "thread.message.delta":
+                event.data.delta.content?.forEach((part) => {
+                  if (part.type === "text" && part.text?.value) {
+                    text += part.text.value;
+                    onText?.(part.text.value);
+                  }
+                });
+                break;
+
+              case "thread.run.requires_action": {
+                const toolCalls =
+                  event.data.required_action?.submit_tool_outputs.tool_calls ||
+                  [];
+                const toolOutputs = [];
+
+                for (const toolCall of toolCalls) {
+                  const name = toolCall.function.name;
+                  let args = {};
+                  try {
+                    args = JSON.parse(toolCall.function.arguments || "{}");
+                  } catch (error) {
+                    console.error(`Invalid arguments for ${name}:`, error);
+                  }
+
+                  const output = await executeTool({
+                    id: toolCall.id,
+                    name,
+                    arguments: args,
+                  });
+                  toolOutputs.push({
+                    tool_call_id: toolCall.id,
+                    output: JSON.stringify(output),
+                  });
+                }
+
+                if (!signal?.aborted) {
+                  nextStream = openai.beta.threads.runs.submitToolOutputsStream(
+                    threadId,
+                    event.data.id,
+                    { tool_outputs: toolOutputs }
+                  );
+                }
+                break;
+              }
+
+              case "thread.run.failed":
+              case "thread.run.cancelled":
+              case "thread.run.expired":
+                throw new LLMRunEndedError(
+                  event.data.status as "failed" | "cancelled" | "expired",
+                  event.data.last_error?.message
+                );
+
+              case "error":
+                throw new LLMRunEndedError(
+                  "failed",
+                  event.data.message || "Assistant stream error"
+                );
+            }
+          }
+        }
+
+        if (signal?.aborted) {
+          throw new LLMRunEndedError("cancelled", "Run cancelled");
+        }
+        return { messageId, text };
+      } catch (error) {
+        // Aborting the stream throws its own error
+        if (signal?.aborted && !(error instanceof LLMRunEndedError)) {
+          throw new LLMRunEndedError("cancelled", "Run cancelled");
+        }
+        throw error;
+      } finally {
+        signal?.removeEventListener("abort", cancelRun);
+      }
+    },
+
+    async cancelRun(threadId, runId) {
+      try {
+        await openai.beta.threads.runs.cancel(threadId, runId);
+      } catch (error) {
+        // Already finished, or gone
+        if (
+          error instanceof OpenAI.APIError &&
+          (error.status === 400 || error.status === 404)
+        ) {
+          return;
+        }
+        throw error;
+      }
+    },
+
+    async transcribe(audio) {
+      const file = new File([await audio.arrayBuffer()], "audio.webm", {
+        type: audio.type || "audio/webm",
+      });
+      const response = await openai.audio.transcriptions.create({
+        file,
+        model: "whisper-1",
+      });
+      return response.text;
+    },
+  };
+}
@@ -0,0 +1,103 @@
+// lib/llm/types.ts
+// The model backend behind the assistant gateway. Providers keep
+// conversations as threads of messages and run an assistant on them,
+// calling back into the app for tool calls.
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON schema of the tool's arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMAssistantConfig {
+  name: string;
+  instructions: string;
+  temperature?: number;
+  tools: LLMToolDefinition[];
+}
+
+export interface LLMMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  imageUrl?: string;
+  createdAt: Date;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface LLMRunOptions {
+  assistantId: string;
+  temperature?: number;
+  // Appended to the assistant's instructions for this run only
+  additionalInstructions?: string;
+  // Aborting cancels the run
+  signal?: AbortSignal;
+  // Runs a tool call; the result is sent back to the model as JSON
+  executeTool: (toolCall: LLMToolCall) => Promise<unknown>;
+  onRunStarted?: (runId: string) => void;
+  onText?: (delta: string) => void;
+}
+
+export type LLMRunEndStatus = "failed" | "cancelled" | "expired";
+
+/**
+ * A run that ended without completing. Failed and expired runs are worth
+ * retrying; cancelled ones were stopped on purpose.
+ */
+export class LLMRunEndedError extends Error {
+  constructor(
+    public status: LLMRunEndStatus,
+    message?: string
+  ) {
+    super(message || `Run ended with status: ${status}`);
+    this.name = "LLMRunEndedError";
+  }
+
+  get retryable(): boolean {
+    return this.status !== "cancelled";
+  }
+}
+
+export interface LLMRunResult {
+  messageId: string | null;
+  // The full reply, across tool calls
+  text: string;
+}
+
+export interface LLMProvider {
+  name: string;
+  isAvailable(): Promise<boolean>;
+  createAssistant(config: LLMAssistantConfig): Promise<string>;
+  updateAssistant(
+    assistantId: string,
+    config: LLMAssistantConfig
+  ): Promise<void>;
+  deleteAssistant(assistantId: string): Promise<void>;
+  assistantExists(assistantId: string): Promise<boolean>;
+  createThread(): Promise<string>;
+  deleteThread(threadId: string): Promise<void>;
+  addMessage(
+    threadId: string,
+    content: string,
+    imageUrl?: string
+  ): Promise<void>;
+  /**
+   * Messages on a thread, or null when the thread doesn't exist
+   */
+  listMessages(
+    threadId: string,
+    options?: { limit?: number; order?: "asc" | "desc" }
+  ): Promise<LLMMessage[] | null>;
+  runThread(threadId: string, options: LLMRunOptions): Promise<LLMRunResult>;
+  /**
+   * Stop a run, if it's still going
+   */
+  cancelRun(threadId: string, runId: string): Promise<void>;
+  transcribe(audio: Blob): Promise<string>;
+}
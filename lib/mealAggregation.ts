@@ -0,0 +1,189 @@
+// lib/mealAggregation.ts
+import type { Meal } from "./firebase/models/meal";
+import { getDayRange, getMonthRange, getWeekRange } from "./timezone";
+
+export type MealGroupBy = "day" | "week" | "month" | "mealType";
+
+export const MEAL_GROUP_BY_OPTIONS: MealGroupBy[] = [
+  "day",
+  "week",
+  "month",
+  "mealType",
+];
+
+export interface MealTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  mealCount: number;
+}
+
+export interface MealBucket extends MealTotals {
+  // yyyy-MM-dd for day/week (week = its Monday), yyyy-MM for month,
+  // the meal type name for mealType
+  key: string;
+  start: string | null;
+  end: string | null;
+}
+
+export interface MealSummaryResponse {
+  from: string;
+  to: string;
+  // IANA zone the range and day buckets were computed in
+  timeZone: string;
+  groupBy: MealGroupBy;
+  // Whole-range totals, only on the first page (requests without a cursor)
+  totals: MealTotals | null;
+  buckets: MealBucket[] | null;
+  meals: Meal[];
+  nextCursor: string | null;
+}
+
+/**
+ * Convert a Firestore timestamp, date string or Date to a Date
+ */
+export function toMealDate(date: any): Date {
+  if (date?.toDate) return date.toDate();
+  return date instanceof Date ? date : new Date(date);
+}
+
+/**
+ * An empty set of totals
+ */
+export function emptyTotals(): MealTotals {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0, mealCount: 0 };
+}
+
+/**
+ * Add one meal to a running total. Stored values can be strings or null
+ * in older documents, so everything goes through Number().
+ */
+function addMeal(totals: MealTotals, meal: Meal): MealTotals {
+  totals.calories += Number(meal.calories) || 0;
+  totals.protein += Number(meal.protein) || 0;
+  totals.carbs += Number(meal.carbs) || 0;
+  totals.fat += Number(meal.fat) || 0;
+  totals.mealCount += 1;
+  return totals;
+}
+
+/**
+ * Round totals for display - calories to whole numbers, macros to 0.1 g
+ */
+function roundTotals<T extends MealTotals>(totals: T): T {
+  return {
+    ...totals,
+    calories: Math.round(totals.calories),
+    protein: Math.round(totals.protein * 10) / 10,
+    carbs: Math.round(totals.carbs * 10) / 10,
+    fat: Math.round(totals.fat * 10) / 10,
+  };
+}
+
+/**
+ * Sum calories and macros across meals
+ */
+export function sumMeals(meals: Meal[]): MealTotals {
+  return roundTotals(meals.reduce(addMeal, emptyTotals()));
+}
+
+/**
+ * Bucket key and date bounds for a meal under the given grouping, with
+ * days counted in the given timezone
+ */
+function getBucket(
+  meal: Meal,
+  groupBy: MealGroupBy,
+  timeZone?: string | null
+): { key: string; start: Date | null; end: Date | null } {
+  const date = toMealDate(meal.date);
+
+  switch (groupBy) {
+    case "week":
+      return getWeekRange(date, timeZone);
+    case "month":
+      return getMonthRange(date, timeZone);
+    case "mealType":
+      return { key: meal.mealType || "Other", start: null, end: null };
+    default:
+      return getDayRange(date, timeZone);
+  }
+}
+
+/**
+ * Group meals into day/week/month/meal type buckets with totals per bucket.
+ * Date buckets are sorted chronologically, meal type buckets by calories.
+ * Without a timezone, days follow the runtime's zone.
+ */
+export function groupMeals(
+  meals: Meal[],
+  groupBy: MealGroupBy,
+  timeZone?: string | null
+): MealBucket[] {
+  const buckets = new Map<string, MealBucket>();
+
+  meals.forEach((meal) => {
+    const { key, start, end } = getBucket(meal, groupBy, timeZone);
+
+    if (!buckets.has(key)) {
+      buckets.set(key, {
+        key,
+        start: start ? start.toISOString() : null,
+        end: end ? end.toISOString() : null,
+        ...emptyTotals(),
+      });
+    }
+
+    addMeal(buckets.get(key)!, meal);
+  });
+
+  const result = Array.from(buckets.values()).map(roundTotals);
+
+  return groupBy === "mealType"
+    ? result.sort((a, b) => b.calories - a.calories)
+    : result.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Fetch meals and grouped totals from /api/meals. A yyyy-MM-dd `date` is
+ * resolved in the user's timezone; with no range at all the server uses
+ * the user's today.
+ */
+export async function fetchMealSummary(params: {
+  from?: Date;
+  to?: Date;
+  date?: string;
+  groupBy?: MealGroupBy;
+  limit?: number;
+  cursor?: string | null;
+}): Promise<MealSummaryResponse> {
+  const searchParams = new URLSearchParams({
+    groupBy: params.groupBy || "day",
+  });
+  if (params.from) searchParams.set("from", params.from.toISOString());
+  if (params.to) searchParams.set("to", params.to.toISOString());
+  if (params.date) searchParams.set("date", params.date);
+  if (params.limit) searchParams.set("limit", params.limit.toString());
+  if (params.cursor) searchParams.set("cursor", params.cursor);
+
+  const response = await fetch(`/api/meals?${searchParams.toString()}`, {
+    cache: "no-store",
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to fetch meals");
+  }
+
+  return data;
+}
+
+/**
+ * Totals for a single yyyy-MM-dd day (today by default), in the shape
+ * DailyTotalsUI and NutritionSummary use
+ */
+export async function fetchDailyTotals(date?: string): Promise<MealTotals> {
+  const { totals } = await fetchMealSummary({ date, limit: 1 });
+  return totals || emptyTotals();
+}
@@ -0,0 +1,125 @@
+// lib/mealItems.ts
+import type { MealItem } from "./firebase/models/meal";
+
+export interface MealItemTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+};
+
+const roundMacro = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Create a blank item, e.g. for the "add item" row in the meal editor
+ */
+export function createMealItem(name = ""): MealItem {
+  return {
+    name,
+    quantity: 1,
+    unit: "serving",
+    calories: 0,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    foodId: null,
+  };
+}
+
+/**
+ * Normalize stored or tool-supplied items into structured entries.
+ * Older meals store items as plain strings; those become name-only items
+ * with no nutrition. Tool calls use snake_case `food_id`.
+ */
+export function normalizeMealItems(items: unknown): MealItem[] {
+  if (!Array.isArray(items)) return [];
+
+  return items
+    .map((item): MealItem | null => {
+      if (typeof item === "string") {
+        return item.trim() ? createMealItem(item.trim()) : null;
+      }
+      if (!item || typeof item !== "object" || !item.name) return null;
+
+      const quantity = toNumber(item.quantity);
+      return {
+        name: String(item.name).trim(),
+        quantity: quantity > 0 ? quantity : 1,
+        unit: item.unit ? String(item.unit) : "serving",
+        calories: Math.round(toNumber(item.calories)),
+        protein: roundMacro(toNumber(item.protein)),
+        carbs: roundMacro(toNumber(item.carbs)),
+        fat: roundMacro(toNumber(item.fat)),
+        foodId: item.foodId ?? item.food_id ?? null,
+      };
+    })
+    .filter((item): item is MealItem => item !== null);
+}
+
+/**
+ * Whether items carry their own nutrition, in which case the meal totals
+ * are derived from them instead of being entered separately
+ */
+export function hasItemNutrition(items: MealItem[] | undefined): boolean {
+  return (
+    !!items &&
+    items.some(
+      (item) =>
+        item.calories > 0 || item.protein > 0 || item.carbs > 0 || item.fat > 0
+    )
+  );
+}
+
+/**
+ * Sum calories and macros across items
+ */
+export function sumMealItems(items: MealItem[]): MealItemTotals {
+  const totals = items.reduce(
+    (sum, item) => ({
+      calories: sum.calories + item.calories,
+      protein: sum.protein + item.protein,
+      carbs: sum.carbs + item.carbs,
+      fat: sum.fat + item.fat,
+    }),
+    { calories: 0, protein: 0, carbs: 0, fat: 0 }
+  );
+
+  return {
+    calories: Math.round(totals.calories),
+    protein: roundMacro(totals.protein),
+    carbs: roundMacro(totals.carbs),
+    fat: roundMacro(totals.fat),
+  };
+}
+
+/**
+ * Re-weigh an item: change its quantity and scale the nutrition with it
+ */
+export function scaleMealItem(item: MealItem, quantity: number): MealItem {
+  if (!(quantity > 0) || !(item.quantity > 0)) {
+    return { ...item, quantity: quantity > 0 ? quantity : item.quantity };
+  }
+
+  const ratio = quantity / item.quantity;
+  return {
+    ...item,
+    quantity,
+    calories: Math.round(item.calories * ratio),
+    protein: roundMacro(item.protein * ratio),
+    carbs: roundMacro(item.carbs * ratio),
+    fat: roundMacro(item.fat * ratio),
+  };
+}
+
+/**
+ * Short label for an item, e.g. "1.5 cup Oatmeal"
+ */
+export function describeMealItem(item: MealItem): string {
+  if (item.unit === "serving" && item.quantity === 1) return item.name;
+  return `${item.quantity} ${item.unit} ${item.name}`;
+}
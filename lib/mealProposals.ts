@@ -0,0 +1,140 @@
+// lib/mealProposals.ts
+// In confirm-before-log mode, meals the assistant estimates are saved as
+// proposals. The user confirms, changes or rejects each one from the chat,
+// and only a confirmed proposal becomes a meal.
+import {
+  createMeal,
+  deleteMeal,
+  MacroKey,
+  Meal,
+  MealItem,
+} from "./firebase/models/meal";
+import {
+  claimMealProposal,
+  MealProposal,
+  MealProposalStatus,
+  resolveMealProposal,
+} from "./firebase/models/mealProposal";
+import { hasItemNutrition, normalizeMealItems } from "./mealItems";
+
+/**
+ * The proposal was already confirmed or rejected, or is being logged
+ */
+export class MealProposalResolvedError extends Error {
+  constructor(public status: MealProposalStatus) {
+    super(
+      status === "confirming"
+        ? "This meal is already being logged"
+        : `This meal was already ${status}`
+    );
+    this.name = "MealProposalResolvedError";
+  }
+}
+
+/**
+ * Claim a proposal for a decision, throwing if another request got to it
+ * first. Returns it as it was claimed.
+ */
+async function claimForDecision(
+  id: string,
+  from: MealProposalStatus[],
+  status: MealProposalStatus
+): Promise<MealProposal> {
+  const { proposal, claimed } = await claimMealProposal(id, from, status);
+  if (!proposal) {
+    throw new Error(`Meal proposal ${id} not found`);
+  }
+  if (!claimed) {
+    throw new MealProposalResolvedError(proposal.status);
+  }
+  return proposal;
+}
+
+export interface MealProposalEdits {
+  name?: string;
+  mealType?: string | null;
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  items?: MealItem[];
+}
+
+/**
+ * Log a proposed meal with the user's changes. Macros they left as
+ * proposed stay flagged as estimates. The proposal is claimed first, so
+ * it's only ever logged once.
+ */
+export async function confirmMealProposal(
+  proposalId: string,
+  edits: MealProposalEdits = {}
+): Promise<Meal> {
+  const proposal = await claimForDecision(
+    proposalId,
+    ["pending"],
+    "confirming"
+  );
+
+  const items =
+    edits.items !== undefined
+      ? normalizeMealItems(edits.items)
+      : proposal.items;
+  const macros: Record<MacroKey, number> = {
+    protein: edits.protein ?? proposal.protein,
+    carbs: edits.carbs ?? proposal.carbs,
+    fat: edits.fat ?? proposal.fat,
+  };
+  const estimatedMacros = hasItemNutrition(items)
+    ? []
+    : proposal.estimatedMacros.filter(
+        (macro) => macros[macro] === proposal[macro]
+      );
+
+  let meal: Meal;
+  try {
+    meal = await createMeal({
+      userId: proposal.userId,
+      name: edits.name?.trim() || proposal.name,
+      mealType:
+        edits.mealType !== undefined ? edits.mealType : proposal.mealType,
+      calories: edits.calories ?? proposal.calories,
+      ...macros,
+      items,
+      estimatedMacros,
+      date: proposal.date,
+    });
+  } catch (error) {
+    // Nothing was logged, so the user can try again
+    await claimMealProposal(proposalId, ["confirming"], "pending");
+    throw error;
+  }
+
+  await resolveMealProposal(proposalId, {
+    status: "confirmed",
+    mealId: meal.id!,
+    name: meal.name,
+    mealType: meal.mealType || null,
+    calories: meal.calories,
+    protein: meal.protein ?? 0,
+    carbs: meal.carbs ?? 0,
+    fat: meal.fat ?? 0,
+    items: meal.items || [],
+    estimatedMacros: meal.estimatedMacros || [],
+  });
+  return meal;
+}
+
+/**
+ * Reject a proposal that's still in one of `from`. One that was already
+ * confirmed is taken back by deleting its meal.
+ */
+export async function rejectMealProposal(
+  proposalId: string,
+  from: MealProposalStatus[] = ["pending"]
+): Promise<void> {
+  const proposal = await claimForDecision(proposalId, from, "rejected");
+  if (proposal.mealId) {
+    await deleteMeal(proposal.mealId);
+  }
+  await resolveMealProposal(proposalId, { status: "rejected", mealId: null });
+}
@@ -0,0 +1,209 @@
+// lib/nutrition/adaptiveTarget.ts
+// Infers a user's real maintenance calories from logged intake and their
+// smoothed weight trend, and proposes weekly calorie target adjustments.
+import { addDays, subDays } from "date-fns";
+import type { Meal } from "@/lib/firebase/models/meal";
+import type { WeightLog } from "@/lib/firebase/models/weightLog";
+import { groupMeals, toMealDate } from "@/lib/mealAggregation";
+import { differenceInDateKeys, toDateKey } from "@/lib/timezone";
+import {
+  getDefaultWeeklyRate,
+  getMinimumCalories,
+  KCAL_PER_LB,
+} from "./energy";
+
+// Intake and weight window used to estimate maintenance
+export const MAINTENANCE_WINDOW_DAYS = 28;
+// Extra weight history before the window to seed the trend
+export const TREND_SEED_DAYS = 14;
+// Proposals are offered at most once per review interval
+export const REVIEW_INTERVAL_DAYS = 7;
+
+// Minimum data for a usable estimate
+const MIN_LOGGED_DAYS = 14;
+const MIN_WEIGH_INS = 4;
+const MIN_TREND_SPAN_DAYS = 14;
+
+// Trend smoothing per day (Hacker's Diet style exponential average)
+const TREND_SMOOTHING = 0.1;
+// Largest target change proposed in a single week
+const MAX_WEEKLY_STEP = 200;
+// Changes smaller than this aren't worth bothering the user with
+const MIN_PROPOSAL_CHANGE = 50;
+
+export interface TrendPoint {
+  date: Date;
+  // yyyy-MM-dd in the user's timezone
+  day: string;
+  weight: number;
+  trend: number;
+}
+
+export interface MaintenanceEstimate {
+  maintenanceCalories: number;
+  averageIntake: number;
+  // Smoothed weight change in lbs/week, negative when losing
+  trendChangePerWeek: number;
+  loggedDays: number;
+  weighIns: number;
+  windowStart: string;
+  windowEnd: string;
+}
+
+export interface AdaptiveTargetProposal {
+  currentTarget: number;
+  proposedTarget: number;
+  weeklyRate: number;
+  estimate: MaintenanceEstimate;
+}
+
+/**
+ * Exponentially smoothed weight trend, one point per day with a weigh-in.
+ * Gaps between weigh-ins apply the daily smoothing once per missed day.
+ */
+export function smoothWeightTrend(
+  weightLogs: WeightLog[],
+  timeZone?: string | null
+): TrendPoint[] {
+  // Average multiple weigh-ins on the same day
+  const byDay = new Map<
+    string,
+    { date: Date; key: string; total: number; count: number }
+  >();
+  weightLogs.forEach((log) => {
+    if (!log.weight) return;
+    const date = toMealDate(log.date);
+    const key = toDateKey(date, timeZone);
+    const day = byDay.get(key) || { date, key, total: 0, count: 0 };
+    day.total += log.weight;
+    day.count += 1;
+    byDay.set(key, day);
+  });
+
+  const days = Array.from(byDay.values()).sort((a, b) =>
+    a.key.localeCompare(b.key)
+  );
+
+  const points: TrendPoint[] = [];
+  days.forEach((day, index) => {
+    const weight = day.total / day.count;
+    if (index === 0) {
+      points.push({ date: day.date, day: day.key, weight, trend: weight });
+      return;
+    }
+
+    const previous = points[index - 1];
+    const gap = Math.max(1, differenceInDateKeys(day.key, previous.day));
+    const alpha = 1 - Math.pow(1 - TREND_SMOOTHING, gap);
+    points.push({
+      date: day.date,
+      day: day.key,
+      weight,
+      trend: previous.trend + alpha * (weight - previous.trend),
+    });
+  });
+
+  return points;
+}
+
+/**
+ * Estimate maintenance calories over the window ending at `now`: average
+ * intake on days with logged meals, corrected by the energy implied by the
+ * trend weight change. Days are counted in the given timezone. Returns null
+ * until there's enough data.
+ */
+export function estimateMaintenance(
+  meals: Meal[],
+  weightLogs: WeightLog[],
+  now = new Date(),
+  timeZone?: string | null
+): MaintenanceEstimate | null {
+  const windowStart = subDays(now, MAINTENANCE_WINDOW_DAYS);
+
+  const loggedDays = groupMeals(
+    meals.filter((meal) => {
+      const date = toMealDate(meal.date);
+      return date >= windowStart && date <= now;
+    }),
+    "day",
+    timeZone
+  ).filter((day) => day.calories > 0);
+
+  if (loggedDays.length < MIN_LOGGED_DAYS) return null;
+
+  const averageIntake =
+    loggedDays.reduce((sum, day) => sum + day.calories, 0) / loggedDays.length;
+
+  const trend = smoothWeightTrend(
+    weightLogs.filter((log) => toMealDate(log.date) <= now),
+    timeZone
+  );
+  const inWindow = trend.filter((point) => point.date >= windowStart);
+  if (inWindow.length < MIN_WEIGH_INS) return null;
+
+  // Start from the last trend value before the window when we have one
+  const seeded = trend.filter((point) => point.date < windowStart);
+  const start = seeded.length ? seeded[seeded.length - 1] : inWindow[0];
+  const end = inWindow[inWindow.length - 1];
+  const spanDays = differenceInDateKeys(end.day, start.day);
+  if (spanDays < MIN_TREND_SPAN_DAYS) return null;
+
+  const changePerDay = (end.trend - start.trend) / spanDays;
+  const maintenanceCalories = averageIntake - changePerDay * KCAL_PER_LB;
+
+  return {
+    maintenanceCalories: Math.round(maintenanceCalories),
+    averageIntake: Math.round(averageIntake),
+    trendChangePerWeek: Math.round(changePerDay * 7 * 100) / 100,
+    loggedDays: loggedDays.length,
+    weighIns: inWindow.length,
+    windowStart: toDateKey(windowStart, timeZone),
+    windowEnd: toDateKey(now, timeZone),
+  };
+}
+
+/**
+ * Propose a new target from a maintenance estimate and the user's goal
+ * rate. Moves at most MAX_WEEKLY_STEP per week and never below the safe
+ * minimum; returns null when the change would be negligible.
+ */
+export function proposeAdaptiveTarget(
+  estimate: MaintenanceEstimate,
+  profile: {
+    targetCalories?: number | null;
+    currentWeight?: number | null;
+    targetWeight?: number | null;
+    gender?: string | null;
+    weeklyWeightChangeRate?: number | null;
+  }
+): AdaptiveTargetProposal | null {
+  const currentTarget = profile.targetCalories || estimate.averageIntake;
+  const weeklyRate =
+    profile.weeklyWeightChangeRate ??
+    (profile.currentWeight
+      ? getDefaultWeeklyRate(profile.currentWeight, profile.targetWeight)
+      : 0);
+
+  const ideal = estimate.maintenanceCalories + (weeklyRate * KCAL_PER_LB) / 7;
+  const stepped = Math.min(
+    Math.max(ideal, currentTarget - MAX_WEEKLY_STEP),
+    currentTarget + MAX_WEEKLY_STEP
+  );
+  const proposedTarget =
+    Math.round(Math.max(stepped, getMinimumCalories(profile.gender)) / 10) * 10;
+
+  if (Math.abs(proposedTarget - currentTarget) < MIN_PROPOSAL_CHANGE) {
+    return null;
+  }
+
+  return { currentTarget, proposedTarget, weeklyRate, estimate };
+}
+
+/**
+ * Whether a new proposal can be shown, given when the user last accepted
+ * or dismissed one
+ */
+export function isAdaptiveReviewDue(reviewedAt: any, now = new Date()) {
+  if (!reviewedAt) return true;
+  return addDays(toMealDate(reviewedAt), REVIEW_INTERVAL_DAYS) <= now;
+}
@@ -0,0 +1,83 @@
+// lib/nutrition/barcode.ts
+
+/**
+ * Verify the GTIN check digit (shared by EAN-8, UPC-A, EAN-13 and GTIN-14)
+ */
+export function hasValidCheckDigit(code: string): boolean {
+  if (!/^\d+$/.test(code) || code.length < 8) return false;
+
+  const digits = code.split("").map(Number);
+  const checkDigit = digits.pop()!;
+
+  // Weights alternate 3,1,3,... starting from the digit next to the check digit
+  const sum = digits
+    .reverse()
+    .reduce(
+      (total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1),
+      0
+    );
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Expand a zero-suppressed UPC-E code (number system 0 or 1, six digits,
+ * check digit) to the UPC-A code it stands for. The check digit carries
+ * over unchanged, since it's computed on the UPC-A form.
+ */
+function expandUpcE(code: string): string | null {
+  if (!/^[01]\d{7}$/.test(code)) return null;
+
+  const [numberSystem, d1, d2, d3, d4, d5, d6, checkDigit] = code.split("");
+  let body: string;
+  if (d6 <= "2") {
+    body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  } else if (d6 === "3") {
+    body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  } else if (d6 === "4") {
+    body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  } else {
+    body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+  return `${numberSystem}${body}${checkDigit}`;
+}
+
+/**
+ * Normalize a scanned or typed UPC/EAN to the form used as the product id.
+ * UPC-E (8 digits) is expanded to UPC-A when its check digit holds for
+ * the expansion; other 8-digit codes are kept as EAN-8. UPC-A (12 digits)
+ * becomes EAN-13 by prefixing a zero, and GTIN-14 codes with a zero
+ * indicator digit are reduced to EAN-13.
+ * Returns null if the input can't be a retail barcode.
+ */
+export function normalizeBarcode(
+  input: string | null | undefined
+): string | null {
+  if (!input) return null;
+
+  let code = input.replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(code)) return null;
+
+  if (code.length === 8) {
+    const upcA = expandUpcE(code);
+    if (upcA && hasValidCheckDigit(upcA)) code = upcA;
+  }
+
+  if (code.length === 12) {
+    code = `0${code}`;
+  } else if (code.length === 14 && code.startsWith("0")) {
+    code = code.slice(1);
+  }
+
+  return code.length === 8 || code.length === 13 || code.length === 14
+    ? code
+    : null;
+}
+
+/**
+ * Whether a string looks like a complete barcode a user typed or scanned
+ */
+export function isBarcode(input: string | null | undefined): boolean {
+  const code = normalizeBarcode(input);
+  return code !== null && hasValidCheckDigit(code);
+}
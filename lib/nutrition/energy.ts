@@ -0,0 +1,271 @@
+// lib/nutrition/energy.ts
+// Energy expenditure and calorie/macro target planning. Inputs use the
+// app's stored units: weight in pounds, height in inches.
+
+export type BmrFormula =
+  "mifflin-st-jeor" | "harris-benedict" | "katch-mcardle";
+
+export type MacroSplitKey =
+  "balanced" | "high-protein" | "low-carb" | "low-fat";
+
+export interface EnergyProfile {
+  weight: number; // lbs
+  height?: number | null; // inches
+  age?: number | null;
+  gender?: string | null;
+  activityLevel?: string | null;
+  bodyFatPercentage?: number | null;
+}
+
+export interface CaloriePlanOptions {
+  formula?: BmrFormula;
+  // lbs per week, negative to lose weight
+  weeklyRate?: number | null;
+  targetWeight?: number | null;
+  macroSplit?: MacroSplitKey;
+}
+
+export interface CaloriePlan {
+  formula: BmrFormula;
+  bmr: number;
+  tdee: number;
+  weeklyRate: number;
+  dailyAdjustment: number;
+  minimumCalories: number;
+  // True when the target was raised to the safe minimum
+  floorApplied: boolean;
+  targetCalories: number;
+  macroSplit: MacroSplitKey;
+  targetProtein: number;
+  targetCarbs: number;
+  targetFat: number;
+}
+
+export const BMR_FORMULAS: { value: BmrFormula; label: string }[] = [
+  { value: "mifflin-st-jeor", label: "Mifflin-St Jeor" },
+  { value: "harris-benedict", label: "Harris-Benedict (revised)" },
+  { value: "katch-mcardle", label: "Katch-McArdle (needs body fat %)" },
+];
+
+export const ACTIVITY_MULTIPLIERS: Record<string, number> = {
+  sedentary: 1.2,
+  "lightly active": 1.375,
+  "moderately active": 1.55,
+  "very active": 1.725,
+  "extremely active": 1.9,
+};
+
+// Percent of calories from protein / carbs / fat
+export const MACRO_SPLITS: Record<
+  MacroSplitKey,
+  { label: string; protein: number; carbs: number; fat: number }
+> = {
+  balanced: { label: "Balanced", protein: 30, carbs: 40, fat: 30 },
+  "high-protein": { label: "High protein", protein: 40, carbs: 35, fat: 25 },
+  "low-carb": { label: "Low carb", protein: 35, carbs: 20, fat: 45 },
+  "low-fat": { label: "Low fat", protein: 30, carbs: 50, fat: 20 },
+};
+
+// Weekly rate options in lbs/week (negative = loss)
+export const WEEKLY_RATE_OPTIONS = [-2, -1.5, -1, -0.5, 0, 0.25, 0.5, 1];
+
+// Common guidance: don't go below these without medical supervision
+export const MINIMUM_CALORIES = { male: 1500, female: 1200, other: 1350 };
+
+const KG_PER_LB = 0.453592;
+const CM_PER_INCH = 2.54;
+// Approximate energy in a pound of body weight
+export const KCAL_PER_LB = 3500;
+const MAX_WEEKLY_LOSS = 2;
+const MAX_WEEKLY_GAIN = 1;
+
+const CALORIES_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+/**
+ * Map a stored gender string onto the sex-specific formula constants
+ */
+function normalizeGender(gender?: string | null): "male" | "female" | "other" {
+  const value = gender?.toLowerCase().trim() || "";
+  if (["male", "man", "m"].includes(value)) return "male";
+  if (["female", "woman", "f"].includes(value)) return "female";
+  return "other";
+}
+
+/**
+ * Safe minimum daily calories for a stored gender
+ */
+export function getMinimumCalories(gender?: string | null): number {
+  return MINIMUM_CALORIES[normalizeGender(gender)];
+}
+
+/**
+ * Activity multiplier for a stored activity level label
+ */
+export function getActivityMultiplier(activityLevel?: string | null): number {
+  const level = activityLevel?.toLowerCase().trim() || "";
+  const match = Object.keys(ACTIVITY_MULTIPLIERS).find((key) =>
+    level.includes(key)
+  );
+  return match ? ACTIVITY_MULTIPLIERS[match] : ACTIVITY_MULTIPLIERS.sedentary;
+}
+
+/**
+ * Basal metabolic rate in kcal/day. Katch-McArdle needs body fat and falls
+ * back to Mifflin-St Jeor without it; the sex-specific formulas average the
+ * male and female constants when gender is unknown.
+ */
+export function calculateBmr(
+  profile: EnergyProfile,
+  formula: BmrFormula = "mifflin-st-jeor"
+): number {
+  const kg = profile.weight * KG_PER_LB;
+  const cm = (profile.height || 0) * CM_PER_INCH;
+  const age = profile.age || 0;
+  const gender = normalizeGender(profile.gender);
+
+  if (formula === "katch-mcardle" && profile.bodyFatPercentage) {
+    const leanMass = kg * (1 - profile.bodyFatPercentage / 100);
+    return Math.round(370 + 21.6 * leanMass);
+  }
+
+  if (formula === "harris-benedict") {
+    const male = 88.362 + 13.397 * kg + 4.799 * cm - 5.677 * age;
+    const female = 447.593 + 9.247 * kg + 3.098 * cm - 4.33 * age;
+    return Math.round(
+      gender === "male"
+        ? male
+        : gender === "female"
+          ? female
+          : (male + female) / 2
+    );
+  }
+
+  // Mifflin-St Jeor
+  const base = 10 * kg + 6.25 * cm - 5 * age;
+  const offset = gender === "male" ? 5 : gender === "female" ? -161 : -78;
+  return Math.round(base + offset);
+}
+
+/**
+ * Total daily energy expenditure from BMR and activity level
+ */
+export function calculateTdee(
+  bmr: number,
+  activityLevel?: string | null
+): number {
+  return Math.round(bmr * getActivityMultiplier(activityLevel));
+}
+
+/**
+ * Default weekly rate for a goal: lose 1 lb/week, gain 0.5 lb/week
+ */
+export function getDefaultWeeklyRate(
+  currentWeight: number,
+  targetWeight?: number | null
+): number {
+  if (!targetWeight || Math.abs(targetWeight - currentWeight) < 1) return 0;
+  return targetWeight < currentWeight ? -1 : 0.5;
+}
+
+/**
+ * Grams of protein, carbs and fat for a calorie target and split
+ */
+export function calculateMacroTargets(
+  calories: number,
+  split: MacroSplitKey = "balanced"
+): { targetProtein: number; targetCarbs: number; targetFat: number } {
+  const percentages = MACRO_SPLITS[split] || MACRO_SPLITS.balanced;
+  return {
+    targetProtein: Math.round(
+      (calories * percentages.protein) / 100 / CALORIES_PER_GRAM.protein
+    ),
+    targetCarbs: Math.round(
+      (calories * percentages.carbs) / 100 / CALORIES_PER_GRAM.carbs
+    ),
+    targetFat: Math.round(
+      (calories * percentages.fat) / 100 / CALORIES_PER_GRAM.fat
+    ),
+  };
+}
+
+/**
+ * Plan a daily calorie target: BMR -> TDEE -> weekly rate adjustment,
+ * clamped to a safe rate and minimum, then split into macros
+ */
+export function planCalorieTarget(
+  profile: EnergyProfile,
+  options: CaloriePlanOptions = {}
+): CaloriePlan {
+  const formula = options.formula || "mifflin-st-jeor";
+  const macroSplit = options.macroSplit || "balanced";
+
+  const bmr = calculateBmr(profile, formula);
+  const tdee = calculateTdee(bmr, profile.activityLevel);
+
+  const requestedRate =
+    options.weeklyRate ??
+    getDefaultWeeklyRate(profile.weight, options.targetWeight);
+  const weeklyRate = Math.min(
+    Math.max(requestedRate, -MAX_WEEKLY_LOSS),
+    MAX_WEEKLY_GAIN
+  );
+  const dailyAdjustment = Math.round((weeklyRate * KCAL_PER_LB) / 7);
+
+  const minimumCalories = getMinimumCalories(profile.gender);
+  const unclamped = tdee + dailyAdjustment;
+  const floorApplied = unclamped < minimumCalories;
+  // Round to the nearest 10 kcal - more precision than that is noise
+  const targetCalories =
+    Math.round(Math.max(unclamped, minimumCalories) / 10) * 10;
+
+  return {
+    formula,
+    bmr,
+    tdee,
+    weeklyRate,
+    dailyAdjustment,
+    minimumCalories,
+    floorApplied,
+    targetCalories,
+    macroSplit,
+    ...calculateMacroTargets(targetCalories, macroSplit),
+  };
+}
+
+/**
+ * Plan from a stored user profile. Returns null without a weight to
+ * plan from.
+ */
+export function planFromProfile(profile: {
+  currentWeight?: number | null;
+  startingWeight?: number | null;
+  targetWeight?: number | null;
+  height?: number | null;
+  age?: number | null;
+  gender?: string | null;
+  activityLevel?: string | null;
+  bodyFatPercentage?: number | null;
+  bmrFormula?: BmrFormula | null;
+  weeklyWeightChangeRate?: number | null;
+  macroSplit?: MacroSplitKey | null;
+}): CaloriePlan | null {
+  const weight = profile.currentWeight || profile.startingWeight;
+  if (!weight) return null;
+
+  return planCalorieTarget(
+    {
+      weight,
+      height: profile.height,
+      age: profile.age,
+      gender: profile.gender,
+      activityLevel: profile.activityLevel,
+      bodyFatPercentage: profile.bodyFatPercentage,
+    },
+    {
+      formula: profile.bmrFormula || undefined,
+      weeklyRate: profile.weeklyWeightChangeRate,
+      targetWeight: profile.targetWeight,
+      macroSplit: profile.macroSplit || undefined,
+    }
+  );
+}
@@ -0,0 +1,189 @@
+// lib/nutrition/foodDatabase.ts
+import foodData from "./foods.json";
+import { scoreNames } from "./fuzzyMatch";
+import {
+  describeServing,
+  GRAMS_PER_UNIT,
+  MILLILITERS_PER_UNIT,
+  ParsedServing,
+  parseServingSize,
+} from "./servingSize";
+
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface FoodPortion {
+  unit: string;
+  grams: number;
+  description?: string;
+}
+
+export interface FoodEntry {
+  id: string;
+  name: string;
+  aliases?: string[];
+  category: string;
+  per100g: NutritionFacts;
+  // The first portion is the food's default serving
+  portions: FoodPortion[];
+}
+
+export interface FoodSearchResult {
+  food: FoodEntry;
+  score: number;
+}
+
+export interface NutritionLookupResult {
+  foodId: string;
+  foodName: string;
+  category: string;
+  serving: {
+    quantity: number;
+    unit: string;
+    grams: number;
+    description: string;
+  };
+  nutrition: NutritionFacts;
+  matchScore: number;
+}
+
+const FOODS: FoodEntry[] = foodData.foods as FoodEntry[];
+
+// Minimum score for a food to count as a match
+const MIN_MATCH_SCORE = 0.5;
+
+/**
+ * Fuzzy search the bundled food composition table
+ */
+export function searchFoods(query: string, limit = 5): FoodSearchResult[] {
+  return FOODS.map((food) => {
+    const score = scoreNames(query, [food.name, ...(food.aliases || [])]);
+    return { food, score };
+  })
+    .filter((result) => result.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Get a food by its database id
+ */
+export function getFoodById(id: string): FoodEntry | null {
+  return FOODS.find((food) => food.id === id) || null;
+}
+
+/**
+ * Work out how many grams a parsed serving of a food weighs
+ */
+export function resolveServingGrams(
+  food: FoodEntry,
+  serving: ParsedServing | null
+): { grams: number; unit: string; description: string } {
+  const defaultPortion = food.portions[0];
+
+  if (!serving || !serving.unit || serving.unit === "serving") {
+    const quantity = serving?.quantity ?? 1;
+    return {
+      grams: quantity * defaultPortion.grams,
+      unit: defaultPortion.unit,
+      description: `${quantity} x ${
+        defaultPortion.description || defaultPortion.unit
+      }`,
+    };
+  }
+
+  const { quantity, unit } = serving;
+  const description = describeServing(serving);
+
+  // Weight is food independent
+  if (GRAMS_PER_UNIT[unit]) {
+    return { grams: quantity * GRAMS_PER_UNIT[unit], unit, description };
+  }
+
+  // The food lists this exact household measure
+  const portion = food.portions.find((p) => p.unit === unit);
+  if (portion) {
+    return { grams: quantity * portion.grams, unit, description };
+  }
+
+  // Volume: convert through whichever volume portion the food has,
+  // falling back to the density of water
+  if (MILLILITERS_PER_UNIT[unit]) {
+    const milliliters = quantity * MILLILITERS_PER_UNIT[unit];
+    const volumePortion = food.portions.find(
+      (p) => MILLILITERS_PER_UNIT[p.unit]
+    );
+    const gramsPerMl = volumePortion
+      ? volumePortion.grams / MILLILITERS_PER_UNIT[volumePortion.unit]
+      : 1;
+    return { grams: milliliters * gramsPerMl, unit, description };
+  }
+
+  // Sizes and containers the food doesn't list: use the default portion
+  return {
+    grams: quantity * defaultPortion.grams,
+    unit: defaultPortion.unit,
+    description,
+  };
+}
+
+/**
+ * Scale per-100g nutrition facts to a weight in grams
+ */
+export function scaleNutrition(
+  per100g: NutritionFacts,
+  grams: number
+): NutritionFacts {
+  const factor = grams / 100;
+  return {
+    calories: Math.round(per100g.calories * factor),
+    protein: Math.round(per100g.protein * factor * 10) / 10,
+    carbs: Math.round(per100g.carbs * factor * 10) / 10,
+    fat: Math.round(per100g.fat * factor * 10) / 10,
+  };
+}
+
+/**
+ * Nutrition for a specific food at a given serving size
+ */
+export function getNutritionForFood(
+  food: FoodEntry,
+  servingSize?: string | null,
+  matchScore = 1
+): NutritionLookupResult {
+  const parsed = parseServingSize(servingSize);
+  const { grams, unit, description } = resolveServingGrams(food, parsed);
+
+  return {
+    foodId: food.id,
+    foodName: food.name,
+    category: food.category,
+    serving: {
+      quantity: parsed?.quantity ?? 1,
+      unit,
+      grams: Math.round(grams * 10) / 10,
+      description,
+    },
+    nutrition: scaleNutrition(food.per100g, grams),
+    matchScore: Math.round(matchScore * 100) / 100,
+  };
+}
+
+/**
+ * Look up nutrition for a free-text food name and serving size.
+ * Returns the matches ordered best first, or an empty array if nothing
+ * in the database is close enough.
+ */
+export function lookupNutrition(
+  query: string,
+  servingSize?: string | null,
+  limit = 5
+): NutritionLookupResult[] {
+  return searchFoods(query, limit).map(({ food, score }) =>
+    getNutritionForFood(food, servingSize, score)
+  );
+}
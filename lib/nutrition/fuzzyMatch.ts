@@ -0,0 +1,116 @@
+// lib/nutrition/fuzzyMatch.ts
+
+const STOP_WORDS = new Set(["a", "an", "the", "of", "with", "and", "some"]);
+
+/**
+ * Lowercase, strip punctuation, drop filler words and naive-singularize
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9%\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token && !STOP_WORDS.has(token))
+    .map((token) => {
+      if (token.length > 4 && token.endsWith("ies")) {
+        return token.slice(0, -3) + "y";
+      }
+      if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) {
+        return token.slice(0, -1);
+      }
+      return token;
+    });
+}
+
+/**
+ * Levenshtein edit distance, used to tolerate typos like "brocoli"
+ */
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score how well a single query token matches a single candidate token
+ */
+function tokenSimilarity(queryToken: string, candidateToken: string): number {
+  if (queryToken === candidateToken) return 1;
+
+  if (
+    Math.min(queryToken.length, candidateToken.length) >= 3 &&
+    (candidateToken.startsWith(queryToken) ||
+      queryToken.startsWith(candidateToken))
+  ) {
+    return 0.8;
+  }
+
+  const distance = editDistance(queryToken, candidateToken);
+  const allowed = queryToken.length >= 7 ? 2 : queryToken.length >= 4 ? 1 : 0;
+  if (distance <= allowed) return 0.7;
+
+  return 0;
+}
+
+/**
+ * Score a query against one name or alias of a food
+ */
+export function scoreText(queryTokens: string[], text: string): number {
+  const candidateTokens = tokenize(text);
+  if (!queryTokens.length || !candidateTokens.length) return 0;
+
+  const matchedCandidates = new Set<number>();
+  let total = 0;
+
+  for (const queryToken of queryTokens) {
+    let best = 0;
+    let bestIndex = -1;
+    candidateTokens.forEach((candidateToken, index) => {
+      const similarity = tokenSimilarity(queryToken, candidateToken);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    total += best;
+    if (bestIndex >= 0) matchedCandidates.add(bestIndex);
+  }
+
+  const queryCoverage = total / queryTokens.length;
+  const candidateCoverage = matchedCandidates.size / candidateTokens.length;
+
+  // Prefer candidates whose words are mostly covered by the query, so
+  // "chicken breast" ranks the breast above "chicken thigh"
+  return queryCoverage * (0.75 + 0.25 * candidateCoverage);
+}
+
+/**
+ * Best score of a query against a list of names/aliases, 1 for an exact
+ * (normalized) match and 0 when nothing matches
+ */
+export function scoreNames(query: string, names: string[]): number {
+  const queryTokens = tokenize(query);
+  if (!queryTokens.length) return 0;
+
+  const normalizedQuery = queryTokens.join(" ");
+  if (names.some((name) => tokenize(name).join(" ") === normalizedQuery)) {
+    return 1;
+  }
+
+  return Math.max(0, ...names.map((name) => scoreText(queryTokens, name)));
+}
@@ -0,0 +1,37 @@
+// lib/nutrition/nutritionTool.ts
+import type { NutritionLookupResult } from "./foodDatabase";
+
+/**
+ * Shape the food database results into the output of the assistant's
+ * get_nutrition_info tool
+ */
+export function formatNutritionToolOutput(
+  foodItem: string,
+  results: NutritionLookupResult[]
+) {
+  if (results.length === 0) {
+    return {
+      success: false,
+      message: `No match for "${foodItem}" in the food database. Estimate the nutrition yourself and tell the user it is an estimate.`,
+    };
+  }
+
+  const [best, ...alternatives] = results;
+
+  return {
+    success: true,
+    message: `Found ${best.foodName} (${best.serving.description}, ${best.serving.grams}g): ${best.nutrition.calories} calories, protein: ${best.nutrition.protein}g, carbs: ${best.nutrition.carbs}g, fat: ${best.nutrition.fat}g`,
+    data: {
+      food_id: best.foodId,
+      food_name: best.foodName,
+      serving: best.serving,
+      ...best.nutrition,
+    },
+    alternatives: alternatives.map((alt) => ({
+      food_id: alt.foodId,
+      food_name: alt.foodName,
+      serving: alt.serving.description,
+      calories: alt.nutrition.calories,
+    })),
+  };
+}
@@ -0,0 +1,119 @@
+// lib/nutrition/openFoodFacts.ts
+import type { Product } from "@/lib/firebase/models/product";
+import { normalizeBarcode } from "./barcode";
+import type { NutritionFacts } from "./foodDatabase";
+
+const KJ_PER_KCAL = 4.184;
+
+/**
+ * Read a numeric field from an Open Food Facts record. The JSONL dump nests
+ * values under `nutriments`, the CSV export has them as flat columns.
+ */
+function readNumber(record: Record<string, any>, key: string): number | null {
+  const raw = record.nutriments?.[key] ?? record[key];
+  if (raw === undefined || raw === null || raw === "") return null;
+
+  const value = typeof raw === "number" ? raw : parseFloat(raw);
+  return isNaN(value) || value < 0 ? null : value;
+}
+
+/**
+ * Read calories, protein, carbs and fat with the given suffix
+ * ("_100g" or "_serving"). Energy falls back to kJ when kcal is missing.
+ */
+function readNutrition(
+  record: Record<string, any>,
+  suffix: "_100g" | "_serving"
+): NutritionFacts | null {
+  let calories = readNumber(record, `energy-kcal${suffix}`);
+  if (calories === null) {
+    const kilojoules = readNumber(record, `energy${suffix}`);
+    calories = kilojoules !== null ? kilojoules / KJ_PER_KCAL : null;
+  }
+
+  if (calories === null) return null;
+
+  const round = (value: number | null) =>
+    value === null ? 0 : Math.round(value * 10) / 10;
+
+  return {
+    calories: Math.round(calories),
+    protein: round(readNumber(record, `proteins${suffix}`)),
+    carbs: round(readNumber(record, `carbohydrates${suffix}`)),
+    fat: round(readNumber(record, `fat${suffix}`)),
+  };
+}
+
+/**
+ * Convert one Open Food Facts product record into our catalog format.
+ * Returns null for records without a usable barcode, name or calories.
+ */
+export function parseOpenFoodFactsRecord(
+  record: Record<string, any>
+): Product | null {
+  const barcode = normalizeBarcode(String(record.code ?? ""));
+  const name = (record.product_name || record.product_name_en || "").trim();
+  const per100g = readNutrition(record, "_100g");
+
+  if (!barcode || !name || !per100g) return null;
+
+  const servingGrams = readNumber(record, "serving_quantity");
+  const brand = String(record.brands || "")
+    .split(",")[0]
+    .trim();
+
+  return {
+    barcode,
+    name,
+    brand: brand || null,
+    servingSize: record.serving_size ? String(record.serving_size) : null,
+    servingGrams: servingGrams && servingGrams > 0 ? servingGrams : null,
+    per100g,
+    perServing: readNutrition(record, "_serving"),
+    source: "openfoodfacts",
+  };
+}
+
+/**
+ * Parse an Open Food Facts dump. Accepts the JSONL product dump (one JSON
+ * object per line) or the tab-separated CSV export with a header row.
+ */
+export function parseOpenFoodFactsDump(text: string): {
+  products: Product[];
+  skipped: number;
+} {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  const products = new Map<string, Product>();
+  let skipped = 0;
+
+  const isJsonLines = lines[0]?.trim().startsWith("{");
+  const header = isJsonLines ? [] : lines[0]?.split("\t") || [];
+
+  for (const line of isJsonLines ? lines : lines.slice(1)) {
+    let record: Record<string, any>;
+
+    try {
+      if (isJsonLines) {
+        record = JSON.parse(line);
+      } else {
+        const values = line.split("\t");
+        record = Object.fromEntries(
+          header.map((column, index) => [column, values[index]])
+        );
+      }
+    } catch (error) {
+      skipped++;
+      continue;
+    }
+
+    const product = parseOpenFoodFactsRecord(record);
+    if (product) {
+      // Later rows win for duplicate barcodes
+      products.set(product.barcode, product);
+    } else {
+      skipped++;
+    }
+  }
+
+  return { products: Array.from(products.values()), skipped };
+}
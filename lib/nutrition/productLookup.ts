@@ -0,0 +1,83 @@
+// lib/nutrition/productLookup.ts
+import type { Product } from "@/lib/firebase/models/product";
+import type { NutritionFacts } from "./foodDatabase";
+
+export interface ProductLookupResult {
+  product: Product;
+  serving: {
+    description: string;
+    grams: number | null;
+    nutrition: NutritionFacts;
+  };
+}
+
+const RETAIL_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e"];
+
+/**
+ * Resolve a barcode through /api/products. Returns null when the product
+ * isn't in the catalog.
+ */
+export async function fetchProductByBarcode(
+  barcode: string
+): Promise<ProductLookupResult | null> {
+  const response = await fetch(
+    `/api/products/${encodeURIComponent(barcode.trim())}`
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to look up barcode");
+  }
+
+  return data;
+}
+
+/**
+ * Find a retail barcode in a photo using the browser's BarcodeDetector.
+ * Returns null if none is found or the browser doesn't support detection.
+ */
+export async function detectBarcodeFromImage(
+  image: Blob
+): Promise<string | null> {
+  if (typeof window === "undefined" || !window.BarcodeDetector) {
+    return null;
+  }
+
+  try {
+    const detector = new window.BarcodeDetector({ formats: RETAIL_FORMATS });
+    const bitmap = await createImageBitmap(image);
+    const barcodes = await detector.detect(bitmap);
+    bitmap.close();
+
+    return barcodes[0]?.rawValue || null;
+  } catch (error) {
+    console.error("Error detecting barcode:", error);
+    return null;
+  }
+}
+
+/**
+ * Display name for a product, including the brand when known
+ */
+export function getProductDisplayName(product: Product): string {
+  return product.brand ? `${product.brand} ${product.name}` : product.name;
+}
+
+/**
+ * Message sent to the assistant so it logs a scanned product from label data
+ */
+export function describeProductForAssistant({
+  product,
+  serving,
+}: ProductLookupResult): string {
+  const { calories, protein, carbs, fat } = serving.nutrition;
+  return `I scanned the barcode ${product.barcode}: ${getProductDisplayName(
+    product
+  )}. One serving (${
+    serving.description
+  }) has ${calories} calories, protein: ${protein}g, carbs: ${carbs}g, fat: ${fat}g according to the label. Please log one serving using these exact values.`;
+}
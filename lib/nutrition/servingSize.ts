@@ -0,0 +1,236 @@
+// lib/nutrition/servingSize.ts
+
+export type ServingUnit =
+  // Mass units convert straight to grams
+  | "g"
+  | "kg"
+  | "oz"
+  | "lb"
+  // Volume units are resolved through the food's cup/tbsp/tsp portions
+  | "ml"
+  | "l"
+  | "cup"
+  | "tbsp"
+  | "tsp"
+  | "floz"
+  // Household measures are looked up in the food's portion list
+  | string;
+
+export interface ParsedServing {
+  quantity: number;
+  unit: ServingUnit | null;
+  original: string;
+}
+
+export const GRAMS_PER_UNIT: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+export const MILLILITERS_PER_UNIT: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  cup: 236.588,
+  tbsp: 14.787,
+  tsp: 4.929,
+  floz: 29.574,
+};
+
+// Maps the many ways people write a unit onto its canonical form
+const UNIT_ALIASES: Record<string, ServingUnit> = {
+  g: "g",
+  gr: "g",
+  gram: "g",
+  grams: "g",
+  kg: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  oz: "oz",
+  ounce: "oz",
+  ounces: "oz",
+  lb: "lb",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  ml: "ml",
+  milliliter: "ml",
+  milliliters: "ml",
+  millilitre: "ml",
+  millilitres: "ml",
+  l: "l",
+  liter: "l",
+  liters: "l",
+  litre: "l",
+  litres: "l",
+  cup: "cup",
+  cups: "cup",
+  c: "cup",
+  tbsp: "tbsp",
+  tbs: "tbsp",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  tsp: "tsp",
+  teaspoon: "tsp",
+  teaspoons: "tsp",
+  "fl oz": "floz",
+  floz: "floz",
+  "fluid ounce": "floz",
+  "fluid ounces": "floz",
+  piece: "piece",
+  pieces: "piece",
+  pc: "piece",
+  pcs: "piece",
+  each: "piece",
+  whole: "piece",
+  item: "piece",
+  items: "piece",
+  serving: "serving",
+  servings: "serving",
+  portion: "serving",
+  portions: "serving",
+  slice: "slice",
+  slices: "slice",
+  medium: "medium",
+  med: "medium",
+  large: "large",
+  lg: "large",
+  small: "small",
+  sm: "small",
+  can: "can",
+  cans: "can",
+  bottle: "can",
+  bottles: "can",
+  glass: "glass",
+  glasses: "glass",
+  bowl: "cup",
+  bowls: "cup",
+  scoop: "scoop",
+  scoops: "scoop",
+  bar: "bar",
+  bars: "bar",
+  bag: "bag",
+  bags: "bag",
+  box: "box",
+  boxes: "box",
+  container: "container",
+  containers: "container",
+  fillet: "fillet",
+  fillets: "fillet",
+  patty: "patty",
+  patties: "patty",
+  wedge: "wedge",
+  wedges: "wedge",
+  ear: "ear",
+  ears: "ear",
+  leaf: "leaf",
+  leaves: "leaf",
+  pat: "pat",
+  pats: "pat",
+};
+
+const WORD_QUANTITIES: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  half: 0.5,
+  quarter: 0.25,
+};
+
+/**
+ * Parse a single number token, supporting decimals ("1.5") and fractions ("1/2")
+ */
+function parseNumber(token: string): number | null {
+  if (/^\d+(\.\d+)?$/.test(token)) {
+    return parseFloat(token);
+  }
+
+  const fraction = token.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = parseInt(fraction[2]);
+    return denominator ? parseInt(fraction[1]) / denominator : null;
+  }
+
+  return WORD_QUANTITIES[token] ?? null;
+}
+
+/**
+ * Normalize a unit string to its canonical form, or null if it isn't a unit
+ */
+export function normalizeUnit(unit: string): ServingUnit | null {
+  const key = unit.trim().toLowerCase().replace(/\.$/, "");
+  return UNIT_ALIASES[key] ?? null;
+}
+
+/**
+ * Parse a free-form serving size such as "1 cup", "100g", "2 slices",
+ * "1 1/2 cups" or "half a cup" into a quantity and a canonical unit.
+ * A bare number ("2") is treated as a count of the food's default portion.
+ */
+export function parseServingSize(
+  input: string | null | undefined
+): ParsedServing | null {
+  if (!input || !input.trim()) return null;
+
+  const original = input.trim();
+  const text = original
+    .toLowerCase()
+    // Split glued quantities and units: "100g" -> "100 g"
+    .replace(/(\d)([a-z])/g, "$1 $2")
+    .replace(/[(),]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const tokens = text.split(" ");
+  let quantity = 0;
+  let index = 0;
+
+  // Consume leading quantity tokens: "1 1/2", "half a", "2"
+  while (index < tokens.length) {
+    const value = parseNumber(tokens[index]);
+    if (value === null) break;
+
+    // "half a cup" -> 0.5, not 1.5
+    if ((tokens[index] === "a" || tokens[index] === "an") && quantity > 0) {
+      index++;
+      continue;
+    }
+
+    quantity += value;
+    index++;
+  }
+
+  const rest = tokens.slice(index);
+  if (quantity === 0) quantity = 1;
+
+  if (rest.length === 0) {
+    return { quantity, unit: null, original };
+  }
+
+  // Try two-word units first ("fl oz", "fluid ounces")
+  const twoWordUnit =
+    rest.length >= 2 ? normalizeUnit(rest.slice(0, 2).join(" ")) : null;
+  if (twoWordUnit) {
+    return { quantity, unit: twoWordUnit, original };
+  }
+
+  return { quantity, unit: normalizeUnit(rest[0]), original };
+}
+
+/**
+ * Human-readable description of a parsed serving, e.g. "1.5 cup"
+ */
+export function describeServing(serving: ParsedServing): string {
+  const quantity = Number.isInteger(serving.quantity)
+    ? serving.quantity.toString()
+    : serving.quantity.toFixed(2).replace(/0+$/, "");
+  return serving.unit ? `${quantity} ${serving.unit}` : `${quantity} serving`;
+}
@@ -0,0 +1,119 @@
+// lib/quickLog.ts
+import { differenceInHours } from "date-fns";
+import type { MacroKey, Meal, MealItem } from "./firebase/models/meal";
+import { toMealDate } from "./mealAggregation";
+import { getHourInZone } from "./timezone";
+
+export interface QuickLogEntry {
+  // Normalized meal name used to group repeated meals
+  key: string;
+  name: string;
+  mealType: string;
+  calories: number;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  items: MealItem[];
+  estimatedMacros: MacroKey[];
+  timesLogged: number;
+  lastLoggedAt: Date;
+  score: number;
+}
+
+/**
+ * Infer the meal type from the time of day in the user's timezone
+ */
+export function inferMealType(
+  date = new Date(),
+  timeZone?: string | null
+): string {
+  const hour = getHourInZone(date, timeZone);
+
+  if (hour >= 5 && hour < 10) return "Breakfast";
+  if (hour >= 10 && hour < 11.5) return "Morning Snack";
+  if (hour >= 11.5 && hour < 14) return "Lunch";
+  if (hour >= 14 && hour < 17) return "Afternoon Snack";
+  if (hour >= 17 && hour < 21) return "Dinner";
+  return "Evening Snack";
+}
+
+// Scoring weights - time-of-day fit matters most, then frequency, recency
+const SLOT_WEIGHT = 2;
+const FREQUENCY_WEIGHT = 1;
+const RECENCY_WEIGHT = 1;
+// Recency decays by half roughly every 5 days
+const RECENCY_HALF_LIFE_HOURS = 120;
+
+/**
+ * Rank a user's past meals for quick logging. Meals with the same name are
+ * grouped; each group is scored on how often it's eaten, how recently, and
+ * how often it's eaten at this time of day, so breakfasts rank first in
+ * the morning. The most recent instance supplies the nutrition.
+ */
+export function rankQuickLogMeals(
+  meals: Meal[],
+  now = new Date(),
+  timeZone?: string | null,
+  limit = 6
+): QuickLogEntry[] {
+  const currentSlot = inferMealType(now, timeZone);
+  const groups = new Map<
+    string,
+    { latest: Meal; latestDate: Date; count: number; slotMatches: number }
+  >();
+
+  meals.forEach((meal) => {
+    const key = meal.name?.trim().toLowerCase();
+    if (!key) return;
+
+    const date = toMealDate(meal.date);
+    const inSlot =
+      meal.mealType === currentSlot ||
+      inferMealType(date, timeZone) === currentSlot;
+    const group = groups.get(key);
+
+    if (!group) {
+      groups.set(key, {
+        latest: meal,
+        latestDate: date,
+        count: 1,
+        slotMatches: inSlot ? 1 : 0,
+      });
+      return;
+    }
+
+    group.count += 1;
+    if (inSlot) group.slotMatches += 1;
+    if (date > group.latestDate) {
+      group.latest = meal;
+      group.latestDate = date;
+    }
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, { latest, latestDate, count, slotMatches }]) => {
+      const hoursAgo = Math.max(0, differenceInHours(now, latestDate));
+      const recency = Math.pow(0.5, hoursAgo / RECENCY_HALF_LIFE_HOURS);
+      const score =
+        SLOT_WEIGHT * (slotMatches / count) +
+        FREQUENCY_WEIGHT * Math.log(1 + count) +
+        RECENCY_WEIGHT * recency;
+
+      return {
+        key,
+        name: latest.name,
+        mealType: latest.mealType || "Other",
+        calories: Number(latest.calories) || 0,
+        protein: latest.protein ?? null,
+        carbs: latest.carbs ?? null,
+        fat: latest.fat ?? null,
+        items: latest.items || [],
+        estimatedMacros: latest.estimatedMacros || [],
+        timesLogged: count,
+        lastLoggedAt: latestDate,
+        score,
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,240 @@
+// lib/search.ts
+// Full-text search over a user's chat history, meals and weight notes. The
+// index is built in the app from the user's own records and kept in memory
+// for a short while, so there's no external search service to run.
+import {
+  ChatMessage,
+  getRecentChatMessages,
+} from "./firebase/models/chatMessage";
+import { getMealsByUserAndDate, Meal } from "./firebase/models/meal";
+import { getWeightLogsByUser, WeightLog } from "./firebase/models/weightLog";
+
+export type SearchResultType = "message" | "meal" | "weight";
+
+interface SearchDocument {
+  type: SearchResultType;
+  id: string;
+  date: Date;
+  // Everything searchable, e.g. a meal's name and its items
+  text: string;
+  source: ChatMessage | Meal | WeightLog;
+}
+
+interface SearchIndex {
+  documents: SearchDocument[];
+  // Term -> document index -> occurrences
+  postings: Map<string, Map<number, number>>;
+  builtAt: number;
+}
+
+export interface SearchHit {
+  type: SearchResultType;
+  id: string;
+  date: Date;
+  score: number;
+  // The text around the first match
+  snippet: string;
+  source: ChatMessage | Meal | WeightLog;
+}
+
+// Indexes are rebuilt after this long, picking up new records
+const INDEX_TTL_MS = 30 * 1000;
+// At most this many users' indexes are kept in memory at once
+const MAX_CACHED_INDEXES = 20;
+// Oldest chat messages beyond this many aren't searched
+const MAX_INDEXED_MESSAGES = 2000;
+const SNIPPET_LENGTH = 140;
+// Matching a whole word counts more than matching its start
+const PREFIX_MATCH_WEIGHT = 0.6;
+
+const indexCache = new Map<string, SearchIndex>();
+
+/**
+ * Lowercase words and numbers, accents removed
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+function toDate(value: any): Date {
+  if (value instanceof Date) return value;
+  return value?.toDate ? value.toDate() : new Date(value);
+}
+
+function buildIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+  documents.forEach((document, index) => {
+    tokenize(document.text).forEach((term) => {
+      const termPostings = postings.get(term) || new Map<number, number>();
+      termPostings.set(index, (termPostings.get(index) || 0) + 1);
+      postings.set(term, termPostings);
+    });
+  });
+  return { documents, postings, builtAt: Date.now() };
+}
+
+/**
+ * Cache a user's index, dropping expired ones and then the oldest beyond
+ * MAX_CACHED_INDEXES so the cache doesn't grow with every user who
+ * searched
+ */
+function cacheIndex(userId: string, index: SearchIndex) {
+  const now = Date.now();
+  indexCache.forEach((cached, cachedUserId) => {
+    if (now - cached.builtAt >= INDEX_TTL_MS) indexCache.delete(cachedUserId);
+  });
+
+  // Maps keep insertion order, so the first entries are the oldest
+  indexCache.delete(userId);
+  indexCache.set(userId, index);
+  for (const oldestUserId of indexCache.keys()) {
+    if (indexCache.size <= MAX_CACHED_INDEXES) break;
+    indexCache.delete(oldestUserId);
+  }
+}
+
+async function getSearchIndex(userId: string): Promise<SearchIndex> {
+  const cached = indexCache.get(userId);
+  if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) {
+    return cached;
+  }
+
+  const [messages, meals, weightLogs] = await Promise.all([
+    getRecentChatMessages(userId, MAX_INDEXED_MESSAGES),
+    getMealsByUserAndDate(userId),
+    getWeightLogsByUser(userId),
+  ]);
+
+  const documents: SearchDocument[] = [
+    ...messages.map((message): SearchDocument => ({
+      type: "message",
+      id: message.id!,
+      date: message.createdAt || new Date(),
+      text: message.content,
+      source: message,
+    })),
+    ...meals.map((meal): SearchDocument => ({
+      type: "meal",
+      id: meal.id!,
+      date: toDate(meal.date),
+      text: [meal.name, ...(meal.items || []).map((item) => item.name)].join(
+        "\n"
+      ),
+      source: meal,
+    })),
+    ...weightLogs
+      .filter((log) => log.note)
+      .map((log): SearchDocument => ({
+        type: "weight",
+        id: log.id!,
+        date: toDate(log.date),
+        text: log.note!,
+        source: log,
+      })),
+  ];
+
+  const index = buildIndex(documents);
+  cacheIndex(userId, index);
+  return index;
+}
+
+/**
+ * The part of the text around the first place a query term appears
+ */
+function makeSnippet(text: string, queryTerms: string[]): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= SNIPPET_LENGTH) return flat;
+
+  const lower = flat.toLowerCase();
+  const firstMatch = Math.min(
+    ...queryTerms.map((term) => {
+      const position = lower.indexOf(term);
+      return position === -1 ? Infinity : position;
+    })
+  );
+  const start =
+    firstMatch === Infinity
+      ? 0
+      : Math.max(0, firstMatch - Math.floor(SNIPPET_LENGTH / 3));
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end).trim()}${
+    end < flat.length ? "…" : ""
+  }`;
+}
+
+/**
+ * Search a user's records. Every query word has to appear, either whole or
+ * as the start of a word, so results narrow as the user types. Rarer words
+ * count for more, and ties go to the most recent.
+ */
+export async function searchUserData(
+  userId: string,
+  query: string,
+  limitPerType = 20
+): Promise<SearchHit[]> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+
+  const index = await getSearchIndex(userId);
+  const documentCount = index.documents.length;
+
+  // Score each document for each term; a term matches whole words and
+  // words it starts
+  const termScores = queryTerms.map((queryTerm) => {
+    const scores = new Map<number, number>();
+    index.postings.forEach((termPostings, term) => {
+      if (!term.startsWith(queryTerm)) return;
+
+      const weight =
+        Math.log(1 + documentCount / termPostings.size) *
+        (term === queryTerm ? 1 : PREFIX_MATCH_WEIGHT);
+      termPostings.forEach((count, documentIndex) => {
+        scores.set(
+          documentIndex,
+          Math.max(scores.get(documentIndex) || 0, count * weight)
+        );
+      });
+    });
+    return scores;
+  });
+
+  const [firstTerm, ...otherTerms] = termScores;
+  const hits = Array.from(firstTerm)
+    .filter(([documentIndex]) =>
+      otherTerms.every((scores) => scores.has(documentIndex))
+    )
+    .map(([documentIndex, score]) => ({
+      document: index.documents[documentIndex],
+      score: otherTerms.reduce(
+        (total, scores) => total + scores.get(documentIndex)!,
+        score
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.document.date.getTime() - a.document.date.getTime()
+    );
+
+  const perType = new Map<SearchResultType, number>();
+  return hits
+    .filter(({ document }) => {
+      const count = perType.get(document.type) || 0;
+      perType.set(document.type, count + 1);
+      return count < limitPerType;
+    })
+    .map(({ document, score }) => ({
+      type: document.type,
+      id: document.id,
+      date: document.date,
+      score,
+      snippet: makeSnippet(document.text, queryTerms),
+      source: document.source,
+    }));
+}
@@ -0,0 +1,105 @@
+// lib/threadAccess.ts
+// Every thread is recorded with its owner when it's created, and the
+// assistant routes resolve a thread through that record before using it:
+// a thread can only be read, written to or run by the user it belongs to,
+// with the assistant the server picks for it.
+import { createThread } from "./assistantGateway";
+import {
+  getKeptAssistant,
+  getOrCreateAssistant,
+  getPersonalityConfig,
+} from "./assistantRegistry";
+import { getUserProfileById } from "./auth/authService";
+import {
+  getAssistantThread,
+  saveAssistantThread,
+} from "./firebase/models/assistantThread";
+import {
+  getConversationById,
+  updateConversation,
+} from "./firebase/models/conversation";
+
+/**
+ * The thread doesn't exist or belongs to another user
+ */
+export class ThreadAccessError extends Error {
+  constructor(threadId: string) {
+    super(`Thread ${threadId} is not available to this user`);
+    this.name = "ThreadAccessError";
+  }
+}
+
+export interface ThreadAccess {
+  threadId: string;
+  assistantId: string;
+  personality: string;
+  temperature?: number;
+}
+
+/**
+ * Create a thread for a user and record it as theirs
+ */
+export async function startThread(
+  userId: string,
+  personality: string
+): Promise<string> {
+  const threadId = await createThread();
+  await saveAssistantThread(threadId, { userId, personality });
+  return threadId;
+}
+
+/**
+ * The assistant to run on one of the user's threads. A conversation keeps
+ * its own assistant; other threads use their personality's, and threads
+ * from before they were recorded are only known from the user's profile.
+ */
+export async function resolveThread(
+  userId: string,
+  threadId: string
+): Promise<ThreadAccess> {
+  const conversation = await getConversationById(threadId);
+  if (conversation) {
+    if (conversation.userId !== userId) throw new ThreadAccessError(threadId);
+    const config = await getPersonalityConfig(conversation.personality);
+    const assistantId = await getKeptAssistant(
+      conversation.assistantId,
+      conversation.personality,
+      config
+    );
+    // Its assistant was deleted; keep the replacement from now on
+    if (assistantId !== conversation.assistantId) {
+      await updateConversation(threadId, { assistantId });
+    }
+    return {
+      threadId,
+      assistantId,
+      personality: conversation.personality,
+      temperature: config.temperature,
+    };
+  }
+
+  const thread = await getAssistantThread(threadId);
+  if (thread) {
+    if (thread.userId !== userId) throw new ThreadAccessError(threadId);
+    const config = await getPersonalityConfig(thread.personality);
+    return {
+      threadId,
+      assistantId: await getOrCreateAssistant(thread.personality, config),
+      personality: thread.personality,
+      temperature: config.temperature,
+    };
+  }
+
+  const profile = await getUserProfileById(userId);
+  if (profile?.threadId === threadId && profile.assistantId) {
+    const personality = profile.aiPersonality || "best-friend";
+    return {
+      threadId,
+      assistantId: profile.assistantId,
+      personality,
+      temperature: (await getPersonalityConfig(personality)).temperature,
+    };
+  }
+
+  throw new ThreadAccessError(threadId);
+}
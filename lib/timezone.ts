@@ -0,0 +1,267 @@
+// lib/timezone.ts
+// Calendar days in a user's IANA timezone. Meals and weights are stored as
+// instants, so which day they belong to depends on the user's zone - never
+// on the zone the server happens to run in.
+
+export interface DayRange {
+  // yyyy-MM-dd for days and weeks (week = its Monday), yyyy-MM for months
+  key: string;
+  start: Date;
+  end: Date;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const DATE_KEY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Building formatters is slow, so keep one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The runtime's own timezone - the browser's on the client
+ */
+export function getDefaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/**
+ * Whether a value is an IANA timezone the runtime understands
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The user's timezone, falling back to the runtime's when unset or invalid
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return isValidTimeZone(timeZone) ? timeZone : getDefaultTimeZone();
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour") % 24,
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Milliseconds the zone is ahead of UTC at the given instant
+ */
+function getOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+function keyFromUtc(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function parseDateKey(key: string): [number, number, number] {
+  const match = key.match(DATE_KEY);
+  if (!match) throw new Error(`Invalid date key: ${key}`);
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+/**
+ * Whether a string is a plain yyyy-MM-dd date
+ */
+export function isDateKey(value: unknown): value is string {
+  return typeof value === "string" && DATE_KEY.test(value);
+}
+
+/**
+ * The calendar day (yyyy-MM-dd) of an instant in the given zone
+ */
+export function toDateKey(date: Date, timeZone?: string | null): string {
+  const parts = getZonedParts(date, resolveTimeZone(timeZone));
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+/**
+ * The time of day of an instant in the given zone, in hours (e.g. 13.5)
+ */
+export function getHourInZone(date: Date, timeZone?: string | null): number {
+  const parts = getZonedParts(date, resolveTimeZone(timeZone));
+  return parts.hour + parts.minute / 60;
+}
+
+/**
+ * Shift a yyyy-MM-dd key by whole days
+ */
+export function addDaysToKey(key: string, days: number): string {
+  const [year, month, day] = parseDateKey(key);
+  return keyFromUtc(Date.UTC(year, month - 1, day + days));
+}
+
+/**
+ * Whole days from one yyyy-MM-dd key to another
+ */
+export function differenceInDateKeys(later: string, earlier: string): number {
+  const [y1, m1, d1] = parseDateKey(later);
+  const [y2, m2, d2] = parseDateKey(earlier);
+  return Math.round(
+    (Date.UTC(y1, m1 - 1, d1) - Date.UTC(y2, m2 - 1, d2)) / 86400000
+  );
+}
+
+/**
+ * Midnight at the start of a day in the given zone. Accepts an instant or
+ * a yyyy-MM-dd key.
+ */
+export function startOfDayInZone(
+  date: Date | string,
+  timeZone?: string | null
+): Date {
+  const zone = resolveTimeZone(timeZone);
+  const key = typeof date === "string" ? date : toDateKey(date, zone);
+  const [year, month, day] = parseDateKey(key);
+  const utcMidnight = Date.UTC(year, month - 1, day);
+
+  // The offset at local midnight can differ from the one at UTC midnight
+  // around DST changes, so correct with a second pass
+  const guess = utcMidnight - getOffset(new Date(utcMidnight), zone);
+  return new Date(utcMidnight - getOffset(new Date(guess), zone));
+}
+
+/**
+ * The last millisecond of a day in the given zone
+ */
+export function endOfDayInZone(
+  date: Date | string,
+  timeZone?: string | null
+): Date {
+  const key = typeof date === "string" ? date : toDateKey(date, timeZone);
+  return new Date(
+    startOfDayInZone(addDaysToKey(key, 1), timeZone).getTime() - 1
+  );
+}
+
+/**
+ * The day containing an instant, with its bounds in the given zone
+ */
+export function getDayRange(date: Date, timeZone?: string | null): DayRange {
+  const key = toDateKey(date, timeZone);
+  return {
+    key,
+    start: startOfDayInZone(key, timeZone),
+    end: endOfDayInZone(key, timeZone),
+  };
+}
+
+/**
+ * The Monday-to-Sunday week containing an instant in the given zone
+ */
+export function getWeekRange(date: Date, timeZone?: string | null): DayRange {
+  const dayKey = toDateKey(date, timeZone);
+  const [year, month, day] = parseDateKey(dayKey);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const key = addDaysToKey(dayKey, -((weekday + 6) % 7));
+
+  return {
+    key,
+    start: startOfDayInZone(key, timeZone),
+    end: endOfDayInZone(addDaysToKey(key, 6), timeZone),
+  };
+}
+
+/**
+ * The calendar month containing an instant in the given zone
+ */
+export function getMonthRange(date: Date, timeZone?: string | null): DayRange {
+  const [year, month] = parseDateKey(toDateKey(date, timeZone));
+  const firstDay = `${year}-${pad(month)}-01`;
+  const lastDay = keyFromUtc(Date.UTC(year, month, 0));
+
+  return {
+    key: firstDay.slice(0, 7),
+    start: startOfDayInZone(firstDay, timeZone),
+    end: endOfDayInZone(lastDay, timeZone),
+  };
+}
+
+/**
+ * Parse a date given by the user or the assistant. Plain yyyy-MM-dd dates
+ * mean that day in the user's zone: today keeps the current time, other
+ * days land at midday so they can't drift onto a neighbouring day.
+ */
+export function parseUserDate(
+  value: string | Date | null | undefined,
+  timeZone?: string | null
+): Date | undefined {
+  if (!value) return undefined;
+  if (value instanceof Date) return value;
+  if (!isDateKey(value)) return new Date(value);
+
+  const now = new Date();
+  if (value === toDateKey(now, timeZone)) return now;
+
+  return new Date(
+    startOfDayInZone(value, timeZone).getTime() + 12 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * IANA zones to offer in a picker, always including the given ones
+ */
+export function getTimeZoneOptions(...include: string[]): string[] {
+  const zones =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+  const extra = [getDefaultTimeZone(), ...include].filter(
+    (zone) => zone && !zones.includes(zone)
+  );
+  return Array.from(new Set([...extra, ...zones])).sort();
+}
@@ -0,0 +1,43 @@
+// lib/tools/deleteMeal.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { deleteMeal } from "../firebase/models/meal";
+import { confirmedSchema } from "./schema";
+import { defineTool } from "./types";
+import { confirmationRequired, describeMeal, getUserMeal } from "./userRecords";
+
+export const deleteMealTool = defineTool({
+  name: "delete_meal",
+  description:
+    "Delete a meal the user logged by mistake or twice. Get the meal_id from list_meals. Always confirm with the user before deleting.",
+  parameters: z.object({
+    meal_id: z.string().describe("meal_id of the meal to delete"),
+    confirmed: confirmedSchema,
+  }),
+
+  async execute(userId, args) {
+    const meal = await getUserMeal(userId, args.meal_id);
+    if (!meal) {
+      return {
+        success: false,
+        message: `No meal found with id ${args.meal_id}. Use list_meals to find it.`,
+      };
+    }
+
+    if (!args.confirmed) {
+      const userProfile = await getUserProfileById(userId);
+      return confirmationRequired(
+        `delete ${meal.name} (${meal.calories} calories)`,
+        { meal: describeMeal(meal, userProfile?.timezone) }
+      );
+    }
+
+    await deleteMeal(args.meal_id);
+
+    return {
+      success: true,
+      meal_id: args.meal_id,
+      message: `Deleted ${meal.name} (${meal.calories} calories)`,
+    };
+  },
+});
@@ -0,0 +1,53 @@
+// lib/tools/deleteWeight.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { deleteWeightLog } from "../firebase/models/weightLog";
+import { getUnitPreferences } from "../units";
+import { confirmedSchema } from "./schema";
+import { defineTool } from "./types";
+import {
+  confirmationRequired,
+  describeWeightLog,
+  getUserWeightLog,
+  syncCurrentWeight,
+} from "./userRecords";
+
+export const deleteWeightTool = defineTool({
+  name: "delete_weight",
+  description:
+    "Delete a weight entry the user logged by mistake. Get the weight_id from list_weights. Always confirm with the user before deleting.",
+  parameters: z.object({
+    weight_id: z.string().describe("weight_id of the entry to delete"),
+    confirmed: confirmedSchema,
+  }),
+
+  async execute(userId, args) {
+    const weightLog = await getUserWeightLog(userId, args.weight_id);
+    if (!weightLog) {
+      return {
+        success: false,
+        message: `No weight entry found with id ${args.weight_id}. Use list_weights to find it.`,
+      };
+    }
+
+    const userProfile = await getUserProfileById(userId);
+    const { weight: unit } = getUnitPreferences(userProfile?.units);
+    const entry = describeWeightLog(weightLog, unit, userProfile?.timezone);
+
+    if (!args.confirmed) {
+      return confirmationRequired(
+        `delete the ${entry.weight} entry from ${entry.date}`,
+        { weight_entry: entry }
+      );
+    }
+
+    await deleteWeightLog(args.weight_id);
+    await syncCurrentWeight(userId);
+
+    return {
+      success: true,
+      weight_id: args.weight_id,
+      message: `Deleted the ${entry.weight} entry from ${entry.date}`,
+    };
+  },
+});
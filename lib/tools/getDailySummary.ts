@@ -0,0 +1,64 @@
+// lib/tools/getDailySummary.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { getMealsByUserAndRange } from "../firebase/models/meal";
+import { sumMeals } from "../mealAggregation";
+import {
+  endOfDayInZone,
+  resolveTimeZone,
+  startOfDayInZone,
+  toDateKey,
+} from "../timezone";
+import { dateKeySchema } from "./schema";
+import { defineTool } from "./types";
+
+export const getDailySummaryTool = defineTool({
+  name: "get_daily_summary",
+  description:
+    "Get the calories and macros the user logged on one day, against their daily targets. Use it instead of guessing whenever the user asks about a day's intake.",
+  parameters: z.object({
+    date: dateKeySchema
+      .optional()
+      .describe("The day (YYYY-MM-DD format). Defaults to today."),
+  }),
+
+  async execute(userId, args) {
+    const userProfile = await getUserProfileById(userId);
+    const timeZone = resolveTimeZone(userProfile?.timezone);
+    const today = toDateKey(new Date(), timeZone);
+    const day = args.date || today;
+
+    const meals = await getMealsByUserAndRange(
+      userId,
+      startOfDayInZone(day, timeZone),
+      endOfDayInZone(day, timeZone)
+    );
+    const { mealCount, ...totals } = sumMeals(meals);
+    const targetCalories = userProfile?.targetCalories || null;
+
+    return {
+      success: true,
+      message: `${totals.calories} calories from ${mealCount} meal${mealCount === 1 ? "" : "s"} on ${day}`,
+      date: day,
+      today,
+      totals,
+      meal_count: mealCount,
+      targets: {
+        calories: targetCalories,
+        protein: userProfile?.targetProtein || null,
+        carbs: userProfile?.targetCarbs || null,
+        fat: userProfile?.targetFat || null,
+      },
+      remaining_calories: targetCalories
+        ? targetCalories - totals.calories
+        : null,
+      meals: meals
+        .map((meal) => ({
+          name: meal.name,
+          meal_type: meal.mealType || "Other",
+          calories: meal.calories,
+        }))
+        .reverse(),
+    };
+  },
+});
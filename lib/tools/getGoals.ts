@@ -0,0 +1,96 @@
+// lib/tools/getGoals.ts
+import { subDays } from "date-fns";
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { getWeightLogsByUserAndRange } from "../firebase/models/weightLog";
+import {
+  MAINTENANCE_WINDOW_DAYS,
+  smoothWeightTrend,
+} from "../nutrition/adaptiveTarget";
+import { getDefaultWeeklyRate } from "../nutrition/energy";
+import { addDaysToKey, resolveTimeZone, toDateKey } from "../timezone";
+import { formatWeight, getUnitPreferences, toDisplayWeight } from "../units";
+import { defineTool } from "./types";
+import { getTrendChangePerWeek } from "./userRecords";
+
+// Trends at least this fraction of the planned rate count as on track
+const ON_TRACK_FRACTION = 0.5;
+
+export const getGoalsTool = defineTool({
+  name: "get_goals",
+  description:
+    'Get the user\'s weight goal, planned weekly rate and daily calorie and macro targets, with their progress so far and recent weight trend. Use it for questions like "am I on track for my goal?"',
+  parameters: z.object({}),
+
+  async execute(userId) {
+    const userProfile = await getUserProfileById(userId);
+    if (!userProfile) {
+      return { success: false, message: "The user has no profile yet." };
+    }
+
+    const timeZone = resolveTimeZone(userProfile.timezone);
+    const { weight: unit } = getUnitPreferences(userProfile.units);
+    const display = (lbs?: number | null) =>
+      lbs || lbs === 0 ? toDisplayWeight(lbs, unit) : null;
+
+    const now = new Date();
+    const weightLogs = await getWeightLogsByUserAndRange(
+      userId,
+      subDays(now, MAINTENANCE_WINDOW_DAYS),
+      now
+    );
+    const trendPerWeek = getTrendChangePerWeek(
+      smoothWeightTrend(weightLogs, timeZone)
+    );
+
+    const { startingWeight, currentWeight, targetWeight } = userProfile;
+    const plannedRate =
+      userProfile.weeklyWeightChangeRate ??
+      (currentWeight ? getDefaultWeeklyRate(currentWeight, targetWeight) : 0);
+    const remaining =
+      currentWeight && targetWeight ? targetWeight - currentWeight : null;
+
+    // On track when the trend heads toward the target at a good share of
+    // the planned pace; the projection assumes the trend continues
+    let onTrack: boolean | null = null;
+    let projectedGoalDate: string | null = null;
+    if (trendPerWeek !== null && remaining !== null && plannedRate !== 0) {
+      onTrack =
+        Math.sign(trendPerWeek) === Math.sign(plannedRate) &&
+        Math.abs(trendPerWeek) >= Math.abs(plannedRate) * ON_TRACK_FRACTION;
+      if (Math.sign(trendPerWeek) === Math.sign(remaining)) {
+        projectedGoalDate = addDaysToKey(
+          toDateKey(now, timeZone),
+          Math.round((remaining / trendPerWeek) * 7)
+        );
+      }
+    }
+
+    return {
+      success: true,
+      message: targetWeight
+        ? `Goal weight is ${formatWeight(targetWeight, unit)}`
+        : "The user hasn't set a goal weight.",
+      unit,
+      goal_type: userProfile.goalType || null,
+      starting_weight: display(startingWeight),
+      current_weight: display(currentWeight),
+      target_weight: display(targetWeight),
+      change_so_far:
+        startingWeight && currentWeight
+          ? display(currentWeight - startingWeight)
+          : null,
+      remaining_to_goal: display(remaining),
+      planned_change_per_week: display(plannedRate),
+      trend_change_per_week: display(trendPerWeek),
+      on_track: onTrack,
+      projected_goal_date: projectedGoalDate,
+      daily_targets: {
+        calories: userProfile.targetCalories || null,
+        protein: userProfile.targetProtein || null,
+        carbs: userProfile.targetCarbs || null,
+        fat: userProfile.targetFat || null,
+      },
+    };
+  },
+});
@@ -0,0 +1,26 @@
+// lib/tools/getNutritionInfo.ts
+import { z } from "zod";
+import { lookupNutrition } from "../nutrition/foodDatabase";
+import { formatNutritionToolOutput } from "../nutrition/nutritionTool";
+import { defineTool } from "./types";
+
+export const getNutritionInfoTool = defineTool({
+  name: "get_nutrition_info",
+  description:
+    "Look up nutrition information for a food item in the food database. Use it to get accurate calories and macros before logging a meal.",
+  parameters: z.object({
+    food_item: z.string().describe("The food item or meal to look up"),
+    serving_size: z
+      .string()
+      .optional()
+      .describe("The serving size (e.g., '1 cup', '100g', '2 slices')"),
+  }),
+
+  // Look the food up in the local nutrition database
+  async execute(_userId, args) {
+    return formatNutritionToolOutput(
+      args.food_item,
+      lookupNutrition(args.food_item, args.serving_size, 3)
+    );
+  },
+});
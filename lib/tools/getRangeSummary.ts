@@ -0,0 +1,89 @@
+// lib/tools/getRangeSummary.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { getMealsByUserAndRange } from "../firebase/models/meal";
+import { groupMeals, sumMeals } from "../mealAggregation";
+import {
+  differenceInDateKeys,
+  endOfDayInZone,
+  resolveTimeZone,
+  startOfDayInZone,
+  toDateKey,
+} from "../timezone";
+import { dateKeySchema } from "./schema";
+import { defineTool } from "./types";
+
+// Longest range one call can summarize
+const MAX_RANGE_DAYS = 366;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const getRangeSummaryTool = defineTool({
+  name: "get_range_summary",
+  description:
+    'Get the user\'s calorie and macro totals and daily averages between two days, with a breakdown per day. Use it for questions like "how much protein did I average last week?"',
+  parameters: z.object({
+    from: dateKeySchema.describe("First day of the range (YYYY-MM-DD format)"),
+    to: dateKeySchema
+      .optional()
+      .describe(
+        "Last day of the range (YYYY-MM-DD format). Defaults to today."
+      ),
+  }),
+
+  async execute(userId, args) {
+    const userProfile = await getUserProfileById(userId);
+    const timeZone = resolveTimeZone(userProfile?.timezone);
+    const today = toDateKey(new Date(), timeZone);
+    const to = args.to || today;
+    const days = differenceInDateKeys(to, args.from) + 1;
+
+    if (days < 1) {
+      return { success: false, message: "from must not be after to." };
+    }
+    if (days > MAX_RANGE_DAYS) {
+      return {
+        success: false,
+        message: `Ranges are limited to ${MAX_RANGE_DAYS} days.`,
+      };
+    }
+
+    const meals = await getMealsByUserAndRange(
+      userId,
+      startOfDayInZone(args.from, timeZone),
+      endOfDayInZone(to, timeZone)
+    );
+    const { mealCount, ...totals } = sumMeals(meals);
+    const loggedDays = groupMeals(meals, "day", timeZone);
+
+    // Days without any meals are usually days the user didn't log, so
+    // averages are over logged days
+    const averageOver = Math.max(loggedDays.length, 1);
+
+    return {
+      success: true,
+      message: `${loggedDays.length} of ${days} days logged between ${args.from} and ${to}`,
+      from: args.from,
+      to,
+      today,
+      totals,
+      meal_count: mealCount,
+      days_in_range: days,
+      days_logged: loggedDays.length,
+      daily_average: {
+        calories: Math.round(totals.calories / averageOver),
+        protein: round(totals.protein / averageOver),
+        carbs: round(totals.carbs / averageOver),
+        fat: round(totals.fat / averageOver),
+      },
+      target_calories: userProfile?.targetCalories || null,
+      days: loggedDays.map(({ key, calories, protein, carbs, fat }) => ({
+        date: key,
+        calories,
+        protein,
+        carbs,
+        fat,
+      })),
+    };
+  },
+});
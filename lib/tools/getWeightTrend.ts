@@ -0,0 +1,88 @@
+// lib/tools/getWeightTrend.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { getWeightLogsByUserAndRange } from "../firebase/models/weightLog";
+import { smoothWeightTrend } from "../nutrition/adaptiveTarget";
+import {
+  addDaysToKey,
+  differenceInDateKeys,
+  endOfDayInZone,
+  resolveTimeZone,
+  startOfDayInZone,
+  toDateKey,
+} from "../timezone";
+import { formatWeight, getUnitPreferences, toDisplayWeight } from "../units";
+import { dateKeySchema } from "./schema";
+import { defineTool } from "./types";
+import { getTrendChangePerWeek } from "./userRecords";
+
+const DEFAULT_RANGE_DAYS = 30;
+
+export const getWeightTrendTool = defineTool({
+  name: "get_weight_trend",
+  description:
+    "Get the user's weigh-ins between two days with the overall change and the smoothed weekly trend, in their preferred unit. Use it for questions about weight progress.",
+  parameters: z.object({
+    from: dateKeySchema
+      .optional()
+      .describe(
+        `First day of the range (YYYY-MM-DD format). Defaults to ${DEFAULT_RANGE_DAYS} days ago.`
+      ),
+    to: dateKeySchema
+      .optional()
+      .describe(
+        "Last day of the range (YYYY-MM-DD format). Defaults to today."
+      ),
+  }),
+
+  async execute(userId, args) {
+    const userProfile = await getUserProfileById(userId);
+    const timeZone = resolveTimeZone(userProfile?.timezone);
+    const { weight: unit } = getUnitPreferences(userProfile?.units);
+    const to = args.to || toDateKey(new Date(), timeZone);
+    const from = args.from || addDaysToKey(to, -DEFAULT_RANGE_DAYS);
+
+    if (differenceInDateKeys(to, from) < 0) {
+      return { success: false, message: "from must not be after to." };
+    }
+
+    const weightLogs = await getWeightLogsByUserAndRange(
+      userId,
+      startOfDayInZone(from, timeZone),
+      endOfDayInZone(to, timeZone)
+    );
+    const points = smoothWeightTrend(weightLogs, timeZone);
+
+    if (points.length === 0) {
+      return {
+        success: true,
+        message: `No weigh-ins between ${from} and ${to}.`,
+        from,
+        to,
+        weigh_ins: [],
+      };
+    }
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    const trendPerWeek = getTrendChangePerWeek(points);
+
+    return {
+      success: true,
+      message: `${points.length} weigh-in${points.length === 1 ? "" : "s"} between ${from} and ${to}, from ${formatWeight(first.weight, unit)} to ${formatWeight(last.weight, unit)}`,
+      from,
+      to,
+      unit,
+      start_weight: toDisplayWeight(first.weight, unit),
+      latest_weight: toDisplayWeight(last.weight, unit),
+      change: toDisplayWeight(last.weight - first.weight, unit),
+      // Smoothed, so single heavy or light days don't swing it
+      trend_change_per_week:
+        trendPerWeek === null ? null : toDisplayWeight(trendPerWeek, unit),
+      weigh_ins: points.map((point) => ({
+        date: point.day,
+        weight: toDisplayWeight(point.weight, unit),
+      })),
+    };
+  },
+});
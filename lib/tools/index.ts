@@ -0,0 +1,178 @@
+// lib/tools/index.ts
+// Registry of the tools every Niblet assistant can call. Each tool is one
+// module declaring its schema and executor; add new ones to ASSISTANT_TOOLS.
+import {
+  getToolExecution,
+  markToolExecutionUndone,
+  saveToolExecution,
+  ToolExecution,
+} from "../firebase/models/toolExecution";
+import type { LLMToolCall, LLMToolDefinition } from "../llm/types";
+import { deleteMealTool } from "./deleteMeal";
+import { deleteWeightTool } from "./deleteWeight";
+import { getDailySummaryTool } from "./getDailySummary";
+import { getGoalsTool } from "./getGoals";
+import { getNutritionInfoTool } from "./getNutritionInfo";
+import { getRangeSummaryTool } from "./getRangeSummary";
+import { getWeightTrendTool } from "./getWeightTrend";
+import { listMealsTool } from "./listMeals";
+import { listWeightsTool } from "./listWeights";
+import { logMealTool } from "./logMeal";
+import { logSavedMealTool } from "./logSavedMeal";
+import { logWeightTool } from "./logWeight";
+import { saveMemoryTool } from "./saveMemory";
+import { toJSONSchema } from "./schema";
+import type { AssistantTool, AssistantToolOutput } from "./types";
+import { updateMealTool } from "./updateMeal";
+import { updateWeightTool } from "./updateWeight";
+
+export type { AssistantTool, AssistantToolOutput } from "./types";
+
+export const ASSISTANT_TOOLS: AssistantTool[] = [
+  logMealTool,
+  logSavedMealTool,
+  logWeightTool,
+  getNutritionInfoTool,
+  listMealsTool,
+  updateMealTool,
+  deleteMealTool,
+  listWeightsTool,
+  updateWeightTool,
+  deleteWeightTool,
+  getDailySummaryTool,
+  getRangeSummaryTool,
+  getWeightTrendTool,
+  getGoalsTool,
+  saveMemoryTool,
+];
+
+/**
+ * Tool definitions to register with the model provider
+ */
+export function getToolDefinitions(): LLMToolDefinition[] {
+  return ASSISTANT_TOOLS.map(({ name, description, parameters }) => ({
+    name,
+    description,
+    parameters: toJSONSchema(parameters),
+  }));
+}
+
+/**
+ * Execute an assistant tool call for a user on the server. Arguments are
+ * validated against the tool's schema first. Failures are returned as tool
+ * output so the assistant can tell the user, never thrown.
+ */
+export async function executeAssistantTool(
+  userId: string,
+  toolName: string,
+  toolArgs: unknown
+): Promise<AssistantToolOutput> {
+  const tool = ASSISTANT_TOOLS.find(({ name }) => name === toolName);
+  if (!tool) {
+    return { success: false, message: `Unknown tool: ${toolName}` };
+  }
+
+  const parsed = tool.parameters.safeParse(toolArgs);
+  if (!parsed.success) {
+    return {
+      success: false,
+      message: `Invalid arguments for ${toolName}: ${parsed.error.issues
+        .map(
+          (issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`
+        )
+        .join("; ")}`,
+    };
+  }
+
+  try {
+    return await tool.execute(userId, parsed.data);
+  } catch (error) {
+    console.error(`Error executing ${toolName}:`, error);
+    return {
+      success: false,
+      message: `Failed to run ${toolName}. Please try again.`,
+    };
+  }
+}
+
+/**
+ * Execute a tool call once and log it. Running a call that's already been
+ * logged, e.g. when its output is delivered twice, returns the logged
+ * result instead of executing it again.
+ */
+export async function executeToolCall(
+  userId: string,
+  toolCall: LLMToolCall,
+  { threadId, runId }: { threadId: string; runId: string | null }
+): Promise<ToolExecution> {
+  const logged = await getToolExecution(toolCall.id);
+  if (logged) {
+    if (logged.userId !== userId) {
+      throw new Error(`Tool call ${toolCall.id} belongs to another user`);
+    }
+    return logged;
+  }
+
+  const output = await executeAssistantTool(
+    userId,
+    toolCall.name,
+    toolCall.arguments
+  );
+  const recordType = output.success
+    ? ASSISTANT_TOOLS.find(({ name }) => name === toolCall.name)?.records?.find(
+        (type) => output[`${type}_id`]
+      )
+    : undefined;
+
+  const execution: ToolExecution = {
+    id: toolCall.id,
+    userId,
+    threadId,
+    runId,
+    toolName: toolCall.name,
+    arguments: toolCall.arguments,
+    result: output,
+    success: Boolean(output.success),
+    recordType: recordType || null,
+    recordId: recordType ? output[`${recordType}_id`] : null,
+    undoneAt: null,
+  };
+
+  // The call has run either way, so its output still goes to the model
+  await saveToolExecution({ ...execution, id: toolCall.id }).catch((error) =>
+    console.error("Error logging tool call:", error)
+  );
+  return execution;
+}
+
+/**
+ * Whether a logged tool call can still be reversed
+ */
+export function canUndoToolExecution(execution: ToolExecution): boolean {
+  const tool = ASSISTANT_TOOLS.find(({ name }) => name === execution.toolName);
+  return (
+    !!tool?.undo &&
+    execution.success &&
+    !!execution.recordId &&
+    !execution.undoneAt
+  );
+}
+
+/**
+ * Reverse a logged tool call, e.g. delete the meal it logged
+ */
+export async function undoToolExecution(
+  execution: ToolExecution
+): Promise<void> {
+  const tool = ASSISTANT_TOOLS.find(({ name }) => name === execution.toolName);
+  if (!tool?.undo || !canUndoToolExecution(execution)) {
+    throw new Error(`This ${execution.toolName} call can't be undone`);
+  }
+
+  await tool.undo(execution.userId, {
+    type: execution.recordType!,
+    id: execution.recordId!,
+    result: execution.result,
+  });
+  await markToolExecutionUndone(execution.id!);
+}
@@ -0,0 +1,38 @@
+// lib/tools/listMeals.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { getMealsByUserAndDate } from "../firebase/models/meal";
+import { parseUserDate, resolveTimeZone } from "../timezone";
+import { defineTool } from "./types";
+import { describeMeal } from "./userRecords";
+
+export const listMealsTool = defineTool({
+  name: "list_meals",
+  description:
+    "List the meals the user logged on a day, with the meal_id needed to update or delete one. Use it to find the meal the user means before changing it.",
+  parameters: z.object({
+    date: z
+      .string()
+      .optional()
+      .describe("The day to list (YYYY-MM-DD format). Defaults to today."),
+  }),
+
+  async execute(userId, args) {
+    const userProfile = await getUserProfileById(userId);
+    const timeZone = resolveTimeZone(userProfile?.timezone);
+    const meals = await getMealsByUserAndDate(
+      userId,
+      parseUserDate(args.date, timeZone) || new Date(),
+      timeZone
+    );
+
+    return {
+      success: true,
+      message: meals.length
+        ? `Found ${meals.length} meal${meals.length === 1 ? "" : "s"}.`
+        : "No meals logged on that day.",
+      // Oldest first, so "the second coffee" counts in logging order
+      meals: meals.map((meal) => describeMeal(meal, timeZone)).reverse(),
+    };
+  },
+});
@@ -0,0 +1,40 @@
+// lib/tools/listWeights.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { getWeightLogsByUser } from "../firebase/models/weightLog";
+import { getUnitPreferences } from "../units";
+import { defineTool } from "./types";
+import { describeWeightLog } from "./userRecords";
+
+const DEFAULT_LIMIT = 10;
+
+export const listWeightsTool = defineTool({
+  name: "list_weights",
+  description:
+    "List the user's most recent weight entries, newest first, with the weight_id needed to update or delete one.",
+  parameters: z.object({
+    limit: z
+      .number()
+      .optional()
+      .describe(`How many entries to list (default ${DEFAULT_LIMIT})`),
+  }),
+
+  async execute(userId, args) {
+    const userProfile = await getUserProfileById(userId);
+    const { weight: unit } = getUnitPreferences(userProfile?.units);
+    const weightLogs = await getWeightLogsByUser(
+      userId,
+      Math.min(Math.max(Math.round(args.limit || DEFAULT_LIMIT), 1), 50)
+    );
+
+    return {
+      success: true,
+      message: weightLogs.length
+        ? `Found ${weightLogs.length} weight entr${weightLogs.length === 1 ? "y" : "ies"}.`
+        : "No weights logged yet.",
+      weights: weightLogs.map((weightLog) =>
+        describeWeightLog(weightLog, unit, userProfile?.timezone)
+      ),
+    };
+  },
+});
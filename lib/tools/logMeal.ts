@@ -0,0 +1,149 @@
+// lib/tools/logMeal.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import {
+  createMeal,
+  deleteMeal,
+  MacroKey,
+  MealItem,
+} from "../firebase/models/meal";
+import {
+  createMealProposal,
+  getMealProposalById,
+} from "../firebase/models/mealProposal";
+import {
+  hasItemNutrition,
+  MealItemTotals,
+  normalizeMealItems,
+  sumMealItems,
+} from "../mealItems";
+import { rejectMealProposal } from "../mealProposals";
+import { mealItemSchema, mealTypeSchema } from "./schema";
+import { defineTool } from "./types";
+
+// Share of calories and calories per gram of each macro in a typical
+// meal, to fill in ones the assistant left out
+const TYPICAL_MACRO_SPLIT: Record<MacroKey, [number, number]> = {
+  protein: [0.2, 4],
+  carbs: [0.5, 4],
+  fat: [0.3, 9],
+};
+
+/**
+ * The meal's totals. Itemized meals take them from their items; otherwise
+ * macros the assistant didn't give are estimated and listed as such.
+ */
+function getMealTotals(
+  calories: number,
+  given: Partial<Record<MacroKey, number>>,
+  items: MealItem[]
+): MealItemTotals & { estimatedMacros: MacroKey[] } {
+  if (hasItemNutrition(items)) {
+    return { ...sumMealItems(items), estimatedMacros: [] };
+  }
+
+  const macros = { calories } as MealItemTotals;
+  const estimatedMacros: MacroKey[] = [];
+  (Object.keys(TYPICAL_MACRO_SPLIT) as MacroKey[]).forEach((macro) => {
+    const [share, caloriesPerGram] = TYPICAL_MACRO_SPLIT[macro];
+    macros[macro] =
+      given[macro] ?? Math.round((calories * share) / caloriesPerGram);
+    if (given[macro] === undefined) estimatedMacros.push(macro);
+  });
+  return { ...macros, estimatedMacros };
+}
+
+/**
+ * e.g. "protein, carbs and fat"
+ */
+const formatList = (words: string[]) =>
+  words.length > 1
+    ? `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`
+    : words.join("");
+
+export const logMealTool = defineTool({
+  name: "log_meal",
+  description: "Log a meal with estimated calories and nutrition information",
+  parameters: z.object({
+    meal_name: z.string().describe("The name of the meal"),
+    meal_type: mealTypeSchema.describe(
+      "Type of meal (breakfast, lunch, dinner, snack)"
+    ),
+    calories: z.number().describe("Estimated calories"),
+    protein: z.number().optional().describe("Protein in grams"),
+    carbs: z.number().optional().describe("Carbohydrates in grams"),
+    fat: z.number().optional().describe("Fat in grams"),
+    items: z
+      .array(mealItemSchema)
+      .optional()
+      .describe(
+        "Individual food items in the meal with their own nutrition. When provided, the meal totals are the sum of the items."
+      ),
+  }),
+
+  // In confirm-before-log mode the meal is proposed to the user instead,
+  // and only logged once they confirm it
+  async execute(userId, args) {
+    const items = normalizeMealItems(args.items);
+    const { estimatedMacros, ...totals } = getMealTotals(
+      args.calories || 0,
+      args,
+      items
+    );
+    const summary = `${args.meal_name} (${totals.calories} calories, protein: ${totals.protein}g, carbs: ${totals.carbs}g, fat: ${totals.fat}g${
+      estimatedMacros.length > 0
+        ? `; ${formatList(estimatedMacros)} estimated`
+        : ""
+    })`;
+
+    const userProfile = await getUserProfileById(userId);
+    if (userProfile?.confirmMealsBeforeLogging) {
+      const proposal = await createMealProposal({
+        userId,
+        name: args.meal_name,
+        mealType: args.meal_type,
+        ...totals,
+        items,
+        estimatedMacros,
+        date: new Date(),
+      });
+
+      return {
+        success: true,
+        meal_proposal_id: proposal.id,
+        awaiting_confirmation: true,
+        message: `Proposed ${summary}. It isn't logged yet: the user confirms, changes or rejects it on the card shown in the chat, so don't log it again.`,
+      };
+    }
+
+    const meal = await createMeal({
+      userId,
+      name: args.meal_name,
+      mealType: args.meal_type,
+      ...totals,
+      items,
+      estimatedMacros,
+      date: new Date(),
+    });
+
+    return {
+      success: true,
+      meal_id: meal.id,
+      message: `Logged ${summary}`,
+    };
+  },
+
+  records: ["meal", "meal_proposal"],
+
+  // A proposal is rejected, or its meal deleted if it was confirmed
+  async undo(userId, { type, id }) {
+    if (type === "meal_proposal") {
+      const proposal = await getMealProposalById(id);
+      if (proposal && proposal.status !== "rejected") {
+        await rejectMealProposal(id, ["pending", "confirmed"]);
+      }
+      return;
+    }
+    await deleteMeal(id);
+  },
+});
@@ -0,0 +1,66 @@
+// lib/tools/logSavedMeal.ts
+import { z } from "zod";
+import { deleteMeal } from "../firebase/models/meal";
+import {
+  findSavedMealByName,
+  getSavedMealsByUser,
+  logSavedMeal,
+  unlogSavedMeal,
+} from "../firebase/models/savedMeal";
+import { mealTypeSchema } from "./schema";
+import { defineTool } from "./types";
+
+export const logSavedMealTool = defineTool({
+  name: "log_saved_meal",
+  description:
+    "Log one of the user's saved meals or recipes by name, e.g. when they say 'log my usual oatmeal'. Prefer this over estimating when the user refers to a meal they have saved.",
+  parameters: z.object({
+    name: z.string().describe("Name of the saved meal or recipe"),
+    servings: z
+      .number()
+      .optional()
+      .describe("Number of servings eaten (default 1)"),
+    meal_type: mealTypeSchema
+      .optional()
+      .describe("Type of meal, if different from the saved one"),
+  }),
+
+  // Find the saved meal the user named and log it. On a miss, list the
+  // user's saved meals so the assistant can ask.
+  async execute(userId, args) {
+    const savedMeal = await findSavedMealByName(userId, args.name);
+
+    if (!savedMeal) {
+      const savedMeals = await getSavedMealsByUser(userId);
+      return {
+        success: false,
+        message: savedMeals.length
+          ? `No saved meal matches "${args.name}". Ask which one they meant, or estimate the meal and log it with log_meal.`
+          : "The user has no saved meals yet. Estimate the meal and log it with log_meal instead.",
+        saved_meals: savedMeals.slice(0, 20).map((meal) => meal.name),
+      };
+    }
+
+    const meal = await logSavedMeal(savedMeal, {
+      servings: args.servings,
+      mealType: args.meal_type,
+    });
+
+    return {
+      success: true,
+      meal_id: meal.id,
+      saved_meal_id: savedMeal.id,
+      message: `Logged ${meal.name} (${meal.calories} calories, protein: ${meal.protein}g, carbs: ${meal.carbs}g, fat: ${meal.fat}g) from the saved meal "${savedMeal.name}".`,
+    };
+  },
+
+  records: ["meal"],
+
+  // The saved meal no longer counts this logging towards its ranking
+  async undo(userId, { id, result }) {
+    await deleteMeal(id);
+    if (result.saved_meal_id) {
+      await unlogSavedMeal(result.saved_meal_id);
+    }
+  },
+});
@@ -0,0 +1,55 @@
+// lib/tools/logWeight.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { createOrUpdateUserProfile } from "../firebase/models/user";
+import { deleteWeightLog, logWeight } from "../firebase/models/weightLog";
+import { parseUserDate } from "../timezone";
+import { formatWeight, getUnitPreferences, weightFromToolArgs } from "../units";
+import { defineTool } from "./types";
+import { syncCurrentWeight } from "./userRecords";
+
+export const logWeightTool = defineTool({
+  name: "log_weight",
+  description: "Log the user's weight",
+  parameters: z.object({
+    weight: z.number().describe("The user's weight, in the unit they gave it"),
+    unit: z
+      .enum(["lb", "kg"])
+      .optional()
+      .describe(
+        "Unit of the weight. Omit it to use the user's preferred unit."
+      ),
+    date: z
+      .string()
+      .optional()
+      .describe("The date of the weight measurement (YYYY-MM-DD format)"),
+  }),
+
+  // Log weight in pounds, defaulting to the user's preferred unit, on the
+  // given day in the user's timezone
+  async execute(userId, args) {
+    const userProfile = await getUserProfileById(userId);
+    const { weight: preferredUnit } = getUnitPreferences(userProfile?.units);
+    const weightLbs = weightFromToolArgs(args.weight, args.unit, preferredUnit);
+    const weightLog = await logWeight(
+      userId,
+      weightLbs,
+      parseUserDate(args.date, userProfile?.timezone)
+    );
+    await createOrUpdateUserProfile(userId, { currentWeight: weightLbs });
+
+    return {
+      success: true,
+      weight_id: weightLog.id,
+      message: `Logged weight: ${formatWeight(weightLbs, preferredUnit)}`,
+    };
+  },
+
+  records: ["weight"],
+
+  // The profile's current weight goes back to the latest remaining entry
+  async undo(userId, { id }) {
+    await deleteWeightLog(id);
+    await syncCurrentWeight(userId);
+  },
+});
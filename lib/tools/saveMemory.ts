@@ -0,0 +1,58 @@
+// lib/tools/saveMemory.ts
+import { z } from "zod";
+import {
+  deleteMemory,
+  MEMORY_CATEGORIES,
+  saveMemory,
+  updateMemory,
+} from "../firebase/models/memory";
+import { defineTool } from "./types";
+
+export const saveMemoryTool = defineTool({
+  name: "save_memory",
+  description:
+    "Remember a lasting fact about the user for future conversations: foods they like or dislike, allergies or intolerances, their routine or schedule, and personal goals. Don't save one-off meals, weights or anything only true today. Save each fact on its own, in a short third-person sentence.",
+  parameters: z.object({
+    category: z.enum(MEMORY_CATEGORIES).describe("What kind of fact it is"),
+    content: z
+      .string()
+      .min(1)
+      .max(200)
+      .describe(
+        'The fact, e.g. "Dislikes mushrooms" or "Trains at the gym on Monday and Thursday evenings"'
+      ),
+  }),
+
+  async execute(userId, args) {
+    const { memory, previous } = await saveMemory({
+      userId,
+      category: args.category,
+      content: args.content,
+    });
+
+    return {
+      success: true,
+      memory_id: memory.id,
+      // A fact the user already had was updated rather than added
+      ...(previous && {
+        previous_memory: {
+          category: previous.category,
+          content: previous.content,
+        },
+      }),
+      message: `I'll remember that: ${memory.content}`,
+    };
+  },
+
+  records: ["memory"],
+
+  // A memory that was only updated goes back to how it was instead of
+  // being deleted
+  async undo(userId, { id, result }) {
+    if (result.previous_memory) {
+      await updateMemory(id, result.previous_memory);
+      return;
+    }
+    await deleteMemory(id);
+  },
+});
@@ -0,0 +1,93 @@
+// lib/tools/schema.ts
+import { z } from "zod";
+
+export const mealTypeSchema = z.enum([
+  "Breakfast",
+  "Morning Snack",
+  "Lunch",
+  "Afternoon Snack",
+  "Dinner",
+  "Evening Snack",
+  "Other",
+]);
+
+export const dateKeySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+export const mealItemSchema = z.object({
+  name: z.string().describe("Food item name"),
+  quantity: z.number().optional().describe("Amount of the item, e.g. 1.5"),
+  unit: z
+    .string()
+    .optional()
+    .describe("Unit for the quantity (g, oz, cup, tbsp, piece, serving)"),
+  calories: z.number().describe("Calories"),
+  protein: z.number().optional().describe("Protein in grams"),
+  carbs: z.number().optional().describe("Carbohydrates in grams"),
+  fat: z.number().optional().describe("Fat in grams"),
+  food_id: z
+    .string()
+    .optional()
+    .describe("food_id from get_nutrition_info, if looked up"),
+});
+
+// Destructive tools only run once the user has agreed in the chat
+export const confirmedSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "Set to true only after the user has confirmed this in the chat. Without it the tool returns what would change so you can ask them first."
+  );
+
+/**
+ * JSON schema for a tool's arguments, as sent to the model. Covers the zod
+ * types tools use: objects, arrays, enums, strings, numbers, booleans and
+ * optional fields.
+ */
+export function toJSONSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const description = schema.description
+    ? { description: schema.description }
+    : {};
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return { ...toJSONSchema(schema.unwrap()), ...description };
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape: z.ZodRawShape = schema.shape;
+    const properties = Object.fromEntries(
+      Object.entries(shape).map(([key, value]) => [key, toJSONSchema(value)])
+    );
+    const required = Object.keys(shape).filter(
+      (key) => !shape[key].isOptional()
+    );
+    return { type: "object", ...description, properties, required };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return {
+      type: "array",
+      ...description,
+      items: toJSONSchema(schema.element),
+    };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", ...description, enum: schema.options };
+  }
+
+  if (schema instanceof z.ZodString) {
+    return { type: "string", ...description };
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    return { type: "number", ...description };
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean", ...description };
+  }
+
+  throw new Error(`Unsupported tool schema type: ${schema._def.typeName}`);
+}
@@ -0,0 +1,37 @@
+// lib/tools/types.ts
+import type { z } from "zod";
+import type { ToolRecordType } from "../firebase/models/toolExecution";
+
+export type AssistantToolOutput = Record<string, any>;
+
+/**
+ * A tool the assistant can call. The arguments schema is both what the
+ * model is shown and what its calls are checked against before executing.
+ */
+export interface AssistantTool<
+  Args extends z.ZodObject<z.ZodRawShape> = z.ZodObject<z.ZodRawShape>,
+> {
+  name: string;
+  description: string;
+  parameters: Args;
+  // Runs on the server for the signed-in user
+  execute(userId: string, args: z.infer<Args>): Promise<AssistantToolOutput>;
+  // Kinds of record a successful call creates or changes; the output's
+  // `<record>_id` names the one it did
+  records?: ToolRecordType[];
+  // Reverses a successful call, given the record it created and the
+  // call's output
+  undo?(
+    userId: string,
+    record: { type: ToolRecordType; id: string; result: AssistantToolOutput }
+  ): Promise<void>;
+}
+
+/**
+ * Declare a tool, typing its executor's arguments from its schema
+ */
+export function defineTool<Args extends z.ZodObject<z.ZodRawShape>>(
+  tool: AssistantTool<Args>
+): AssistantTool<Args> {
+  return tool;
+}
@@ -0,0 +1,75 @@
+// lib/tools/updateMeal.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { Meal, updateMeal } from "../firebase/models/meal";
+import { normalizeMealItems } from "../mealItems";
+import { parseUserDate } from "../timezone";
+import { mealItemSchema, mealTypeSchema } from "./schema";
+import { defineTool } from "./types";
+import { describeMeal, getUserMeal } from "./userRecords";
+
+export const updateMealTool = defineTool({
+  name: "update_meal",
+  description:
+    "Correct a meal the user already logged, e.g. a different portion size or meal type. Only the fields given are changed; get the meal_id from list_meals.",
+  parameters: z.object({
+    meal_id: z.string().describe("meal_id of the meal to change"),
+    meal_name: z.string().optional().describe("New name of the meal"),
+    meal_type: mealTypeSchema.optional().describe("New type of meal"),
+    calories: z.number().optional().describe("New total calories"),
+    protein: z.number().optional().describe("New protein in grams"),
+    carbs: z.number().optional().describe("New carbohydrates in grams"),
+    fat: z.number().optional().describe("New fat in grams"),
+    items: z
+      .array(mealItemSchema)
+      .optional()
+      .describe(
+        "Replacement list of food items. When the items carry nutrition, the meal totals are recalculated from them."
+      ),
+    date: z
+      .string()
+      .optional()
+      .describe("Move the meal to this day (YYYY-MM-DD format)"),
+  }),
+
+  async execute(userId, { meal_id, meal_name, meal_type, date, ...args }) {
+    const meal = await getUserMeal(userId, meal_id);
+    if (!meal) {
+      return {
+        success: false,
+        message: `No meal found with id ${meal_id}. Use list_meals to find it.`,
+      };
+    }
+
+    const userProfile = await getUserProfileById(userId);
+    const updates: Partial<Meal> = {};
+    if (meal_name !== undefined) updates.name = meal_name;
+    if (meal_type !== undefined) updates.mealType = meal_type;
+    if (args.calories !== undefined) updates.calories = args.calories;
+    if (args.protein !== undefined) updates.protein = args.protein;
+    if (args.carbs !== undefined) updates.carbs = args.carbs;
+    if (args.fat !== undefined) updates.fat = args.fat;
+    if (args.items !== undefined) {
+      updates.items = normalizeMealItems(args.items);
+    }
+    if (date !== undefined) {
+      updates.date = parseUserDate(date, userProfile?.timezone);
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return { success: false, message: "No changes were given." };
+    }
+
+    await updateMeal(meal_id, updates);
+    const updated = (await getUserMeal(userId, meal_id)) || meal;
+
+    return {
+      success: true,
+      meal_id,
+      message: `Updated ${updated.name} (${updated.calories} calories, protein: ${updated.protein ?? 0}g, carbs: ${updated.carbs ?? 0}g, fat: ${updated.fat ?? 0}g)`,
+      meal: describeMeal(updated, userProfile?.timezone),
+    };
+  },
+
+  records: ["meal"],
+});
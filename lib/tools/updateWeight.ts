@@ -0,0 +1,73 @@
+// lib/tools/updateWeight.ts
+import { z } from "zod";
+import { getUserProfileById } from "../auth/authService";
+import { updateWeightLog, WeightLog } from "../firebase/models/weightLog";
+import { parseUserDate } from "../timezone";
+import { formatWeight, getUnitPreferences, weightFromToolArgs } from "../units";
+import { defineTool } from "./types";
+import { getUserWeightLog, syncCurrentWeight } from "./userRecords";
+
+export const updateWeightTool = defineTool({
+  name: "update_weight",
+  description:
+    "Correct a weight entry the user already logged. Get the weight_id from list_weights.",
+  parameters: z.object({
+    weight_id: z.string().describe("weight_id of the entry to change"),
+    weight: z
+      .number()
+      .optional()
+      .describe("The corrected weight, in the unit the user gave it"),
+    unit: z
+      .enum(["lb", "kg"])
+      .optional()
+      .describe(
+        "Unit of the weight. Omit it to use the user's preferred unit."
+      ),
+    date: z
+      .string()
+      .optional()
+      .describe("Move the entry to this day (YYYY-MM-DD format)"),
+  }),
+
+  async execute(userId, args) {
+    const weightLog = await getUserWeightLog(userId, args.weight_id);
+    if (!weightLog) {
+      return {
+        success: false,
+        message: `No weight entry found with id ${args.weight_id}. Use list_weights to find it.`,
+      };
+    }
+
+    const userProfile = await getUserProfileById(userId);
+    const { weight: preferredUnit } = getUnitPreferences(userProfile?.units);
+    const updates: Partial<WeightLog> = {};
+    if (args.weight !== undefined) {
+      updates.weight = weightFromToolArgs(
+        args.weight,
+        args.unit,
+        preferredUnit
+      );
+    }
+    if (args.date !== undefined) {
+      updates.date = parseUserDate(args.date, userProfile?.timezone);
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return { success: false, message: "No changes were given." };
+    }
+
+    await updateWeightLog(args.weight_id, updates);
+    await syncCurrentWeight(userId);
+
+    return {
+      success: true,
+      weight_id: args.weight_id,
+      message: `Updated weight entry to ${formatWeight(
+        updates.weight ?? weightLog.weight,
+        preferredUnit
+      )}`,
+    };
+  },
+
+  records: ["weight"],
+});
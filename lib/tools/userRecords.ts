@@ -0,0 +1,134 @@
+// lib/tools/userRecords.ts
+// Shared by the tools that read and change the user's existing meals and
+// weights. Records are only visible to the tools of the user who owns them.
+import { Timestamp } from "firebase/firestore";
+import { getMealById, Meal } from "../firebase/models/meal";
+import { createOrUpdateUserProfile } from "../firebase/models/user";
+import {
+  getLatestWeight,
+  getWeightLogById,
+  WeightLog,
+} from "../firebase/models/weightLog";
+import type { TrendPoint } from "../nutrition/adaptiveTarget";
+import { differenceInDateKeys, resolveTimeZone, toDateKey } from "../timezone";
+import { formatWeight, WeightUnit } from "../units";
+import type { AssistantToolOutput } from "./types";
+
+function toDate(value: Date | Timestamp): Date {
+  return value instanceof Timestamp ? value.toDate() : new Date(value);
+}
+
+function formatTime(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * The meal with this id if it belongs to the user
+ */
+export async function getUserMeal(
+  userId: string,
+  mealId: string
+): Promise<Meal | null> {
+  const meal = await getMealById(mealId);
+  return meal && meal.userId === userId ? meal : null;
+}
+
+/**
+ * The weight log with this id if it belongs to the user
+ */
+export async function getUserWeightLog(
+  userId: string,
+  weightId: string
+): Promise<WeightLog | null> {
+  const weightLog = await getWeightLogById(weightId);
+  return weightLog && weightLog.userId === userId ? weightLog : null;
+}
+
+/**
+ * A meal as tool output, with its day and time in the user's zone
+ */
+export function describeMeal(meal: Meal, timeZone?: string | null) {
+  const zone = resolveTimeZone(timeZone);
+  const date = toDate(meal.date);
+
+  return {
+    meal_id: meal.id,
+    name: meal.name,
+    meal_type: meal.mealType || "Other",
+    date: toDateKey(date, zone),
+    time: formatTime(date, zone),
+    calories: meal.calories,
+    protein: meal.protein ?? 0,
+    carbs: meal.carbs ?? 0,
+    fat: meal.fat ?? 0,
+    // Macros filled in from a typical split rather than known
+    estimated_macros: meal.estimatedMacros || [],
+    items: (meal.items || []).map((item) => ({
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      calories: item.calories,
+    })),
+  };
+}
+
+/**
+ * A weight log as tool output, in the user's preferred unit
+ */
+export function describeWeightLog(
+  weightLog: WeightLog,
+  unit: WeightUnit,
+  timeZone?: string | null
+) {
+  return {
+    weight_id: weightLog.id,
+    weight: formatWeight(weightLog.weight, unit),
+    date: toDateKey(toDate(weightLog.date), resolveTimeZone(timeZone)),
+  };
+}
+
+/**
+ * Smoothed weight change in lbs/week across trend points, or null with
+ * less than a week between the first and last weigh-in
+ */
+export function getTrendChangePerWeek(points: TrendPoint[]): number | null {
+  if (points.length < 2) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const spanDays = differenceInDateKeys(last.day, first.day);
+  if (spanDays < 7) return null;
+
+  return ((last.trend - first.trend) / spanDays) * 7;
+}
+
+/**
+ * Output asking the assistant to confirm a destructive action with the
+ * user before calling the tool again with confirmed: true
+ */
+export function confirmationRequired(
+  action: string,
+  details: Record<string, unknown>
+): AssistantToolOutput {
+  return {
+    success: false,
+    requires_confirmation: true,
+    message: `Not done yet. Ask the user to confirm that they want to ${action}, then call this tool again with confirmed set to true.`,
+    ...details,
+  };
+}
+
+/**
+ * Keep the profile's current weight in line with the latest weight log
+ * after one is changed or removed
+ */
+export async function syncCurrentWeight(userId: string): Promise<void> {
+  const latestWeight = await getLatestWeight(userId);
+  if (latestWeight !== null) {
+    await createOrUpdateUserProfile(userId, { currentWeight: latestWeight });
+  }
+}
@@ -0,0 +1,159 @@
+// lib/units.ts
+// Unit preferences and conversions. Firestore always stores canonical
+// units - weight in pounds, height in inches, energy in kcal - and values
+// are converted only when shown to or read from the user.
+
+export type WeightUnit = "lb" | "kg";
+export type HeightUnit = "ft-in" | "cm";
+export type EnergyUnit = "kcal" | "kJ";
+
+export interface UnitPreferences {
+  weight: WeightUnit;
+  height: HeightUnit;
+  energy: EnergyUnit;
+}
+
+export const IMPERIAL_UNITS: UnitPreferences = {
+  weight: "lb",
+  height: "ft-in",
+  energy: "kcal",
+};
+
+export const METRIC_UNITS: UnitPreferences = {
+  weight: "kg",
+  height: "cm",
+  energy: "kcal",
+};
+
+export const DEFAULT_UNITS = IMPERIAL_UNITS;
+
+const KG_PER_LB = 0.45359237;
+const CM_PER_INCH = 2.54;
+const KJ_PER_KCAL = 4.184;
+
+/**
+ * Fill in missing preferences from the defaults, ignoring unknown values
+ */
+export function getUnitPreferences(
+  units?: Partial<UnitPreferences> | null
+): UnitPreferences {
+  return {
+    weight: units?.weight === "kg" ? "kg" : DEFAULT_UNITS.weight,
+    height: units?.height === "cm" ? "cm" : DEFAULT_UNITS.height,
+    energy: units?.energy === "kJ" ? "kJ" : DEFAULT_UNITS.energy,
+  };
+}
+
+/**
+ * Whether a value is a supported weight unit
+ */
+export function isWeightUnit(unit: unknown): unit is WeightUnit {
+  return unit === "lb" || unit === "kg";
+}
+
+/**
+ * Short display label for a weight unit
+ */
+export function weightUnitLabel(unit: WeightUnit): string {
+  return unit === "kg" ? "kg" : "lbs";
+}
+
+/**
+ * Convert stored pounds to the display unit, rounded to 0.1
+ */
+export function toDisplayWeight(lbs: number, unit: WeightUnit): number {
+  const value = unit === "kg" ? lbs * KG_PER_LB : lbs;
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Convert a weight entered in the given unit to stored pounds
+ */
+export function fromDisplayWeight(value: number, unit: WeightUnit): number {
+  const lbs = unit === "kg" ? value / KG_PER_LB : value;
+  return Math.round(lbs * 100) / 100;
+}
+
+/**
+ * Convert an edited display weight back to pounds, keeping the previously
+ * stored value when it wasn't changed so round trips don't drift
+ */
+export function toStoredWeight(
+  value: number,
+  unit: WeightUnit,
+  previousLbs?: number | null
+): number {
+  if (previousLbs && toDisplayWeight(previousLbs, unit) === value) {
+    return previousLbs;
+  }
+  return fromDisplayWeight(value, unit);
+}
+
+/**
+ * Pounds from a tool call's weight and optional unit, falling back to the
+ * user's preferred unit when the assistant didn't specify one
+ */
+export function weightFromToolArgs(
+  weight: number | string,
+  unit: unknown,
+  preferred: WeightUnit
+): number {
+  const value = typeof weight === "string" ? parseFloat(weight) : weight;
+  return fromDisplayWeight(value, isWeightUnit(unit) ? unit : preferred);
+}
+
+/**
+ * Format stored pounds for display, e.g. "82.5 kg" or "181.9 lbs"
+ */
+export function formatWeight(lbs: number, unit: WeightUnit): string {
+  return `${toDisplayWeight(lbs, unit)} ${weightUnitLabel(unit)}`;
+}
+
+/**
+ * Convert centimeters to stored inches
+ */
+export function cmToInches(cm: number): number {
+  return Math.round((cm / CM_PER_INCH) * 10) / 10;
+}
+
+/**
+ * Convert stored inches to whole centimeters
+ */
+export function inchesToCm(inches: number): number {
+  return Math.round(inches * CM_PER_INCH);
+}
+
+/**
+ * Convert stored kcal to the display unit, rounded to a whole number
+ */
+export function toDisplayEnergy(kcal: number, unit: EnergyUnit): number {
+  return Math.round(unit === "kJ" ? kcal * KJ_PER_KCAL : kcal);
+}
+
+/**
+ * Convert energy entered in the given unit to stored kcal
+ */
+export function fromDisplayEnergy(value: number, unit: EnergyUnit): number {
+  return Math.round(unit === "kJ" ? value / KJ_PER_KCAL : value);
+}
+
+/**
+ * Short display label for an energy unit
+ */
+export function energyUnitLabel(unit: EnergyUnit): string {
+  return unit === "kJ" ? "kJ" : "cal";
+}
+
+/**
+ * Long display name for an energy unit, as in "1200 calories remaining"
+ */
+export function energyUnitName(unit: EnergyUnit): string {
+  return unit === "kJ" ? "kJ" : "calories";
+}
+
+/**
+ * Format stored kcal for display, e.g. "2000 cal" or "8368 kJ"
+ */
+export function formatEnergy(kcal: number, unit: EnergyUnit): string {
+  return `${toDisplayEnergy(kcal, unit)} ${energyUnitLabel(unit)}`;
+}
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { HeightUnit, inchesToCm } from "./units";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -26,10 +27,15 @@ export function formatChatText(text: string): string {
 /**
  * Formats a height value in inches to a human-readable format
  * @param inches Height in inches
- * @returns Formatted height string (e.g., "5'10"")
+ * @param unit Display unit, feet/inches or centimeters
+ * @returns Formatted height string (e.g., "5'10"" or "178 cm")
  */
-export function formatHeight(inches: number | undefined | null): string {
+export function formatHeight(
+  inches: number | undefined | null,
+  unit: HeightUnit = "ft-in"
+): string {
   if (!inches) return "Not specified";
+  if (unit === "cm") return `${inchesToCm(inches)} cm`;
 
   const feet = Math.floor(inches / 12);
   const remainingInches = Math.round(inches % 12);
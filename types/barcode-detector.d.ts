@@ -0,0 +1,21 @@
+// types/barcode-detector.d.ts
+// Shape Detection API, not yet part of TypeScript's DOM lib
+
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorOptions {
+  formats?: string[];
+}
+
+declare class BarcodeDetector {
+  constructor(options?: BarcodeDetectorOptions);
+  static getSupportedFormats(): Promise<string[]>;
+  detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface Window {
+  BarcodeDetector?: typeof BarcodeDetector;
+}
@@ -5,6 +5,11 @@ export interface Message {
   content: string;
   timestamp: Date;
   imageUrl?: string;
+  // Meals and weights logged or changed by this message
+  mealIds?: string[];
+  weightIds?: string[];
+  // Logged tool calls that changed them, shown as links with an undo
+  toolExecutionIds?: string[];
   isStreaming?: boolean; // Add this flag to indicate streaming
 }
 